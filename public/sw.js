@@ -0,0 +1,136 @@
+// public/sw.js
+//
+// Service worker that keeps the finder usable on patchy connections. Registered by
+// src/services/serviceWorker.ts (production builds only) as `/sw.js?v=<build id>&data=<url>…`:
+//   - `v` identifies the build; its app shell and chunks are precached from the
+//     `precache-manifest.json` written by the build (see vite.config.ts)
+//   - each `data` is a doctor API URL (prefix) whose responses are cached for offline use
+//
+// Strategies:
+//   - page navigations: network first, falling back to the cached app shell (index.html)
+//   - precached build files: cache first
+//   - doctor data: network first, falling back to the last cached response
+//   - images (doctor photos): cache first, filled as photos are viewed (opaque cross-origin
+//     photos in a much smaller cache, as each one counts as megabytes against the quota)
+//
+// Updates: a new build's worker installs alongside the old one and waits (no skipWaiting).
+// Tabs still running the old build keep the old worker and its precache, so their lazily
+// loaded chunks stay available; the new worker activates once those tabs are closed.
+
+const params = new URL(self.location.href).searchParams;
+const BUILD_ID = params.get('v') || 'dev';
+const DATA_URL_PREFIXES = params.getAll('data').filter(Boolean);
+
+const CACHE_PREFIX = 'doctor-finder-';
+const PRECACHE = `${CACHE_PREFIX}precache-${BUILD_ID}`;
+const DATA_CACHE = `${CACHE_PREFIX}data`;
+const IMAGE_CACHE = `${CACHE_PREFIX}images`;
+const OPAQUE_IMAGE_CACHE = `${CACHE_PREFIX}images-opaque`;
+// Oldest photos are dropped beyond these many, to keep storage use bounded. Browsers pad
+// opaque responses heavily when counting quota (megabytes each in Chromium), so few are kept
+// lest they crowd out the precache and localStorage
+const MAX_CACHED_IMAGES = 300;
+const MAX_CACHED_OPAQUE_IMAGES = 20;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+    const { files } = await response.json();
+    const cache = await caches.open(PRECACHE);
+    await cache.addAll(files);
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    // No tab runs an earlier build any more (this worker waited for them to close), so
+    // their precaches can go; runtime data and image caches are kept
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(`${CACHE_PREFIX}precache-`) && name !== PRECACHE)
+      .map(name => caches.delete(name)));
+    // Also control tabs that were opened before any worker was installed
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (isDataRequest(url)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request, PRECACHE));
+  } else if (request.destination === 'image') {
+    event.respondWith(cacheImage(request));
+  }
+});
+
+/** Whether the request is for doctor data (the list, a page of it, or one doctor) */
+function isDataRequest(url) {
+  const withoutQuery = `${url.origin}${url.pathname}`;
+  return DATA_URL_PREFIXES.some(prefix => withoutQuery.startsWith(prefix));
+}
+
+/** Pages come from the network when possible; offline every route gets the cached app shell */
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match('/index.html', { cacheName: PRECACHE });
+    if (shell) return shell;
+    throw error;
+  }
+}
+
+/** Serves from the cache, fetching (and caching) what isn't there yet */
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request, { cacheName });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/** Serves from the network, keeping a copy; falls back to that copy when the network fails */
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/** Photos are cached as they are viewed (cross-origin photos without CORS are opaque responses) */
+async function cacheImage(request) {
+  const cached = await caches.match(request, { cacheName: IMAGE_CACHE })
+    || await caches.match(request, { cacheName: OPAQUE_IMAGE_CACHE });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    await putLimited(IMAGE_CACHE, MAX_CACHED_IMAGES, request, response.clone());
+  } else if (response.type === 'opaque') {
+    await putLimited(OPAQUE_IMAGE_CACHE, MAX_CACHED_OPAQUE_IMAGES, request, response.clone());
+  }
+  return response;
+}
+
+/** Stores a response, then drops the oldest entries beyond `maxEntries` */
+async function putLimited(cacheName, maxEntries, request, response) {
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+}
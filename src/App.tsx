@@ -1,12 +1,33 @@
 // src/App.tsx
 
-import React, { Suspense } from 'react'; // Import Suspense
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import React, { Suspense, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'; // Import Suspense
+import {
+  BrowserRouter,
+  Routes,
+  Route,
+  Outlet,
+  useLocation,
+  useMatch,
+  useNavigate,
+  useOutletContext,
+  useParams,
+} from 'react-router-dom';
 import { Navbar } from './components/Navbar';
+import { OfflineBanner } from './components/OfflineBanner';
 // Remove direct imports for lazy components:
 // import { FilterPanel } from './components/FilterPanel';
 // import { DoctorList } from './components/DoctorList';
 import { useDoctorFinder } from './hooks/useDoctorFinder';
+import { useSearchHistory } from './hooks/useSearchHistory';
+import { useShortlist } from './hooks/useShortlist';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { describeFilterState, getFilterStateKey, isFilterStateEmpty } from './utils/filterState';
+import { MAX_COMPARED_DOCTORS } from './utils/comparison';
+import { resolveShortlist } from './utils/shortlist';
+import { buildShareUrl } from './utils/urlState';
+import { formatDoctorsCsv, formatDoctorsJson, getExportFileName, toDoctorExportRows } from './utils/doctorExport';
+import { downloadTextFile } from './services/fileDownload';
+import { Doctor, ExportFormat, NextAvailableSlot, RecentSearch, SavedSearchPreset, SearchSuggestion } from './types';
 import { Spinner } from './components/Spinner'; // Import your loading spinner
 import './index.css';
 
@@ -18,52 +39,360 @@ const FilterPanel = React.lazy(() =>
 const DoctorList = React.lazy(() =>
   import('./components/DoctorList').then(module => ({ default: module.DoctorList }))
 );
+const DoctorDetailPage = React.lazy(() =>
+  import('./components/DoctorDetailPage').then(module => ({ default: module.DoctorDetailPage }))
+);
+const BookingDialog = React.lazy(() =>
+  import('./components/BookingDialog').then(module => ({ default: module.BookingDialog }))
+);
+const DoctorComparisonPage = React.lazy(() =>
+  import('./components/DoctorComparisonPage').then(module => ({ default: module.DoctorComparisonPage }))
+);
+const ShortlistDrawer = React.lazy(() =>
+  import('./components/ShortlistDrawer').then(module => ({ default: module.ShortlistDrawer }))
+);
+const ComparisonTray = React.lazy(() =>
+  import('./components/ComparisonTray').then(module => ({ default: module.ComparisonTray }))
+);
+const ShareDialog = React.lazy(() =>
+  import('./components/ShareDialog').then(module => ({ default: module.ShareDialog }))
+);
+const PrintableResultsPage = React.lazy(() =>
+  import('./components/PrintableResultsPage').then(module => ({ default: module.PrintableResultsPage }))
+);
 // --- End Lazy Load Components ---
 
+/** What the layout hands to the `/doctors/:id` route through the router outlet */
+interface DoctorDetailRouteContext {
+  cachedDoctors: Doctor[];
+  isListLoading: boolean;
+  fetchDoctor: (doctorId: string, signal?: AbortSignal) => Promise<Doctor | null>;
+  distances: ReadonlyMap<string, number>;
+  onBack: () => void;
+  onBook: (doctor: Doctor) => void;
+}
+
+/** What the layout additionally hands to the `/compare` route */
+interface ComparisonRouteContext {
+  compareIds: string[];
+  nextAvailableSlots: ReadonlyMap<string, NextAvailableSlot>;
+  onRemoveFromCompare: (doctorId: string) => void;
+  onClearCompare: () => void;
+}
+
+/** What the layout additionally hands to the `/print` route */
+interface PrintRouteContext {
+  filteredDoctors: Doctor[];
+  filtersSummary: string;
+  hasLoadedAllDoctors: boolean;
+}
+
+/** Everything the layout passes through the router outlet (each route picks what it needs) */
+type DoctorFinderRouteContext = DoctorDetailRouteContext & ComparisonRouteContext & PrintRouteContext;
+
 /**
  * The main application layout component.
  * Uses lazy loading for FilterPanel and DoctorList to improve initial load performance.
+ * It stays mounted across routes: a doctor's detail page (`/doctors/:id`), the
+ * comparison (`/compare`) and the printable results (`/print`) are rendered through the
+ * outlet while the results are only hidden, so returning to them keeps the filters,
+ * loaded pages and scroll position.
  */
 function DoctorFinderLayout() {
-  const doctorFinderProps = useDoctorFinder();
+  // The shortlist lives outside the finder (it is stored locally), which only needs its ids for filtering
+  const {
+    entries: shortlistEntries,
+    shortlistedIds,
+    toggleShortlist,
+    removeFromShortlist,
+    clearShortlist,
+  } = useShortlist();
+  const doctorFinderProps = useDoctorFinder({ shortlistedIds });
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isDetailOpen = useMatch('/doctors/:id') !== null;
+  const isComparisonOpen = useMatch('/compare') !== null;
+  const isPrintOpen = useMatch('/print') !== null;
+  // Whether a page (doctor detail, comparison or printable results) is shown in place of the results
+  const isPageOpen = isDetailOpen || isComparisonOpen || isPrintOpen;
   const {
     // Destructure all necessary props from the hook
     allDoctors,
     filteredDoctors,
+    visibleDoctors,
+    hasMore,
+    isLoadingMore,
+    loadMoreError,
+    loadMore,
+    revealDoctor,
+    fetchDoctorById,
     isLoading,
     error,
+    lastUpdatedAt,
+    isRefreshing,
+    refreshError,
+    refresh,
+    hasLoadedAllDoctors,
+    dataQuality,
+    matchHighlights,
     searchTerm,
     suggestions,
     setSearchTerm,
     updateSearchTermFromSuggestion,
+    selectSuggestion,
     availableSpecialties,
     consultationType,
     specialties,
+    cities,
+    localities,
+    availablePlaces,
+    toggleCity,
+    languages,
+    languageMatch,
+    availableLanguages,
+    facetCounts,
+    toggleLanguage,
+    setLanguageMatch,
+    feeRange,
+    experienceRange,
+    feeBounds,
+    experienceBounds,
+    setFeeRange,
+    setExperienceRange,
+    maxDistanceKm,
+    referencePoint,
+    isLocating,
+    referencePointError,
+    referencePlaces,
+    distances,
+    locateUser,
+    setReferencePlace,
+    clearReferencePoint,
+    setMaxDistance,
+    availableWithin,
+    nextAvailableSlots,
+    setAvailableWithin,
+    shortlistedOnly,
+    setShortlistedOnly,
+    compareIds,
+    toggleCompare,
+    clearCompare,
     // --- FIX: Destructure correct sort state and handler ---
     sortOptions,       // Destructure the array of active sort options
     toggleSortOption,  // Destructure the correct handler function
+    setSortDirection,
+    moveSortOption,
     // --- End FIX ---
     setConsultationType,
     toggleSpecialty,
+    toggleLocality,
     // setSortOption, // Remove old handler if not needed elsewhere
     clearFilters,
+    currentFilters,
+    applyFilterState,
   } = doctorFinderProps;
 
+  // Recent searches (recorded automatically) and named presets, persisted in localStorage
+  const {
+    recentSearches,
+    savedPresets,
+    removeRecentSearch,
+    clearRecentSearches,
+    savePreset,
+    deletePreset,
+  } = useSearchHistory(currentFilters);
+
+  // Where the results were scrolled to and which query they were showing, while visible
+  const listScrollYRef = useRef(0);
+  const listSearchRef = useRef('');
+
+  // Effect to keep track of the results' scroll position and URL while they are shown;
+  // a layout effect so the listener is gone before hiding the list clamps the scroll position
+  useLayoutEffect(() => {
+    if (isPageOpen) return;
+    const handleScroll = () => { listScrollYRef.current = window.scrollY; };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [isPageOpen]);
+  useLayoutEffect(() => {
+    if (!isPageOpen) listSearchRef.current = location.search;
+  }, [isPageOpen, location.search]);
+
+  // Effect to start each page (including a profile opened from the comparison) at the top
+  // and put the results back where they were
+  const previousPathnameRef = useRef(location.pathname);
+  useLayoutEffect(() => {
+    if (previousPathnameRef.current === location.pathname) return;
+    previousPathnameRef.current = location.pathname;
+    window.scrollTo(0, isPageOpen ? 0 : listScrollYRef.current);
+  }, [isPageOpen, location.pathname]);
+
+  /**
+   * Returns from a detail or comparison page to the results. When the page was opened from the list,
+   * going back through history restores the exact list URL; a deep-linked page has no
+   * list entry to go back to, so one is pushed instead.
+   */
+  const showResults = useCallback(() => {
+    if (!isPageOpen) return;
+    if ((location.state as { fromList?: boolean } | null)?.fromList) navigate(-1);
+    else navigate({ pathname: '/', search: listSearchRef.current });
+  }, [isPageOpen, location.state, navigate]);
+
+  // Searching from the navbar on a detail or comparison page brings the results back into view
+  const handleSearchChange = useCallback((term: string) => {
+    showResults();
+    setSearchTerm(term);
+  }, [showResults, setSearchTerm]);
+  const handleSearchSubmit = useCallback((term: string) => {
+    showResults();
+    updateSearchTermFromSuggestion(term);
+  }, [showResults, updateSearchTermFromSuggestion]);
+  const handleSuggestionSelect = useCallback((suggestion: SearchSuggestion) => {
+    showResults();
+    selectSuggestion(suggestion);
+  }, [showResults, selectSuggestion]);
+
+  // Stable handlers so the memoized FilterPanel doesn't re-render on every change
+  const applyRecentSearch = useCallback((search: RecentSearch) => {
+    showResults();
+    applyFilterState(search.filters);
+  }, [showResults, applyFilterState]);
+  const applyPreset = useCallback((preset: SavedSearchPreset) => applyFilterState(preset.filters), [applyFilterState]);
+  const saveCurrentFiltersAsPreset = useCallback((name: string) => savePreset(name, currentFilters), [savePreset, currentFilters]);
+  // Highlight the preset that exactly matches what is currently applied
+  const activePresetId = useMemo(() => {
+    const currentKey = getFilterStateKey(currentFilters);
+    return savedPresets.find(preset => getFilterStateKey(preset.filters) === currentKey)?.id ?? null;
+  }, [currentFilters, savedPresets]);
+
+  // The doctor whose booking dialog is open; kept here so the dialog survives the card
+  // being virtualized away or the route changing underneath it
+  const [bookingDoctor, setBookingDoctor] = useState<Doctor | null>(null);
+  const closeBooking = useCallback(() => setBookingDoctor(null), []);
+
   // Determine if the *initial* data fetch is happening
   const isInitialDataLoading = isLoading && allDoctors.length === 0;
 
+  // Effect to fetch a fresh list as soon as the connection comes back
+  const isOnline = useOnlineStatus();
+  const wasOnlineRef = useRef(isOnline);
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current) refresh();
+    wasOnlineRef.current = isOnline;
+  }, [isOnline, refresh]);
+
+  // Shortlist entries matched against the latest data (missing doctors are flagged once everything has loaded)
+  const [isShortlistOpen, setIsShortlistOpen] = useState(false);
+  const openShortlist = useCallback(() => setIsShortlistOpen(true), []);
+  const closeShortlist = useCallback(() => setIsShortlistOpen(false), []);
+  const shortlistItems = useMemo(
+    () => resolveShortlist(shortlistEntries, allDoctors, hasLoadedAllDoctors),
+    [shortlistEntries, allDoctors, hasLoadedAllDoctors]
+  );
+  const showShortlistInResults = useCallback(() => {
+    setIsShortlistOpen(false);
+    showResults();
+    setShortlistedOnly(true);
+  }, [showResults, setShortlistedOnly]);
+  // The drawer makes way for the booking dialog rather than stacking under it
+  const bookFromShortlist = useCallback((doctor: Doctor) => {
+    setIsShortlistOpen(false);
+    setBookingDoctor(doctor);
+  }, []);
+
+  // Doctors picked for comparison, as a set for the cards' "Compare" checkboxes
+  const comparedDoctorIds = useMemo(() => new Set(compareIds), [compareIds]);
+  const isCompareFull = compareIds.length >= MAX_COMPARED_DOCTORS;
+
+  /** Opens the comparison; like a profile, it is marked as opened from the list so "Back" returns to it */
+  const openComparison = useCallback(() => {
+    navigate({ pathname: '/compare', search: location.search }, { state: { fromList: true } });
+  }, [navigate, location.search]);
+
+  // The filters in words, for the share dialog, exports and the printable results
+  const filtersSummary = useMemo(() => describeFilterState(currentFilters), [currentFilters]);
+  /** Link that reproduces the current results (without comparison picks or the user's own position) */
+  const getShareUrl = useCallback(
+    () => buildShareUrl({ filters: currentFilters, referencePoint }, new URL('/', window.location.href).toString()),
+    [currentFilters, referencePoint]
+  );
+
+  // The share dialog; the link is fixed when it opens
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const openShare = useCallback(() => setShareUrl(getShareUrl()), [getShareUrl]);
+  const closeShare = useCallback(() => setShareUrl(null), []);
+
+  /** Downloads every matching doctor (not only the rendered ones) or opens the printable view */
+  const exportResults = useCallback((format: ExportFormat) => {
+    if (format === 'print') {
+      navigate({ pathname: '/print', search: location.search }, { state: { fromList: true } });
+      return;
+    }
+    const rows = toDoctorExportRows(filteredDoctors, {
+      distances,
+      nextAvailableSlots,
+      baseUrl: new URL('/', window.location.href).toString(),
+    });
+    if (format === 'csv') {
+      // The byte order mark makes spreadsheet apps read the file as UTF-8 (₹, non-Latin names)
+      downloadTextFile(getExportFileName('csv'), `\uFEFF${formatDoctorsCsv(rows)}`, 'text/csv;charset=utf-8');
+    } else {
+      const json = formatDoctorsJson(rows, { filters: filtersSummary, shareUrl: getShareUrl(), isComplete: hasLoadedAllDoctors });
+      downloadTextFile(getExportFileName('json'), json, 'application/json');
+    }
+  }, [navigate, location.search, filteredDoctors, distances, nextAvailableSlots, filtersSummary, getShareUrl, hasLoadedAllDoctors]);
+
+  const routeContext = useMemo((): DoctorFinderRouteContext => ({
+    cachedDoctors: allDoctors,
+    isListLoading: isLoading,
+    fetchDoctor: fetchDoctorById,
+    distances,
+    onBack: showResults,
+    onBook: setBookingDoctor,
+    compareIds,
+    nextAvailableSlots,
+    onRemoveFromCompare: toggleCompare,
+    onClearCompare: clearCompare,
+    filteredDoctors,
+    filtersSummary,
+    hasLoadedAllDoctors,
+  }), [allDoctors, isLoading, fetchDoctorById, distances, showResults, compareIds, nextAvailableSlots, toggleCompare, clearCompare, filteredDoctors, filtersSummary, hasLoadedAllDoctors]);
+
   return (
-    <div className="flex flex-col min-h-screen bg-gray-100">
+    <div className="flex flex-col min-h-screen bg-gray-100 print:bg-white">
       {/* Navbar is loaded eagerly */}
       <Navbar
         searchTerm={searchTerm}
-        onSearchChange={setSearchTerm} // Debounced update handled within Navbar now
-        onSearchSubmit={updateSearchTermFromSuggestion}
+        onSearchChange={handleSearchChange} // Debounced update handled within Navbar now
+        onSearchSubmit={handleSearchSubmit}
         suggestions={suggestions}
+        onSuggestionSelect={handleSuggestionSelect}
+        recentSearches={recentSearches}
+        onRecentSearchSelect={applyRecentSearch}
+        onRecentSearchRemove={removeRecentSearch}
+        onClearRecentSearches={clearRecentSearches}
+        shortlistCount={shortlistEntries.length}
+        onShortlistOpen={openShortlist}
       />
+      {!isOnline && <OfflineBanner />}
 
-      <div className="container mx-auto px-0 sm:px-4 lg:px-8 flex-grow py-6">
-        <main className="flex flex-col md:flex-row flex-grow bg-white rounded-lg shadow-lg overflow-hidden">
+      {/* Room is left at the bottom so the comparison tray doesn't cover the last card */}
+      <div className={`container mx-auto px-0 sm:px-4 lg:px-8 flex-grow py-6 print:p-0 ${compareIds.length > 0 && !isPageOpen ? 'pb-28' : ''}`}>
+        {/* --- Doctor detail / comparison / printable results routes --- */}
+        {isPageOpen && (
+          <main className="bg-white rounded-lg shadow-lg overflow-hidden print:shadow-none print:rounded-none">
+            <Suspense fallback={
+              <div className="flex items-center justify-center p-10">
+                  <Spinner className="w-12 h-12 text-blue-600" />
+              </div>
+            }>
+              <Outlet context={routeContext} />
+            </Suspense>
+          </main>
+        )}
+
+        {/* The results stay mounted (only hidden) while a detail or comparison page is open */}
+        <main className={`${isPageOpen ? 'hidden' : 'flex'} flex-col md:flex-row flex-grow bg-white rounded-lg shadow-lg overflow-hidden`}>
 
           {/* --- Suspense for FilterPanel --- */}
           <Suspense fallback={
@@ -80,15 +409,53 @@ function DoctorFinderLayout() {
               filters={{
                   consultationType: consultationType,
                   specialties: specialties,
+                  cities: cities,
+                  localities: localities,
+                  languages: languages,
+                  languageMatch: languageMatch,
+                  feeRange: feeRange,
+                  experienceRange: experienceRange,
+                  maxDistanceKm: maxDistanceKm,
+                  availableWithin: availableWithin,
+                  shortlistedOnly: shortlistedOnly,
                   sortOptions: sortOptions // Pass the array here
                 }}
               // --- End FIX ---
               onConsultationTypeChange={setConsultationType}
+              onAvailableWithinChange={setAvailableWithin}
+              onShortlistedOnlyChange={setShortlistedOnly}
               onSpecialtyChange={toggleSpecialty}
+              availablePlaces={availablePlaces}
+              onCityChange={toggleCity}
+              onLocalityChange={toggleLocality}
+              availableLanguages={availableLanguages}
+              facetCounts={facetCounts}
+              onLanguageChange={toggleLanguage}
+              onLanguageMatchChange={setLanguageMatch}
+              feeBounds={feeBounds}
+              experienceBounds={experienceBounds}
+              onFeeRangeChange={setFeeRange}
+              onExperienceRangeChange={setExperienceRange}
+              referencePoint={referencePoint}
+              isLocating={isLocating}
+              referencePointError={referencePointError}
+              referencePlaces={referencePlaces}
+              onLocateUser={locateUser}
+              onReferencePlaceSubmit={setReferencePlace}
+              onClearReferencePoint={clearReferencePoint}
+              onMaxDistanceChange={setMaxDistance}
               // --- FIX: Pass correct toggleSortOption handler ---
               onSortChange={toggleSortOption} // Pass the correct handler function
+              onSortDirectionChange={setSortDirection}
+              onSortMove={moveSortOption}
               // --- End FIX ---
               onClearFilters={clearFilters}
+              savedPresets={savedPresets}
+              activePresetId={activePresetId}
+              canSavePreset={!isFilterStateEmpty(currentFilters)}
+              onSavePreset={saveCurrentFiltersAsPreset}
+              onApplyPreset={applyPreset}
+              onDeletePreset={deletePreset}
             />
           </Suspense>
           {/* --- End Suspense for FilterPanel --- */}
@@ -102,9 +469,35 @@ function DoctorFinderLayout() {
           }>
             {/* Render DoctorList once its code is loaded */}
             <DoctorList
-              doctors={filteredDoctors}
+              doctors={visibleDoctors}
+              totalCount={filteredDoctors.length}
+              hasMore={hasMore}
+              isLoadingMore={isLoadingMore}
+              loadMoreError={loadMoreError}
+              onLoadMore={loadMore}
+              loadMode="infinite"
               isLoading={isInitialDataLoading} // Use the flag for initial API load state
               error={error}
+              onRetry={refresh}
+              dataQuality={dataQuality}
+              lastUpdatedAt={lastUpdatedAt}
+              isRefreshing={isRefreshing}
+              refreshError={refreshError}
+              onRefresh={refresh}
+              matchHighlights={matchHighlights}
+              distances={distances}
+              nextAvailableSlots={nextAvailableSlots}
+              mapDoctors={filteredDoctors}
+              referencePoint={referencePoint}
+              onRevealDoctor={revealDoctor}
+              onBookDoctor={setBookingDoctor}
+              comparedDoctorIds={comparedDoctorIds}
+              isCompareFull={isCompareFull}
+              onToggleCompare={toggleCompare}
+              shortlistedIds={shortlistedIds}
+              onToggleShortlist={toggleShortlist}
+              onShare={openShare}
+              onExport={exportResults}
             />
           </Suspense>
           {/* --- End Suspense for DoctorList --- */}
@@ -112,13 +505,113 @@ function DoctorFinderLayout() {
         </main>
       </div>
 
-      <footer className="text-center py-4 text-xs text-gray-500 mt-auto">
+      {/* --- Comparison tray (shown with the results while doctors are picked) --- */}
+      {compareIds.length > 0 && !isPageOpen && (
+        <Suspense fallback={null}>
+          <ComparisonTray
+              doctorIds={compareIds}
+              cachedDoctors={allDoctors}
+              onRemove={toggleCompare}
+              onClear={clearCompare}
+              onOpen={openComparison}
+          />
+        </Suspense>
+      )}
+
+      {/* --- Shortlist drawer (code loaded on first use) --- */}
+      {isShortlistOpen && (
+        <Suspense fallback={null}>
+          <ShortlistDrawer
+              items={shortlistItems}
+              onClose={closeShortlist}
+              onRemove={removeFromShortlist}
+              onClear={clearShortlist}
+              onShowInResults={showShortlistInResults}
+              onBook={bookFromShortlist}
+          />
+        </Suspense>
+      )}
+
+      {/* --- Share dialog (code loaded on first use) --- */}
+      {shareUrl && (
+        <Suspense fallback={null}>
+          <ShareDialog
+              shareUrl={shareUrl}
+              summary={filtersSummary}
+              omitsOwnLocation={referencePoint?.source === 'geolocation'}
+              onClose={closeShare}
+          />
+        </Suspense>
+      )}
+
+      {/* --- Booking dialog (code loaded on first use) --- */}
+      {bookingDoctor && (
+        <Suspense fallback={null}>
+          <BookingDialog key={bookingDoctor.id} doctor={bookingDoctor} onClose={closeBooking} />
+        </Suspense>
+      )}
+
+      <footer className="text-center py-4 text-xs text-gray-500 mt-auto print:hidden">
             Doctor Finder App © {new Date().getFullYear()}
        </footer>
     </div>
   );
 }
 
+/**
+ * Route element for `/doctors/:id`; the data it needs comes from the layout's outlet context.
+ */
+function DoctorDetailRoute() {
+  const { id = '' } = useParams();
+  const { cachedDoctors, isListLoading, fetchDoctor, distances, onBack, onBook } = useOutletContext<DoctorFinderRouteContext>();
+  return (
+    <DoctorDetailPage
+        doctorId={id}
+        cachedDoctors={cachedDoctors}
+        isListLoading={isListLoading}
+        fetchDoctor={fetchDoctor}
+        distances={distances}
+        onBack={onBack}
+        onBook={onBook}
+    />
+  );
+}
+
+/**
+ * Route element for `/compare`; the compared ids come from the `cmp` URL params
+ * (read into the layout's state), so the page can be shared as a link.
+ */
+function DoctorComparisonRoute() {
+  const { compareIds, onRemoveFromCompare, onClearCompare, ...context } = useOutletContext<DoctorFinderRouteContext>();
+  return (
+    <DoctorComparisonPage
+        doctorIds={compareIds}
+        onRemove={onRemoveFromCompare}
+        onClear={onClearCompare}
+        {...context}
+    />
+  );
+}
+
+/**
+ * Route element for `/print`: the current results in a print-friendly layout. Like the
+ * results, it follows the filters in the URL, so it can be opened from a link too.
+ */
+function PrintableResultsRoute() {
+  const { filteredDoctors, filtersSummary, isListLoading, hasLoadedAllDoctors, distances, nextAvailableSlots, onBack } = useOutletContext<DoctorFinderRouteContext>();
+  return (
+    <PrintableResultsPage
+        doctors={filteredDoctors}
+        summary={filtersSummary}
+        isListLoading={isListLoading}
+        isComplete={hasLoadedAllDoctors}
+        distances={distances}
+        nextAvailableSlots={nextAvailableSlots}
+        onBack={onBack}
+    />
+  );
+}
+
 /**
  * Root application component setting up the Router.
  */
@@ -126,8 +619,13 @@ function App() {
   return (
     <BrowserRouter>
       <Routes>
-        {/* The DoctorFinderLayout handles the main UI */}
-        <Route path="*" element={<DoctorFinderLayout />} />
+        {/* The DoctorFinderLayout handles the main UI and stays mounted across its child routes */}
+        <Route element={<DoctorFinderLayout />}>
+          <Route path="doctors/:id" element={<DoctorDetailRoute />} />
+          <Route path="compare" element={<DoctorComparisonRoute />} />
+          <Route path="print" element={<PrintableResultsRoute />} />
+          <Route path="*" element={null} />
+        </Route>
       </Routes>
     </BrowserRouter>
   );
@@ -0,0 +1,381 @@
+// src/components/BookingDialog.tsx
+
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { BookingService, Doctor, PatientDetails } from '../types';
+import { BookingStep, useBooking } from '../hooks/useBooking';
+import { MAX_REASON_LENGTH } from '../utils/bookingValidation';
+import { formatDayAndTime, formatDayLabel, formatTime, parseDateKey } from '../utils/dateTime';
+import { Spinner } from './Spinner';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faXmark, faVideo, faHospital, faCircleCheck, faArrowLeft } from '@fortawesome/free-solid-svg-icons';
+
+interface BookingDialogProps {
+  /** The doctor being booked */
+  doctor: Doctor;
+  /** Callback to close the dialog (also after a confirmed booking) */
+  onClose: () => void;
+  /** Optional booking service override (defaults to the API or the offline mock) */
+  bookingService?: BookingService;
+}
+
+// Steps shown in the progress indicator (the confirmation is the end state, not a step)
+const PROGRESS_STEPS: { step: BookingStep; label: string }[] = [
+  { step: 'mode', label: 'Type' },
+  { step: 'slot', label: 'Time' },
+  { step: 'details', label: 'Details' },
+  { step: 'review', label: 'Review' },
+];
+
+// Form fields of the details step
+const PATIENT_FIELDS: { field: keyof PatientDetails; label: string; type: string; autoComplete: string; placeholder?: string; required: boolean }[] = [
+  { field: 'name', label: 'Patient name', type: 'text', autoComplete: 'name', required: true },
+  { field: 'phone', label: 'Mobile number', type: 'tel', autoComplete: 'tel', placeholder: '98765 43210', required: true },
+  { field: 'email', label: 'Email (optional)', type: 'email', autoComplete: 'email', required: false },
+];
+
+/**
+ * Modal booking flow: consultation type (only the doctor's own modes), day and time slot,
+ * patient details with validation, then a review before the booking is confirmed.
+ * Rendered into document.body so it isn't affected by the list's layout.
+ */
+const BookingDialogComponent: React.FC<BookingDialogProps> = ({ doctor, onClose, bookingService }) => {
+  const booking = useBooking(doctor, bookingService);
+  const {
+    step,
+    availableModes,
+    mode,
+    dates,
+    date,
+    slots,
+    isLoadingSlots,
+    slotsError,
+    selectedSlot,
+    isSelectedSlotAvailable,
+    patient,
+    patientErrors,
+    isSubmitting,
+    submitError,
+  } = booking;
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Effect to move focus into the dialog and stop the page behind it from scrolling
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    panelRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      previousFocus?.focus?.();
+    };
+  }, []);
+
+  // Effect to close on Escape (except while the booking is being sent)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isSubmitting) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isSubmitting, onClose]);
+
+  // The mode step is skipped for single-mode doctors, so it is left out of the progress too
+  const progressSteps = availableModes.length > 1 ? PROGRESS_STEPS : PROGRESS_STEPS.filter(item => item.step !== 'mode');
+  const currentStepIndex = progressSteps.findIndex(item => item.step === step);
+  const canGoBack = step === 'details' || step === 'review' || (step === 'slot' && availableModes.length > 1);
+
+  const buttonPrimary = 'inline-flex items-center justify-center gap-2 px-5 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors duration-150';
+  const buttonSecondary = 'inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-50';
+
+  // --- Step Content ---
+  const renderStep = () => {
+    switch (step) {
+      case 'mode':
+        return (
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-3">How would you like to consult?</legend>
+            {availableModes.length === 0 ? (
+              <p className="text-sm text-gray-500">This doctor has not listed any consultation types yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {availableModes.map(option => (
+                  <button
+                      key={option}
+                      onClick={() => booking.selectMode(option)}
+                      className={`flex items-center gap-3 p-4 text-left border rounded-lg transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${mode === option ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300 hover:bg-blue-50/50'}`}
+                      data-testid={`booking-mode-${option === 'Video Consult' ? 'video' : 'clinic'}`}
+                  >
+                    <FontAwesomeIcon icon={option === 'Video Consult' ? faVideo : faHospital} className={`w-5 h-5 ${option === 'Video Consult' ? 'text-green-600' : 'text-blue-600'}`} />
+                    <span>
+                      <span className="block font-medium text-gray-800">{option}</span>
+                      <span className="block text-xs text-gray-500">
+                        {option === 'Video Consult' ? 'Consult online from home' : doctor.clinicName || 'Visit the clinic'}
+                      </span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </fieldset>
+        );
+
+      case 'slot':
+        return (
+          <div>
+            <p className="text-sm text-gray-600 mb-3">
+              <span className="font-medium text-gray-800">{mode}</span> · pick a day and time
+            </p>
+            {/* Day picker */}
+            <div role="group" aria-label="Day" className="flex gap-2 overflow-x-auto pb-2 mb-3 custom-scrollbar">
+              {dates.map(day => {
+                const dayDate = parseDateKey(day);
+                return (
+                  <button
+                      key={day}
+                      onClick={() => booking.selectDate(day)}
+                      aria-pressed={date === day}
+                      className={`flex-shrink-0 px-3 py-1.5 text-sm rounded-full border transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${date === day ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                      data-testid="booking-date"
+                  >
+                    {dayDate ? formatDayLabel(dayDate) : day}
+                  </button>
+                );
+              })}
+            </div>
+            {/* Slot grid */}
+            {isLoadingSlots ? (
+              <div role="status" className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+                <Spinner className="w-5 h-5 text-blue-600" />
+                Loading available times...
+              </div>
+            ) : slotsError ? (
+              <div role="alert" className="py-6 text-center text-sm text-red-700">
+                <p className="mb-3">{slotsError}</p>
+                <button onClick={booking.reloadSlots} className={buttonSecondary}>Try Again</button>
+              </div>
+            ) : slots.some(slot => slot.isAvailable) ? (
+              <div role="group" aria-label="Time" className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {slots.map(slot => (
+                  <button
+                      key={slot.start}
+                      onClick={() => booking.selectSlot(slot.start)}
+                      disabled={!slot.isAvailable}
+                      aria-pressed={selectedSlot === slot.start}
+                      className={`px-2 py-1.5 text-sm rounded-md border transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:text-gray-300 disabled:border-gray-100 disabled:line-through disabled:cursor-not-allowed ${selectedSlot === slot.start ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400 hover:bg-blue-50'}`}
+                      data-testid="booking-slot"
+                  >
+                    {formatTime(new Date(slot.start))}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="py-8 text-center text-sm text-gray-500">No times left on this day. Please pick another day.</p>
+            )}
+            {selectedSlot && !isSelectedSlotAvailable && !isLoadingSlots && (
+              <p className="mt-3 text-sm text-amber-700" role="alert">Your chosen time is no longer available. Please pick another.</p>
+            )}
+          </div>
+        );
+
+      case 'details':
+        return (
+          <form
+              id="booking-details-form"
+              noValidate
+              onSubmit={(event) => { event.preventDefault(); booking.submitDetails(); }}
+              className="space-y-4"
+          >
+            {PATIENT_FIELDS.map(({ field, label, type, autoComplete, placeholder, required }) => (
+              <div key={field}>
+                <label htmlFor={`booking-${field}`} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                    id={`booking-${field}`}
+                    type={type}
+                    value={patient[field]}
+                    onChange={(event) => booking.updatePatient(field, event.target.value)}
+                    autoComplete={autoComplete}
+                    placeholder={placeholder}
+                    required={required}
+                    aria-invalid={patientErrors[field] ? true : undefined}
+                    aria-describedby={patientErrors[field] ? `booking-${field}-error` : undefined}
+                    className={`w-full px-3 py-2 text-sm border rounded-md shadow-sm focus:outline-none focus:ring-2 ${patientErrors[field] ? 'border-red-400 focus:ring-red-300' : 'border-gray-300 focus:ring-blue-400 focus:border-blue-400'}`}
+                    data-testid={`booking-${field}`}
+                />
+                {patientErrors[field] && <p id={`booking-${field}-error`} className="mt-1 text-xs text-red-600">{patientErrors[field]}</p>}
+              </div>
+            ))}
+            <div>
+              <label htmlFor="booking-reason" className="block text-sm font-medium text-gray-700 mb-1">Reason for visit (optional)</label>
+              <textarea
+                  id="booking-reason"
+                  rows={3}
+                  value={patient.reason}
+                  onChange={(event) => booking.updatePatient('reason', event.target.value)}
+                  aria-invalid={patientErrors.reason ? true : undefined}
+                  aria-describedby="booking-reason-hint"
+                  className={`w-full px-3 py-2 text-sm border rounded-md shadow-sm focus:outline-none focus:ring-2 ${patientErrors.reason ? 'border-red-400 focus:ring-red-300' : 'border-gray-300 focus:ring-blue-400 focus:border-blue-400'}`}
+                  data-testid="booking-reason"
+              />
+              <p id="booking-reason-hint" className={`mt-1 text-xs ${patientErrors.reason ? 'text-red-600' : 'text-gray-400'}`}>
+                {patientErrors.reason ?? `${patient.reason.length}/${MAX_REASON_LENGTH}`}
+              </p>
+            </div>
+          </form>
+        );
+
+      case 'review':
+        return (
+          <div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm" data-testid="booking-summary">
+              <dt className="text-gray-500">Doctor</dt>
+              <dd className="text-gray-900 font-medium">{doctor.name}</dd>
+              <dt className="text-gray-500">Type</dt>
+              <dd className="text-gray-900">{mode}</dd>
+              <dt className="text-gray-500">When</dt>
+              <dd className="text-gray-900">{selectedSlot ? formatDayAndTime(new Date(selectedSlot)) : '—'}</dd>
+              {mode === 'In Clinic' && (doctor.clinicName || doctor.address?.addressLine1) && (
+                <>
+                  <dt className="text-gray-500">Where</dt>
+                  <dd className="text-gray-900">
+                    {[doctor.clinicName, doctor.address?.addressLine1, doctor.address?.locality, doctor.address?.city].filter(Boolean).join(', ')}
+                  </dd>
+                </>
+              )}
+              {doctor.parsedFees !== Infinity && (
+                <>
+                  <dt className="text-gray-500">Fee</dt>
+                  <dd className="text-gray-900">₹ {doctor.parsedFees}</dd>
+                </>
+              )}
+              <dt className="text-gray-500">Patient</dt>
+              <dd className="text-gray-900">
+                {patient.name.trim()}
+                <span className="block text-gray-600">{[patient.phone.trim(), patient.email.trim()].filter(Boolean).join(' · ')}</span>
+              </dd>
+              {patient.reason.trim() && (
+                <>
+                  <dt className="text-gray-500">Reason</dt>
+                  <dd className="text-gray-900 whitespace-pre-line">{patient.reason.trim()}</dd>
+                </>
+              )}
+            </dl>
+            {submitError && (
+              <p role="alert" className="mt-4 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2">{submitError}</p>
+            )}
+          </div>
+        );
+
+      case 'confirmed':
+        return (
+          <div className="text-center py-4" data-testid="booking-confirmation">
+            <FontAwesomeIcon icon={faCircleCheck} className="w-14 h-14 text-green-500 mb-3" />
+            <p className="text-xl font-semibold text-gray-800">Appointment confirmed</p>
+            <p className="mt-1 text-sm text-gray-600">
+              {booking.booking?.mode} with {doctor.name} · {booking.booking ? formatDayAndTime(new Date(booking.booking.slotStart)) : ''}
+            </p>
+            <p className="mt-4 inline-block px-4 py-2 text-sm bg-gray-100 rounded-md">
+              Booking reference: <span className="font-mono font-semibold text-gray-900" data-testid="booking-reference">{booking.booking?.reference}</span>
+            </p>
+          </div>
+        );
+    }
+  };
+
+  // --- Footer Actions ---
+  const renderPrimaryAction = () => {
+    switch (step) {
+      case 'slot':
+        return (
+          <button onClick={booking.continueToDetails} disabled={!isSelectedSlotAvailable} className={buttonPrimary} data-testid="booking-continue">
+            Continue
+          </button>
+        );
+      case 'details':
+        return (
+          <button type="submit" form="booking-details-form" className={buttonPrimary} data-testid="booking-continue">
+            Review
+          </button>
+        );
+      case 'review':
+        return (
+          <button onClick={booking.confirm} disabled={isSubmitting} className={buttonPrimary} data-testid="booking-confirm">
+            {isSubmitting && <Spinner className="w-4 h-4 text-white" />}
+            {isSubmitting ? 'Booking...' : 'Confirm Booking'}
+          </button>
+        );
+      case 'confirmed':
+        return <button onClick={onClose} className={buttonPrimary}>Done</button>;
+      default:
+        return null;
+    }
+  };
+
+  return createPortal(
+    <div
+        className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-gray-900/50 p-0 sm:p-4"
+        onMouseDown={(event) => { if (event.target === event.currentTarget && !isSubmitting) onClose(); }}
+    >
+      <div
+          ref={panelRef}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="booking-dialog-title"
+          tabIndex={-1}
+          className="w-full sm:max-w-lg max-h-[92vh] flex flex-col bg-white rounded-t-xl sm:rounded-xl shadow-2xl focus:outline-none"
+          data-testid="booking-dialog"
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 px-5 pt-5 pb-3 border-b border-gray-100">
+          <div>
+            <h2 id="booking-dialog-title" className="text-lg font-semibold text-gray-800">Book an appointment</h2>
+            <p className="text-sm text-gray-500">{doctor.name}</p>
+          </div>
+          <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="p-1.5 text-gray-400 rounded-md hover:text-gray-700 hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-50"
+              aria-label="Close booking"
+          >
+            <FontAwesomeIcon icon={faXmark} className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Progress */}
+        {step !== 'confirmed' && (
+          <ol className="flex gap-2 px-5 pt-3 text-xs" aria-label="Booking progress">
+            {progressSteps.map((item, index) => (
+              <li
+                  key={item.step}
+                  aria-current={index === currentStepIndex ? 'step' : undefined}
+                  className={`flex-1 pt-1.5 border-t-2 ${index <= currentStepIndex ? 'border-blue-600 text-blue-700 font-medium' : 'border-gray-200 text-gray-400'}`}
+              >
+                {item.label}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {/* Body */}
+        <div className="flex-grow overflow-y-auto px-5 py-4 custom-scrollbar">{renderStep()}</div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 px-5 py-3 border-t border-gray-100 bg-gray-50 rounded-b-xl">
+          {canGoBack ? (
+            <button onClick={booking.goBack} disabled={isSubmitting} className={buttonSecondary}>
+              <FontAwesomeIcon icon={faArrowLeft} className="w-3 h-3" />
+              Back
+            </button>
+          ) : <span />}
+          {renderPrimaryAction()}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+// Memoize the component for performance optimization
+export const BookingDialog = React.memo(BookingDialogComponent);
+// Set display name for better debugging
+BookingDialog.displayName = 'BookingDialog';
@@ -0,0 +1,87 @@
+// src/components/ComparisonTray.tsx
+
+import React, { useMemo } from 'react';
+import { Doctor } from '../types';
+import { MAX_COMPARED_DOCTORS } from '../utils/comparison';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faScaleBalanced, faXmark } from '@fortawesome/free-solid-svg-icons';
+
+interface ComparisonTrayProps {
+  /** Ids of the doctors picked for comparison, in the order they were picked */
+  doctorIds: string[];
+  /** Loaded doctors, used to show names for the ids */
+  cachedDoctors: Doctor[];
+  /** Callback to take a doctor out of the comparison */
+  onRemove: (doctorId: string) => void;
+  /** Callback to empty the comparison */
+  onClear: () => void;
+  /** Callback to open the comparison view */
+  onOpen: () => void;
+}
+
+/**
+ * Bar pinned to the bottom of the results while doctors are picked for comparison.
+ * Lists the picked doctors and opens the comparison once at least two are picked.
+ */
+const ComparisonTrayComponent: React.FC<ComparisonTrayProps> = ({ doctorIds, cachedDoctors, onRemove, onClear, onOpen }) => {
+  // Names for the picked ids; doctors from a shared link may not be loaded yet
+  const names = useMemo(() => {
+    const byId = new Map(cachedDoctors.map(doc => [doc.id, doc.name]));
+    return doctorIds.map(id => ({ id, name: byId.get(id) ?? `Doctor #${id}` }));
+  }, [doctorIds, cachedDoctors]);
+
+  if (doctorIds.length === 0) return null;
+  const canOpen = doctorIds.length >= 2;
+
+  return (
+    <aside
+        className="fixed bottom-0 inset-x-0 z-20 bg-white border-t border-gray-200 shadow-[0_-4px_12px_rgba(0,0,0,0.08)]"
+        aria-label="Doctors picked for comparison"
+        data-testid="comparison-tray"
+    >
+      <div className="container mx-auto px-4 lg:px-8 py-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold text-gray-700" aria-live="polite">
+          Compare ({doctorIds.length}/{MAX_COMPARED_DOCTORS})
+        </span>
+        <ul className="flex flex-wrap gap-2 flex-grow">
+          {names.map(({ id, name }) => (
+            <li key={id} className="flex items-center gap-1.5 text-sm bg-blue-50 text-blue-800 border border-blue-200 pl-3 pr-1.5 py-1 rounded-full" data-testid="comparison-tray-item">
+              <span className="truncate max-w-[160px]">{name}</span>
+              <button
+                  onClick={() => onRemove(id)}
+                  className="p-0.5 text-blue-500 hover:text-red-600 rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                  aria-label={`Remove ${name} from comparison`}
+              >
+                <FontAwesomeIcon icon={faXmark} className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-2 ml-auto">
+          <button
+              onClick={onClear}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-gray-900 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              data-testid="comparison-tray-clear"
+          >
+            Clear
+          </button>
+          <button
+              onClick={onOpen}
+              disabled={!canOpen}
+              title={canOpen ? undefined : 'Pick at least two doctors to compare'}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              data-testid="open-comparison"
+          >
+            <FontAwesomeIcon icon={faScaleBalanced} className="w-4 h-4" />
+            Compare
+          </button>
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+// Memoize the component for performance optimization
+export const ComparisonTray = React.memo(ComparisonTrayComponent);
+// Set display name for better debugging
+ComparisonTray.displayName = 'ComparisonTray';
@@ -0,0 +1,67 @@
+// src/components/DataFreshnessBar.tsx
+
+import React, { useEffect, useState } from 'react';
+import { formatTimeAgo } from '../utils/dateTime';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faArrowsRotate, faTriangleExclamation } from '@fortawesome/free-solid-svg-icons';
+
+interface DataFreshnessBarProps {
+  /** Epoch milliseconds of the load the shown list comes from */
+  lastUpdatedAt: number;
+  /** Whether a newer list is being fetched */
+  isRefreshing: boolean;
+  /** Why the last refresh failed, or null */
+  refreshError: string | null;
+  /** Callback to fetch the list again */
+  onRefresh: () => void;
+}
+
+// How often the "X min ago" label is recomputed
+const CLOCK_TICK_MS = 30 * 1000;
+
+/**
+ * One-line status above the results saying how old the shown list is, with a refresh
+ * action. When the latest refresh failed it says the list may be out of date.
+ */
+const DataFreshnessBarComponent: React.FC<DataFreshnessBarProps> = ({ lastUpdatedAt, isRefreshing, refreshError, onRefresh }) => {
+  const [now, setNow] = useState(() => new Date());
+
+  // Effect to keep the relative time current
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const updatedAt = new Date(lastUpdatedAt);
+  // The list may have been saved a moment "after" the last tick
+  const age = formatTimeAgo(updatedAt, updatedAt > now ? updatedAt : now);
+
+  return (
+    <div
+        role="status"
+        className={`flex flex-wrap items-center gap-x-3 gap-y-1 mb-4 text-sm ${refreshError ? 'text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-4 py-2' : 'text-gray-500'}`}
+        data-testid="data-freshness"
+    >
+      {refreshError && <FontAwesomeIcon icon={faTriangleExclamation} className="w-4 h-4 text-amber-500 flex-shrink-0" />}
+      <span title={updatedAt.toLocaleString('en-IN')}>
+        {refreshError
+          ? `Couldn't refresh the list (${refreshError}). Showing doctors as of ${age}.`
+          : `Updated ${age}`}
+      </span>
+      <button
+          onClick={onRefresh}
+          disabled={isRefreshing}
+          className="inline-flex items-center gap-1.5 font-medium text-blue-700 rounded hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:text-gray-400 disabled:no-underline disabled:cursor-wait"
+          data-testid="refresh-doctors"
+      >
+        <FontAwesomeIcon icon={faArrowsRotate} className={`w-3.5 h-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+        {isRefreshing ? 'Refreshing…' : refreshError ? 'Try again' : 'Refresh'}
+      </button>
+    </div>
+  );
+};
+
+// Memoize the component for performance optimization
+export const DataFreshnessBar = React.memo(DataFreshnessBarComponent);
+// Set display name for better debugging
+DataFreshnessBar.displayName = 'DataFreshnessBar';
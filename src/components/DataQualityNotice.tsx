@@ -0,0 +1,63 @@
+import React from 'react';
+import { DataQualityReport } from '../types';
+import { summarizeDataQuality } from '../utils/doctorValidator';
+
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTriangleExclamation } from '@fortawesome/free-solid-svg-icons';
+
+interface DataQualityNoticeProps {
+  /** Validation report from the last data load */
+  report: DataQualityReport | null;
+}
+
+// Avoid rendering hundreds of rows when a payload is badly broken
+const MAX_LISTED_WARNINGS = 20;
+
+/**
+ * Compact banner summarising data-quality issues found while loading doctors
+ * (e.g. "3 records skipped, 2 repaired"), with an expandable list of details.
+ * Renders nothing when the data was clean.
+ */
+const DataQualityNoticeComponent: React.FC<DataQualityNoticeProps> = ({ report }) => {
+  if (!report) return null;
+  const summary = summarizeDataQuality(report);
+  if (!summary) return null;
+
+  const listedWarnings = report.warnings.slice(0, MAX_LISTED_WARNINGS);
+
+  return (
+    <div
+        role="status"
+        className="mb-5 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 shadow-sm"
+        data-testid="data-quality-notice"
+    >
+      <details>
+        <summary className="flex items-center gap-2 cursor-pointer select-none">
+          <FontAwesomeIcon icon={faTriangleExclamation} className="w-4 h-4 text-amber-500 flex-shrink-0" />
+          <span>
+            Some doctor records had data issues: <span className="font-semibold">{summary}</span>
+            {' '}(of {report.totalRecords} received).
+          </span>
+        </summary>
+        <ul className="mt-2 ml-6 space-y-1 text-xs text-amber-900 list-disc">
+          {listedWarnings.map((warning, index) => (
+            <li key={`${warning.recordIndex}-${warning.field}-${index}`}>
+              <span className="font-medium">
+                Record #{warning.recordIndex + 1}{warning.recordId ? ` (id ${warning.recordId})` : ''}
+              </span>
+              {' '}&ndash; {warning.message}
+              {warning.action === 'skipped' && <span className="ml-1 font-semibold uppercase">[skipped]</span>}
+            </li>
+          ))}
+          {report.warnings.length > listedWarnings.length && (
+            <li className="italic">…and {report.warnings.length - listedWarnings.length} more (see console).</li>
+          )}
+        </ul>
+      </details>
+    </div>
+  );
+};
+
+export const DataQualityNotice = React.memo(DataQualityNoticeComponent);
+
+DataQualityNotice.displayName = 'DataQualityNotice';
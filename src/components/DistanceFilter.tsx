@@ -0,0 +1,150 @@
+// src/components/DistanceFilter.tsx
+
+import React, { useState } from 'react';
+import { ReferencePoint } from '../types';
+import { Spinner } from './Spinner';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faLocationCrosshairs, faXmark, faMapMarkerAlt } from '@fortawesome/free-solid-svg-icons';
+
+interface DistanceFilterProps {
+  /** Where distances are measured from, or null when not set */
+  referencePoint: ReferencePoint | null;
+  /** True while the browser is determining the user's position */
+  isLocating: boolean;
+  /** Why the last attempt to set a reference point failed */
+  error: string | null;
+  /** Known localities and cities, offered as suggestions for the place input */
+  places: string[];
+  /** Current maximum distance in km, or null for no limit */
+  maxDistanceKm: number | null;
+  /** Callback to use the browser's geolocation */
+  onLocate: () => void;
+  /** Callback to use a typed place; returns false when the place is unknown */
+  onPlaceSubmit: (place: string) => boolean;
+  /** Callback to forget the reference point */
+  onClear: () => void;
+  /** Callback to set or remove the maximum distance */
+  onMaxDistanceChange: (km: number | null) => void;
+}
+
+// Maximum-distance choices offered in the select, in km
+const DISTANCE_OPTIONS = [2, 5, 10, 25, 50];
+
+/**
+ * Lets the user choose a reference point (their position or a typed locality/city)
+ * and limit results to clinics within a distance of it.
+ */
+const DistanceFilterComponent: React.FC<DistanceFilterProps> = ({
+  referencePoint,
+  isLocating,
+  error,
+  places,
+  maxDistanceKm,
+  onLocate,
+  onPlaceSubmit,
+  onClear,
+  onMaxDistanceChange,
+}) => {
+  const [placeDraft, setPlaceDraft] = useState('');
+
+  /** Applies the typed place; the input is cleared only when it was recognised */
+  const handlePlaceSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!placeDraft.trim()) return;
+    if (onPlaceSubmit(placeDraft)) setPlaceDraft('');
+  };
+
+  const handleMaxDistanceChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    onMaxDistanceChange(event.target.value ? Number(event.target.value) : null);
+  };
+
+  // Keep an unusual value (e.g. from a shared URL) selectable
+  const distanceOptions = maxDistanceKm !== null && !DISTANCE_OPTIONS.includes(maxDistanceKm)
+    ? [...DISTANCE_OPTIONS, maxDistanceKm].sort((a, b) => a - b)
+    : DISTANCE_OPTIONS;
+
+  return (
+    <section aria-labelledby="filter-header-distance">
+      <h4 id="filter-header-distance" data-testid="filter-header-distance" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Distance</h4>
+
+      {referencePoint ? (
+        <div className="flex items-center gap-2 mb-3 px-3 py-2 text-sm bg-blue-50 border border-blue-200 rounded-lg" data-testid="reference-point">
+          <FontAwesomeIcon icon={referencePoint.source === 'geolocation' ? faLocationCrosshairs : faMapMarkerAlt} className="w-3.5 h-3.5 text-blue-600 flex-shrink-0" />
+          <span className="flex-grow min-w-0 truncate text-blue-900">
+            Near <span className="font-medium">{referencePoint.label}</span>
+          </span>
+          <button
+              onClick={onClear}
+              className="flex-shrink-0 p-1 text-blue-500 rounded hover:text-blue-800 hover:bg-blue-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              aria-label="Clear location"
+              data-testid="clear-reference-point"
+          >
+            <FontAwesomeIcon icon={faXmark} className="w-3 h-3" />
+          </button>
+        </div>
+      ) : (
+        <p className="mb-3 text-xs text-gray-500">Set a location to sort and filter by distance.</p>
+      )}
+
+      {/* Reference point inputs */}
+      <button
+          onClick={onLocate}
+          disabled={isLocating}
+          className="flex items-center justify-center gap-2 w-full mb-2 px-3 py-2 text-sm font-medium text-blue-700 bg-white border border-blue-300 rounded-lg shadow-sm hover:bg-blue-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-60 disabled:cursor-wait transition-colors duration-150"
+          data-testid="use-my-location"
+      >
+        {isLocating
+          ? <Spinner className="w-4 h-4 text-blue-600" />
+          : <FontAwesomeIcon icon={faLocationCrosshairs} className="w-3.5 h-3.5" />}
+        {isLocating ? 'Locating…' : 'Use my location'}
+      </button>
+      <form onSubmit={handlePlaceSubmit} className="flex gap-2 mb-2">
+        <input
+            type="text"
+            list="reference-place-options"
+            value={placeDraft}
+            onChange={(event) => setPlaceDraft(event.target.value)}
+            placeholder="or type a locality / city"
+            className="flex-grow min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
+            aria-label="Locality or city to measure distance from"
+            data-testid="reference-place-input"
+        />
+        <datalist id="reference-place-options">
+          {places.map(place => <option key={place} value={place} />)}
+        </datalist>
+        <button
+            type="submit"
+            disabled={!placeDraft.trim()}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-sm hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-1 focus-visible:ring-blue-500 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors duration-150"
+            data-testid="reference-place-submit"
+        >
+          Set
+        </button>
+      </form>
+      {error && <p className="mb-2 text-xs text-red-600" role="alert">{error}</p>}
+
+      {/* Maximum distance */}
+      <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+        <span>Within</span>
+        <select
+            value={maxDistanceKm ?? ''}
+            onChange={handleMaxDistanceChange}
+            disabled={!referencePoint && maxDistanceKm === null}
+            className="flex-grow px-2.5 py-1.5 text-sm border border-gray-300 rounded-lg shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 disabled:bg-gray-100 disabled:cursor-not-allowed"
+            data-testid="max-distance-select"
+        >
+          <option value="">Any distance</option>
+          {distanceOptions.map(km => <option key={km} value={km}>{km} km</option>)}
+        </select>
+      </label>
+      {maxDistanceKm !== null && !referencePoint && (
+        <p className="mt-2 text-xs text-amber-700">The distance limit applies once a location is set.</p>
+      )}
+    </section>
+  );
+};
+
+// Memoize the component for performance optimization
+export const DistanceFilter = React.memo(DistanceFilterComponent);
+// Set display name for better debugging
+DistanceFilter.displayName = 'DistanceFilter';
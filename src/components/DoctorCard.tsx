@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
-import { Doctor } from '../types'; // Ensure Doctor type includes clinicName and address with logoUrl
+import { Link } from 'react-router-dom';
+import { Doctor, NextAvailableSlot, SearchField, SearchHighlight } from '../types'; // Ensure Doctor type includes clinicName and address with logoUrl
 import { PlaceholderIcon } from './common/PlaceholderIcon';
+import { HighlightedText } from './common/HighlightedText';
+import { getHighlightRanges } from '../utils/doctorSearch';
+import { formatDistance } from '../utils/geo';
+import { formatDayAndTime } from '../utils/dateTime';
+import { MAX_COMPARED_DOCTORS } from '../utils/comparison';
 
 // --- Font Awesome Setup ---
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
@@ -12,7 +18,10 @@ import {
     faLanguage,
     faLocationDot,      // Used for Address Line 1
     faMapMarkerAlt,     // Used for Locality
+    faLocationArrow,    // Used for Distance
     faCity,             // Used for City
+    faClock,            // Used for Next Available
+    faHeart,            // Used for the Shortlist toggle
     faCalendarCheck     // Used for Button
 } from '@fortawesome/free-solid-svg-icons';
 // --- End Font Awesome Setup ---
@@ -21,6 +30,26 @@ import {
 interface DoctorCardProps {
   /** The doctor data object to display */
   doctor: Doctor;
+  /** Fragments matched by the current search, highlighted in the card fields */
+  highlights?: SearchHighlight[];
+  /** Distance in km from the user's reference point, when known */
+  distanceKm?: number;
+  /** Whether the card is the one selected on the map (drawn with an accent ring) */
+  isSelected?: boolean;
+  /** The doctor's earliest free slot, if one was found */
+  nextAvailable?: NextAvailableSlot;
+  /** Called when "Book Appointment" is pressed; the button is hidden without it */
+  onBook?: (doctor: Doctor) => void;
+  /** Whether the doctor is picked for side-by-side comparison */
+  isCompared?: boolean;
+  /** Whether the comparison is full, so no further doctor can be picked */
+  isCompareFull?: boolean;
+  /** Called when the "Compare" checkbox is toggled; the checkbox is hidden without it */
+  onToggleCompare?: (doctorId: string) => void;
+  /** Whether the doctor is on the user's shortlist */
+  isShortlisted?: boolean;
+  /** Called when the heart is pressed; the heart is hidden without it */
+  onToggleShortlist?: (doctor: Doctor) => void;
 }
 
 /**
@@ -28,12 +57,38 @@ interface DoctorCardProps {
  * Includes clinic name, logo, full address, and introduction without truncation.
  * Optimized for responsiveness.
  */
-const DoctorCardComponent: React.FC<DoctorCardProps> = ({ doctor }) => {
+const DoctorCardComponent: React.FC<DoctorCardProps> = ({
+  doctor,
+  highlights,
+  distanceKm,
+  isSelected = false,
+  nextAvailable,
+  onBook,
+  isCompared = false,
+  isCompareFull = false,
+  onToggleCompare,
+  isShortlisted = false,
+  onToggleShortlist,
+}) => {
   const [imageError, setImageError] = useState(false);
   const [logoError, setLogoError] = useState(false); // State for clinic logo error
 
-  // Format specialties and languages for display
-  const specialtiesText = doctor.specialityNames.join(', ') || 'N/A';
+  // Renders a field value with any search-matched fragments highlighted
+  const highlight = (field: SearchField, value: string) => (
+    <HighlightedText text={value} ranges={getHighlightRanges(highlights, field, value)} />
+  );
+  // Renders a list of values as comma-separated text, highlighting each value individually
+  const highlightList = (field: SearchField, values: string[] | undefined) =>
+    values && values.length > 0
+      ? values.map((value, index) => (
+          <React.Fragment key={value}>
+            {index > 0 && ', '}
+            {highlight(field, value)}
+          </React.Fragment>
+        ))
+      : 'N/A';
+
+  // Format languages for the tooltip (specialties/languages render via highlightList)
   const languagesText = doctor.languages?.join(', ') || 'N/A';
 
   // Determine if a valid photo URL exists and hasn't failed loading
@@ -53,16 +108,16 @@ const DoctorCardComponent: React.FC<DoctorCardProps> = ({ doctor }) => {
     setLogoError(true);
   };
 
-  // Placeholder function for booking action
+  // Opens the booking flow for this doctor
   const handleBookAppointment = () => {
-    console.log(`Booking appointment with ${doctor.name} (ID: ${doctor.id})`);
-    alert(`Booking functionality for ${doctor.name} is not implemented in this demo.`);
+    onBook?.(doctor);
   };
 
   return (
     <article
-      className="relative flex flex-col sm:flex-row items-start gap-4 p-4 bg-white border border-gray-200 rounded-lg shadow-sm hover:shadow-lg hover:border-blue-200 transition-all duration-300 ease-in-out group" // Moderate padding/gap, rounded-lg
+      className={`relative flex flex-col sm:flex-row items-start gap-4 p-4 bg-white border rounded-lg shadow-sm hover:shadow-lg transition-all duration-300 ease-in-out group ${isSelected ? 'border-rose-400 ring-2 ring-rose-300' : 'border-gray-200 hover:border-blue-200'}`} // Moderate padding/gap, rounded-lg
       data-testid="doctor-card"
+      data-selected={isSelected || undefined}
       aria-labelledby={`doctor-name-${doctor.id}`}
     >
       {/* Clinic Logo - Top Right Corner */}
@@ -104,12 +159,47 @@ const DoctorCardComponent: React.FC<DoctorCardProps> = ({ doctor }) => {
       <div className="flex-grow text-center sm:text-left w-full flex flex-col">
         {/* Top section: Name, Specialty */}
         <div className="mb-3">
-            <h3 id={`doctor-name-${doctor.id}`} data-testid="doctor-name" className="text-lg font-semibold text-gray-800 group-hover:text-blue-700 transition-colors duration-200 mb-0.5"> {/* Standard font size */}
-                {doctor.name}
+            <div className="flex items-center justify-center sm:justify-start gap-2 mb-0.5">
+            <h3 id={`doctor-name-${doctor.id}`} data-testid="doctor-name" className="text-lg font-semibold text-gray-800 group-hover:text-blue-700 transition-colors duration-200"> {/* Standard font size */}
+                {/* The name opens the full profile; the list marks the navigation so "Back" can return to it */}
+                <Link
+                    to={`/doctors/${encodeURIComponent(doctor.id)}`}
+                    state={{ fromList: true }}
+                    className="hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded-sm"
+                    data-testid="doctor-profile-link"
+                >
+                    {highlight('name', doctor.name)}
+                </Link>
             </h3>
+            {/* Shortlist toggle, next to the name so it never collides with the clinic logo */}
+            {onToggleShortlist && (
+                <button
+                    onClick={() => onToggleShortlist(doctor)}
+                    aria-pressed={isShortlisted}
+                    aria-label={isShortlisted ? `Remove ${doctor.name} from shortlist` : `Add ${doctor.name} to shortlist`}
+                    title={isShortlisted ? 'Remove from shortlist' : 'Add to shortlist'}
+                    className={`p-1 rounded-full transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-rose-400 ${isShortlisted ? 'text-rose-500 hover:text-rose-600' : 'text-gray-300 hover:text-rose-400'}`}
+                    data-testid="shortlist-toggle"
+                >
+                    <FontAwesomeIcon icon={faHeart} className="w-4 h-4" />
+                </button>
+            )}
+            </div>
             <p data-testid="doctor-specialty" className="text-blue-600 font-medium text-sm mb-3"> {/* Standard font size */}
-                {specialtiesText}
+                {highlightList('specialty', doctor.specialityNames)}
             </p>
+            {/* Next free slot (only for doctors who publish their hours) */}
+            {doctor.availability && (
+                <p data-testid="doctor-next-available" className={`flex items-center justify-center sm:justify-start text-sm ${nextAvailable ? 'text-green-700' : 'text-gray-500'}`}>
+                    <FontAwesomeIcon icon={faClock} className="w-3.5 h-3.5 mr-2 flex-shrink-0" />
+                    {nextAvailable ? (
+                        <span>
+                            <span className="font-medium">Next available:</span> {formatDayAndTime(new Date(nextAvailable.start))}
+                            {doctor.consultationModes.length > 1 && <span className="text-gray-500"> · {nextAvailable.mode}</span>}
+                        </span>
+                    ) : 'No free slots in the next 2 weeks'}
+                </p>
+            )}
         </div>
 
         {/* Middle section: Details List */}
@@ -135,7 +225,7 @@ const DoctorCardComponent: React.FC<DoctorCardProps> = ({ doctor }) => {
                  <li className="flex items-center justify-center sm:justify-start" title={`Clinic: ${doctor.clinicName}`}>
                     <FontAwesomeIcon icon={faHospital} className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
                     <span className="font-medium text-gray-500 mr-1.5">Clinic:</span>
-                    <span className="text-gray-800 truncate">{doctor.clinicName}</span>
+                    <span className="text-gray-800 truncate">{highlight('clinic', doctor.clinicName)}</span>
                 </li>
             )}
              {/* Address Line 1 */}
@@ -152,7 +242,15 @@ const DoctorCardComponent: React.FC<DoctorCardProps> = ({ doctor }) => {
                  <li className="flex items-center justify-center sm:justify-start" title={`Locality: ${doctor.address.locality}`}>
                     <FontAwesomeIcon icon={faMapMarkerAlt} className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
                     <span className="font-medium text-gray-500 mr-1.5">Locality:</span>
-                    <span className="text-gray-800 truncate">{doctor.address.locality}</span>
+                    <span className="text-gray-800 truncate">{highlight('locality', doctor.address.locality)}</span>
+                </li>
+             )}
+             {/* Distance from the reference point */}
+             {distanceKm !== undefined && (
+                 <li className="flex items-center justify-center sm:justify-start" title="Straight-line distance from your chosen location" data-testid="doctor-distance">
+                    <FontAwesomeIcon icon={faLocationArrow} className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
+                    <span className="font-medium text-gray-500 mr-1.5">Distance:</span>
+                    <span className="text-gray-800">{formatDistance(distanceKm)} away</span>
                 </li>
              )}
              {/* City */}
@@ -160,7 +258,7 @@ const DoctorCardComponent: React.FC<DoctorCardProps> = ({ doctor }) => {
                  <li className="flex items-center justify-center sm:justify-start" title={`City: ${doctor.address.city}`}>
                     <FontAwesomeIcon icon={faCity} className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
                     <span className="font-medium text-gray-500 mr-1.5">City:</span>
-                    <span className="text-gray-800 truncate">{doctor.address.city}</span>
+                    <span className="text-gray-800 truncate">{highlight('city', doctor.address.city)}</span>
                 </li>
              )}
             {/* Consultation Modes */}
@@ -179,7 +277,7 @@ const DoctorCardComponent: React.FC<DoctorCardProps> = ({ doctor }) => {
              <li className="flex items-center justify-center sm:justify-start" title={`Speaks: ${languagesText}`}>
                  <FontAwesomeIcon icon={faLanguage} className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
                  <span className="font-medium text-gray-500 mr-1.5">Languages:</span>
-                 <span className="text-gray-800 truncate">{languagesText}</span>
+                 <span className="text-gray-800 truncate">{highlightList('language', doctor.languages)}</span>
             </li>
         </ul>
 
@@ -193,18 +291,42 @@ const DoctorCardComponent: React.FC<DoctorCardProps> = ({ doctor }) => {
             </div>
         )}
 
-        {/* Bottom section: Action Button */}
+        {/* Bottom section: Compare checkbox & Action Button */}
         {/* Use mt-auto to push to bottom */}
-        <div className="flex justify-center sm:justify-end mt-auto pt-3 border-t border-gray-100">
+        {(onBook || onToggleCompare) && (
+        <div className="flex flex-wrap items-center justify-center sm:justify-between gap-3 mt-auto pt-3 border-t border-gray-100">
+            {onToggleCompare && (
+                <label
+                    className={`inline-flex items-center gap-2 text-sm select-none ${!isCompared && isCompareFull ? 'text-gray-400 cursor-not-allowed' : 'text-gray-700 cursor-pointer'}`}
+                    title={!isCompared && isCompareFull ? `Up to ${MAX_COMPARED_DOCTORS} doctors can be compared` : undefined}
+                >
+                    <input
+                        type="checkbox"
+                        checked={isCompared}
+                        // A full comparison still lets picked doctors be unticked
+                        disabled={!isCompared && isCompareFull}
+                        onChange={() => onToggleCompare(doctor.id)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:cursor-not-allowed"
+                        data-testid="compare-checkbox"
+                    />
+                    Compare
+                </label>
+            )}
+            {onBook && (
             <button
                 onClick={handleBookAppointment}
+                disabled={doctor.consultationModes.length === 0}
+                title={doctor.consultationModes.length === 0 ? 'This doctor has not listed any consultation types' : undefined}
+                data-testid="book-appointment"
                 // Enhanced button styling
-                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 active:bg-blue-800 transition-all duration-200 ease-in-out transform hover:scale-105 active:scale-100 hover:shadow-lg"
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 active:bg-blue-800 transition-all duration-200 ease-in-out transform hover:scale-105 active:scale-100 hover:shadow-lg disabled:bg-gray-300 disabled:cursor-not-allowed disabled:hover:scale-100 disabled:hover:shadow-sm"
             >
                 <FontAwesomeIcon icon={faCalendarCheck} className="w-4 h-4" />
                 Book Appointment
             </button>
+            )}
         </div>
+        )}
       </div>
     </article>
   );
@@ -0,0 +1,368 @@
+// src/components/DoctorComparisonPage.tsx
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Doctor, NextAvailableSlot } from '../types';
+import { useComparedDoctors } from '../hooks/useComparedDoctors';
+import { PlaceholderIcon } from './common/PlaceholderIcon';
+import { Spinner } from './Spinner';
+import { formatDistance } from '../utils/geo';
+import { formatDayAndTime } from '../utils/dateTime';
+import { getComparisonHighlights } from '../utils/comparison';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+    faArrowLeft,
+    faVideo,
+    faHospital,
+    faLink,
+    faCheck,
+    faXmark,
+    faCalendarCheck,
+} from '@fortawesome/free-solid-svg-icons';
+
+interface DoctorComparisonPageProps {
+  /** Ids from the `compare` URL params, in column order */
+  doctorIds: string[];
+  /** Doctors already loaded for the list */
+  cachedDoctors: Doctor[];
+  /** Whether the list is still being loaded */
+  isListLoading: boolean;
+  /** Loads a doctor that isn't in the list */
+  fetchDoctor: (doctorId: string, signal?: AbortSignal) => Promise<Doctor | null>;
+  /** Distance in km from the reference point per doctor id */
+  distances?: ReadonlyMap<string, number>;
+  /** Earliest free slot per doctor id */
+  nextAvailableSlots?: ReadonlyMap<string, NextAvailableSlot>;
+  /** Callback to return to the results */
+  onBack: () => void;
+  /** Callback to start booking an appointment with a doctor */
+  onBook?: (doctor: Doctor) => void;
+  /** Callback to take a doctor out of the comparison */
+  onRemove: (doctorId: string) => void;
+  /** Callback to empty the comparison */
+  onClear: () => void;
+}
+
+/** One row of the comparison table */
+interface ComparisonRow {
+  label: string;
+  testId: string;
+  render: (doctor: Doctor) => React.ReactNode;
+}
+
+// How long the "Link copied" confirmation stays visible
+const COPIED_FEEDBACK_MS = 2000;
+
+/** Small "best value" marker shown next to the lowest fee / most experience */
+const BestBadge: React.FC<{ label: string }> = ({ label }) => (
+  <span className="ml-2 inline-block text-[11px] font-semibold uppercase tracking-wide text-green-800 bg-green-100 px-1.5 py-0.5 rounded" data-testid="comparison-best">
+    {label}
+  </span>
+);
+
+/** Photo (or initials) at the top of a doctor's column */
+const ComparisonPhoto: React.FC<{ doctor: Doctor }> = ({ doctor }) => {
+  const [imageError, setImageError] = useState(false);
+  const hasValidPhoto = doctor.photo && doctor.photo !== 'null' && !imageError;
+  return hasValidPhoto ? (
+    <img
+        src={doctor.photo ?? undefined}
+        alt={`Dr. ${doctor.name}`}
+        className="w-16 h-16 rounded-lg object-cover border-2 border-gray-100 shadow-md"
+        onError={() => setImageError(true)}
+        loading="lazy"
+    />
+  ) : (
+    <PlaceholderIcon
+        initials={doctor.initials}
+        className="w-16 h-16 rounded-lg bg-gray-200 flex items-center justify-center text-gray-500 font-semibold text-lg flex-shrink-0 border-2 border-gray-300 shadow-sm"
+    />
+  );
+};
+
+/**
+ * Side-by-side comparison of up to four doctors, shown on its own shareable route
+ * (`/compare?v=2&cmp=<id>&cmp=<id>…`). Each doctor is a column; fees, experience,
+ * specialties, languages, consultation modes and clinic location line up in rows.
+ */
+const DoctorComparisonPageComponent: React.FC<DoctorComparisonPageProps> = ({
+  doctorIds,
+  cachedDoctors,
+  isListLoading,
+  fetchDoctor,
+  distances,
+  nextAvailableSlots,
+  onBack,
+  onBook,
+  onRemove,
+  onClear,
+}) => {
+  const { doctors, isLoading, error, notFoundIds, retry } = useComparedDoctors(doctorIds, { cachedDoctors, isListLoading, fetchDoctor });
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const highlights = useMemo(() => getComparisonHighlights(doctors), [doctors]);
+
+  // Effect to name the browser tab after the comparison
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = 'Compare doctors · Doctor Finder';
+    return () => { document.title = previousTitle; };
+  }, []);
+
+  // Effect to hide the "Link copied" confirmation again
+  useEffect(() => {
+    if (!isLinkCopied) return;
+    const timer = setTimeout(() => setIsLinkCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [isLinkCopied]);
+
+  /** Copies the page URL; falls back to the native share sheet where clipboard access is unavailable */
+  const handleCopyLink = async () => {
+    const url = window.location.href;
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+    } catch (e) {
+      console.warn('Could not copy the comparison link:', e);
+      if (navigator.share) await navigator.share({ title: 'Compare doctors', url }).catch(() => undefined);
+    }
+  };
+
+  // Rows that only make sense for some data (distance, availability) are left out when no column has it
+  const rows = useMemo((): ComparisonRow[] => {
+    const result: ComparisonRow[] = [
+      {
+        label: 'Consultation fee',
+        testId: 'comparison-fee',
+        render: doctor => doctor.parsedFees === Infinity ? <span className="text-gray-500 italic">Not available</span> : (
+          <>
+            <span className="font-medium text-gray-900">₹ {doctor.parsedFees}</span>
+            {doctor.parsedFees === highlights.lowestFee && <BestBadge label="Lowest" />}
+          </>
+        ),
+      },
+      {
+        label: 'Experience',
+        testId: 'comparison-experience',
+        render: doctor => (
+          <>
+            <span className="font-medium text-gray-900">{doctor.parsedExperience} years</span>
+            {doctor.parsedExperience === highlights.mostExperience && <BestBadge label="Most" />}
+          </>
+        ),
+      },
+      {
+        label: 'Specialties',
+        testId: 'comparison-specialties',
+        render: doctor => doctor.specialityNames.join(', ') || <span className="text-gray-500 italic">Not listed</span>,
+      },
+      {
+        label: 'Languages',
+        testId: 'comparison-languages',
+        render: doctor => doctor.languages?.join(', ') || <span className="text-gray-500 italic">Not listed</span>,
+      },
+      {
+        label: 'Consultation modes',
+        testId: 'comparison-modes',
+        render: doctor => doctor.consultationModes.length > 0 ? (
+          <ul className="flex flex-col gap-1">
+            {doctor.consultationModes.map(mode => (
+              <li key={mode} className="flex items-center gap-2">
+                <FontAwesomeIcon icon={mode === 'Video Consult' ? faVideo : faHospital} className={`w-3.5 h-3.5 ${mode === 'Video Consult' ? 'text-green-600' : 'text-blue-600'}`} />
+                {mode}
+              </li>
+            ))}
+          </ul>
+        ) : <span className="text-gray-500 italic">None listed</span>,
+      },
+      {
+        label: 'Clinic',
+        testId: 'comparison-clinic',
+        render: doctor => doctor.clinicName || doctor.address ? (
+          <div className="space-y-0.5">
+            <p className="font-medium text-gray-900">{doctor.clinicName || 'Clinic'}</p>
+            {doctor.address?.addressLine1 && <p>{doctor.address.addressLine1}</p>}
+            {(doctor.address?.locality || doctor.address?.city) && (
+              <p>{[doctor.address.locality, doctor.address.city].filter(Boolean).join(', ')}</p>
+            )}
+          </div>
+        ) : <span className="text-gray-500 italic">No clinic listed</span>,
+      },
+    ];
+    if (distances && doctors.some(doctor => distances.has(doctor.id))) {
+      result.push({
+        label: 'Distance',
+        testId: 'comparison-distance',
+        render: doctor => {
+          const distanceKm = distances.get(doctor.id);
+          return distanceKm !== undefined ? `${formatDistance(distanceKm)} away` : <span className="text-gray-500 italic">Unknown</span>;
+        },
+      });
+    }
+    if (doctors.some(doctor => doctor.availability)) {
+      result.push({
+        label: 'Next available',
+        testId: 'comparison-next-available',
+        render: doctor => {
+          const slot = nextAvailableSlots?.get(doctor.id);
+          if (slot) return `${formatDayAndTime(new Date(slot.start))} · ${slot.mode}`;
+          return <span className="text-gray-500 italic">{doctor.availability ? 'No free slots in the next 2 weeks' : 'Hours not published'}</span>;
+        },
+      });
+    }
+    return result;
+  }, [doctors, highlights, distances, nextAvailableSlots]);
+
+  const backButton = (
+    <button
+        onClick={onBack}
+        className="inline-flex items-center gap-2 text-sm font-medium text-blue-700 hover:text-blue-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+        data-testid="back-to-results"
+    >
+      <FontAwesomeIcon icon={faArrowLeft} className="w-3.5 h-3.5" />
+      Back to results
+    </button>
+  );
+
+  // --- Loading / Error / Empty States ---
+  if (doctors.length === 0) {
+    return (
+      <div className="p-5 md:p-8 lg:p-10">
+        <div className="mb-6">{backButton}</div>
+        {isLoading ? (
+          <div role="status" aria-live="polite" className="flex flex-col items-center justify-center min-h-[300px] text-gray-500">
+            <Spinner className="w-12 h-12 text-blue-600 mb-4" />
+            <p className="text-lg font-medium text-gray-700">Loading comparison...</p>
+          </div>
+        ) : error ? (
+          <div role="alert" className="flex flex-col items-center justify-center min-h-[300px] text-center text-red-700 bg-red-50 border-2 border-red-200 rounded-lg p-8">
+            <p className="text-xl font-semibold mb-2 text-red-800">Error Loading Doctors</p>
+            <p className="mb-4">{error}</p>
+            <button
+                onClick={retry}
+                className="px-5 py-2 bg-white text-red-700 font-medium border border-red-300 rounded-lg shadow-sm hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center min-h-[300px] text-center text-gray-500 border-2 border-dashed border-gray-300 rounded-lg bg-gray-100/80 p-8" data-testid="comparison-empty">
+            <p className="text-2xl font-semibold text-gray-700 mb-2">Nothing to Compare</p>
+            <p className="text-base text-gray-600">
+              {notFoundIds.length > 0
+                ? 'The doctors in this link could not be found. The link may be outdated.'
+                : 'Tick "Compare" on up to four doctors in the results to see them side by side.'}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <article className="p-5 md:p-8 lg:p-10" aria-labelledby="comparison-title" data-testid="doctor-comparison">
+      {/* --- Header --- */}
+      <header className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex flex-col gap-3">
+          {backButton}
+          <h1 id="comparison-title" className="text-2xl font-bold text-gray-800">Compare doctors</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+              onClick={handleCopyLink}
+              className="inline-flex justify-center items-center gap-2 px-3.5 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              data-testid="copy-comparison-link"
+          >
+            <FontAwesomeIcon icon={isLinkCopied ? faCheck : faLink} className={`w-3.5 h-3.5 ${isLinkCopied ? 'text-green-600' : ''}`} />
+            <span aria-live="polite">{isLinkCopied ? 'Link copied' : 'Copy link'}</span>
+          </button>
+          <button
+              onClick={onClear}
+              className="px-3.5 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              data-testid="clear-comparison"
+          >
+            Clear all
+          </button>
+        </div>
+      </header>
+
+      {/* Doctors that are still loading or could no longer be found are reported above the table */}
+      {(isLoading || error || notFoundIds.length > 0) && (
+        <p role="status" className="mb-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          {isLoading
+            ? 'Loading the remaining doctors...'
+            : error
+              ? <>Some doctors could not be loaded: {error} <button onClick={retry} className="ml-1 font-medium underline hover:no-underline">Try again</button></>
+              : `${notFoundIds.length} doctor${notFoundIds.length === 1 ? ' in this link was' : 's in this link were'} not found.`}
+        </p>
+      )}
+
+      {/* --- Comparison Table (scrolls sideways on narrow screens) --- */}
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="w-full min-w-[640px] text-sm text-left text-gray-700 table-fixed" data-testid="comparison-table">
+          <caption className="sr-only">Side-by-side comparison of the selected doctors</caption>
+          <thead className="bg-gray-50">
+            <tr>
+              <td className="w-40 p-4 border-b border-gray-200" />
+              {doctors.map(doctor => (
+                <th key={doctor.id} scope="col" className="p-4 align-top font-normal border-b border-l border-gray-200" data-testid="comparison-doctor">
+                  <div className="flex flex-col items-start gap-2">
+                    <div className="flex items-start justify-between w-full gap-2">
+                      <ComparisonPhoto doctor={doctor} />
+                      <button
+                          onClick={() => onRemove(doctor.id)}
+                          className="p-1 text-gray-400 hover:text-red-600 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                          aria-label={`Remove ${doctor.name} from comparison`}
+                          title="Remove from comparison"
+                          data-testid="remove-from-comparison"
+                      >
+                        <FontAwesomeIcon icon={faXmark} className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {/* Profiles opened from here return to the comparison on "Back" */}
+                    <Link
+                        to={`/doctors/${encodeURIComponent(doctor.id)}`}
+                        state={{ fromList: true }}
+                        className="text-base font-semibold text-gray-800 hover:text-blue-700 hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded-sm"
+                    >
+                      {doctor.name}
+                    </Link>
+                    {onBook && (
+                      <button
+                          onClick={() => onBook(doctor)}
+                          disabled={doctor.consultationModes.length === 0}
+                          className="inline-flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                          data-testid="book-appointment"
+                      >
+                        <FontAwesomeIcon icon={faCalendarCheck} className="w-3 h-3" />
+                        Book
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.testId} className="even:bg-gray-50/60">
+                <th scope="row" className="p-4 align-top text-xs font-semibold text-gray-500 uppercase tracking-wide border-t border-gray-100">
+                  {row.label}
+                </th>
+                {doctors.map(doctor => (
+                  <td key={doctor.id} className="p-4 align-top border-t border-l border-gray-100 break-words" data-testid={row.testId}>
+                    {row.render(doctor)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </article>
+  );
+};
+
+// Memoize the component for performance optimization
+export const DoctorComparisonPage = React.memo(DoctorComparisonPageComponent);
+// Set display name for better debugging
+DoctorComparisonPage.displayName = 'DoctorComparisonPage';
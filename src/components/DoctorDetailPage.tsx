@@ -0,0 +1,277 @@
+// src/components/DoctorDetailPage.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Doctor } from '../types';
+import { useDoctorDetail } from '../hooks/useDoctorDetail';
+import { PlaceholderIcon } from './common/PlaceholderIcon';
+import { Spinner } from './Spinner';
+import { formatDistance } from '../utils/geo';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+    faArrowLeft,
+    faBriefcase,
+    faIndianRupeeSign,
+    faVideo,
+    faHospital,
+    faLanguage,
+    faLocationDot,
+    faLocationArrow,
+    faLink,
+    faCheck,
+    faUpRightFromSquare,
+    faCalendarCheck,
+} from '@fortawesome/free-solid-svg-icons';
+
+interface DoctorDetailPageProps {
+  /** Id from the `/doctors/:id` route */
+  doctorId: string;
+  /** Doctors already loaded for the list */
+  cachedDoctors: Doctor[];
+  /** Whether the list is still being loaded */
+  isListLoading: boolean;
+  /** Loads a doctor that isn't in the list */
+  fetchDoctor: (doctorId: string, signal?: AbortSignal) => Promise<Doctor | null>;
+  /** Distance in km from the reference point per doctor id */
+  distances?: ReadonlyMap<string, number>;
+  /** Callback to return to the results */
+  onBack: () => void;
+  /** Callback to start booking an appointment with the doctor */
+  onBook?: (doctor: Doctor) => void;
+}
+
+// How long the "Link copied" confirmation stays visible
+const COPIED_FEEDBACK_MS = 2000;
+
+/** A labelled block of the profile */
+const ProfileSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="py-5 border-t border-gray-100">
+    <h2 className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">{title}</h2>
+    {children}
+  </section>
+);
+
+/**
+ * Full profile of one doctor, shown on its own deep-linkable route. The doctor comes
+ * from the loaded list when possible and is fetched individually otherwise.
+ */
+const DoctorDetailPageComponent: React.FC<DoctorDetailPageProps> = ({
+  doctorId,
+  cachedDoctors,
+  isListLoading,
+  fetchDoctor,
+  distances,
+  onBack,
+  onBook,
+}) => {
+  const { doctor, isLoading, error, notFound, retry } = useDoctorDetail(doctorId, { cachedDoctors, isListLoading, fetchDoctor });
+  const [imageError, setImageError] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  // Effect to name the browser tab (and shared link previews) after the doctor
+  useEffect(() => {
+    if (!doctor) return;
+    const previousTitle = document.title;
+    document.title = `${doctor.name} · Doctor Finder`;
+    return () => { document.title = previousTitle; };
+  }, [doctor]);
+
+  // Effect to hide the "Link copied" confirmation again
+  useEffect(() => {
+    if (!isLinkCopied) return;
+    const timer = setTimeout(() => setIsLinkCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [isLinkCopied]);
+
+  /** Copies the page URL; falls back to the native share sheet where clipboard access is unavailable */
+  const handleCopyLink = async () => {
+    const url = window.location.href;
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+    } catch (e) {
+      console.warn('Could not copy the profile link:', e);
+      if (navigator.share) await navigator.share({ title: doctor?.name, url }).catch(() => undefined);
+    }
+  };
+
+  const backButton = (
+    <button
+        onClick={onBack}
+        className="inline-flex items-center gap-2 mb-6 text-sm font-medium text-blue-700 hover:text-blue-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+        data-testid="back-to-results"
+    >
+      <FontAwesomeIcon icon={faArrowLeft} className="w-3.5 h-3.5" />
+      Back to results
+    </button>
+  );
+
+  // --- Loading / Error / Not Found States ---
+  if (!doctor) {
+    return (
+      <div className="p-5 md:p-8 lg:p-10">
+        {backButton}
+        {isLoading ? (
+          <div role="status" aria-live="polite" className="flex flex-col items-center justify-center min-h-[300px] text-gray-500">
+            <Spinner className="w-12 h-12 text-blue-600 mb-4" />
+            <p className="text-lg font-medium text-gray-700">Loading doctor profile...</p>
+          </div>
+        ) : error ? (
+          <div role="alert" className="flex flex-col items-center justify-center min-h-[300px] text-center text-red-700 bg-red-50 border-2 border-red-200 rounded-lg p-8">
+            <p className="text-xl font-semibold mb-2 text-red-800">Error Loading Doctor</p>
+            <p className="mb-4">{error}</p>
+            <button
+                onClick={retry}
+                className="px-5 py-2 bg-white text-red-700 font-medium border border-red-300 rounded-lg shadow-sm hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center min-h-[300px] text-center text-gray-500 border-2 border-dashed border-gray-300 rounded-lg bg-gray-100/80 p-8" data-testid="doctor-not-found">
+            <p className="text-2xl font-semibold text-gray-700 mb-2">Doctor Not Found</p>
+            <p className="text-base text-gray-600">
+              {notFound ? 'There is no doctor with this id. The link may be outdated.' : 'This doctor could not be loaded.'}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const hasValidPhoto = doctor.photo && doctor.photo !== 'null' && !imageError;
+  const distanceKm = distances?.get(doctor.id);
+  const coordinates = doctor.address?.coordinates;
+
+  return (
+    <article className="p-5 md:p-8 lg:p-10" aria-labelledby="doctor-detail-name" data-testid="doctor-detail">
+      {backButton}
+
+      {/* --- Header --- */}
+      <header className="flex flex-col sm:flex-row items-center sm:items-start gap-5 pb-5">
+        {hasValidPhoto ? (
+          <img
+              src={doctor.photo ?? undefined}
+              alt={`Dr. ${doctor.name}`}
+              className="w-28 h-28 rounded-lg object-cover border-2 border-gray-100 shadow-md"
+              onError={() => setImageError(true)}
+          />
+        ) : (
+          <PlaceholderIcon
+              initials={doctor.initials}
+              className="w-28 h-28 rounded-lg bg-gray-200 flex items-center justify-center text-gray-500 font-semibold text-3xl flex-shrink-0 border-2 border-gray-300 shadow-sm"
+          />
+        )}
+        <div className="flex-grow text-center sm:text-left">
+          <h1 id="doctor-detail-name" className="text-2xl font-bold text-gray-800" data-testid="doctor-detail-name">{doctor.name}</h1>
+          <p className="mt-1 text-blue-600 font-medium">{doctor.specialityNames.join(', ') || 'Specialty not listed'}</p>
+          <div className="flex flex-wrap justify-center sm:justify-start gap-x-5 gap-y-2 mt-3 text-sm text-gray-700">
+            <span className="flex items-center gap-2">
+              <FontAwesomeIcon icon={faBriefcase} className="w-4 h-4 text-gray-400" />
+              {doctor.parsedExperience} years experience
+            </span>
+            <span className="flex items-center gap-2">
+              <FontAwesomeIcon icon={faIndianRupeeSign} className="w-4 h-4 text-gray-400" />
+              {doctor.parsedFees === Infinity ? 'Fee not available' : `₹ ${doctor.parsedFees} consultation fee`}
+            </span>
+          </div>
+        </div>
+        <div className="flex-shrink-0 flex flex-col items-stretch gap-2">
+        {onBook && (
+          <button
+              onClick={() => onBook(doctor)}
+              disabled={doctor.consultationModes.length === 0}
+              className="inline-flex items-center justify-center gap-2 px-3.5 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-sm hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              data-testid="book-appointment"
+          >
+            <FontAwesomeIcon icon={faCalendarCheck} className="w-3.5 h-3.5" />
+            Book Appointment
+          </button>
+        )}
+        <button
+            onClick={handleCopyLink}
+            className="inline-flex justify-center items-center gap-2 px-3.5 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+            data-testid="copy-profile-link"
+        >
+          <FontAwesomeIcon icon={isLinkCopied ? faCheck : faLink} className={`w-3.5 h-3.5 ${isLinkCopied ? 'text-green-600' : ''}`} />
+          <span aria-live="polite">{isLinkCopied ? 'Link copied' : 'Copy link'}</span>
+        </button>
+        </div>
+      </header>
+
+      {/* --- About --- */}
+      <ProfileSection title="About">
+        <p className="text-sm text-gray-700 leading-relaxed">{doctor.introduction || 'No introduction provided.'}</p>
+      </ProfileSection>
+
+      {/* --- Consultation --- */}
+      <ProfileSection title="Consultation">
+        <ul className="flex flex-wrap gap-2" data-testid="doctor-detail-modes">
+          {doctor.consultationModes.length > 0 ? doctor.consultationModes.map(mode => (
+            <li key={mode} className="flex items-center gap-2 text-sm bg-gray-100 px-3 py-1 rounded-full border border-gray-200">
+              <FontAwesomeIcon icon={mode === 'Video Consult' ? faVideo : faHospital} className={`w-3.5 h-3.5 ${mode === 'Video Consult' ? 'text-green-600' : 'text-blue-600'}`} />
+              {mode}
+            </li>
+          )) : <li className="text-sm text-gray-500 italic">No consultation modes listed</li>}
+        </ul>
+        <p className="mt-3 text-sm text-gray-700">
+          Fee: <span className="font-medium text-gray-900">{doctor.parsedFees === Infinity ? 'Not available' : `₹ ${doctor.parsedFees}`}</span>
+        </p>
+      </ProfileSection>
+
+      {/* --- Languages --- */}
+      <ProfileSection title="Languages">
+        <p className="flex items-center gap-2 text-sm text-gray-700">
+          <FontAwesomeIcon icon={faLanguage} className="w-4 h-4 text-gray-400" />
+          {doctor.languages && doctor.languages.length > 0 ? doctor.languages.join(', ') : 'Not listed'}
+        </p>
+      </ProfileSection>
+
+      {/* --- Clinics --- */}
+      <ProfileSection title="Clinics">
+        {doctor.clinicName || doctor.address ? (
+          <ul className="space-y-3" data-testid="doctor-detail-clinics">
+            <li className="flex items-start gap-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+              {doctor.address?.logoUrl && (
+                <img src={doctor.address.logoUrl} alt="" className="h-12 w-auto max-w-[96px] object-contain bg-white p-1 rounded-md border border-gray-200" />
+              )}
+              <div className="flex-grow text-sm text-gray-700 space-y-1">
+                <p className="font-semibold text-gray-900">{doctor.clinicName || 'Clinic'}</p>
+                {doctor.address?.addressLine1 && <p>{doctor.address.addressLine1}</p>}
+                {(doctor.address?.locality || doctor.address?.city) && (
+                  <p className="flex items-center gap-2">
+                    <FontAwesomeIcon icon={faLocationDot} className="w-3.5 h-3.5 text-gray-400" />
+                    {[doctor.address.locality, doctor.address.city].filter(Boolean).join(', ')}
+                  </p>
+                )}
+                {distanceKm !== undefined && (
+                  <p className="flex items-center gap-2">
+                    <FontAwesomeIcon icon={faLocationArrow} className="w-3.5 h-3.5 text-gray-400" />
+                    {formatDistance(distanceKm)} away
+                  </p>
+                )}
+                {coordinates && (
+                  <a
+                      href={`https://www.openstreetmap.org/?mlat=${coordinates.lat}&mlon=${coordinates.lng}#map=17/${coordinates.lat}/${coordinates.lng}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1.5 text-blue-700 hover:text-blue-900 hover:underline"
+                  >
+                    Open in map
+                    <FontAwesomeIcon icon={faUpRightFromSquare} className="w-3 h-3" />
+                  </a>
+                )}
+              </div>
+            </li>
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No clinic listed</p>
+        )}
+      </ProfileSection>
+    </article>
+  );
+};
+
+// Memoize the component for performance optimization
+export const DoctorDetailPage = React.memo(DoctorDetailPageComponent);
+// Set display name for better debugging
+DoctorDetailPage.displayName = 'DoctorDetailPage';
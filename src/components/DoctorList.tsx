@@ -1,7 +1,13 @@
-import React from 'react'; // Import React for React.memo
-import { Doctor } from '../types';
+import React, { useCallback, useEffect, useRef, useState } from 'react'; // Import React for React.memo
+import { DataQualityReport, Doctor, ExportFormat, NextAvailableSlot, ReferencePoint, SearchHighlight } from '../types';
 import { DoctorCard } from './DoctorCard'; // Assuming DoctorCard is also memoized or simple enough
 import { Spinner } from './Spinner';
+import { DataQualityNotice } from './DataQualityNotice';
+import { DataFreshnessBar } from './DataFreshnessBar';
+import { DoctorMap } from './DoctorMap';
+import { useWindowVirtualizer } from '../hooks/useWindowVirtualizer';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faArrowsRotate, faFileCode, faFileCsv, faList, faMapLocationDot, faPrint, faShareNodes } from '@fortawesome/free-solid-svg-icons';
 
 interface DoctorListProps {
   /** Array of doctor objects to display */
@@ -10,13 +16,206 @@ interface DoctorListProps {
   isLoading: boolean;
   /** String containing an error message, or null if no error */
   error: string | null;
+  /** Callback to load the doctors again after an error (shows a "Retry" button) */
+  onRetry?: () => void;
+  /** Search-matched fragments per doctor id, passed to each DoctorCard for highlighting */
+  matchHighlights?: ReadonlyMap<string, SearchHighlight[]>;
+  /** Distance in km from the reference point per doctor id, shown on each DoctorCard */
+  distances?: ReadonlyMap<string, number>;
+  /** Data-quality report from the last load; issues are summarised above the list */
+  dataQuality?: DataQualityReport | null;
+  /** Epoch milliseconds of the load the list comes from; shown with a refresh action when set */
+  lastUpdatedAt?: number | null;
+  /** Whether a newer list is being fetched in the background */
+  isRefreshing?: boolean;
+  /** Why the last background refresh failed (the list shown may be out of date) */
+  refreshError?: string | null;
+  /** Callback to fetch the list again */
+  onRefresh?: () => void;
+  /** Total number of doctors matching the filters (may exceed `doctors.length`) */
+  totalCount?: number;
+  /** Whether more doctors can be revealed or fetched */
+  hasMore?: boolean;
+  /** Whether the next page is currently being fetched */
+  isLoadingMore?: boolean;
+  /** Error from the last failed "load more" attempt */
+  loadMoreError?: string | null;
+  /** Callback to reveal/fetch the next page */
+  onLoadMore?: () => void;
+  /**
+   * How further pages are requested: automatically when the end of the list scrolls
+   * into view ('infinite'), or only via the "Load more" button ('button').
+   */
+  loadMode?: 'infinite' | 'button';
+  /** Every doctor matching the filters, plotted in the map view (defaults to `doctors`) */
+  mapDoctors?: Doctor[];
+  /** Where distances are measured from, shown on the map */
+  referencePoint?: ReferencePoint | null;
+  /** Callback to make sure a doctor picked on the map is among the rendered `doctors` */
+  onRevealDoctor?: (doctorId: string) => void;
+  /** Earliest free slot per doctor id, shown on each DoctorCard */
+  nextAvailableSlots?: ReadonlyMap<string, NextAvailableSlot>;
+  /** Callback to start booking an appointment with a doctor (enables each card's booking button) */
+  onBookDoctor?: (doctor: Doctor) => void;
+  /** Ids of the doctors picked for comparison */
+  comparedDoctorIds?: ReadonlySet<string>;
+  /** Whether the comparison is full (unpicked cards can't be added) */
+  isCompareFull?: boolean;
+  /** Callback to pick/unpick a doctor for comparison (enables each card's "Compare" checkbox) */
+  onToggleCompare?: (doctorId: string) => void;
+  /** Ids of the shortlisted doctors */
+  shortlistedIds?: ReadonlySet<string>;
+  /** Callback to add/remove a doctor from the shortlist (enables each card's heart) */
+  onToggleShortlist?: (doctor: Doctor) => void;
+  /** Callback to share the current results (shows a "Share" button) */
+  onShare?: () => void;
+  /** Callback to export every matching doctor (shows the export buttons) */
+  onExport?: (format: ExportFormat) => void;
 }
 
+/** 'list' shows the cards only; 'map' adds the clinic map above them */
+type ResultsView = 'list' | 'map';
+
+// Start fetching the next page slightly before the sentinel is actually visible
+const INFINITE_SCROLL_ROOT_MARGIN = '400px';
+// Short lists are rendered in full; windowing only kicks in above this many cards
+const VIRTUALIZATION_THRESHOLD = 50;
+// Typical DoctorCard height (including the gap below it) before it has been measured
+const ESTIMATED_CARD_HEIGHT = 420;
+// Export buttons, in display order
+const EXPORT_OPTIONS = [
+  ['csv', 'CSV', faFileCsv, 'Download as CSV (spreadsheet)'],
+  ['json', 'JSON', faFileCode, 'Download as JSON'],
+  ['print', 'Print', faPrint, 'Printable view (or save as PDF)'],
+] as const;
+
 /**
  * Internal component logic for rendering the list of DoctorCard components
  * or status messages (loading, error, empty).
  */
-const DoctorListComponent: React.FC<DoctorListProps> = ({ doctors, isLoading, error }) => {
+const DoctorListComponent: React.FC<DoctorListProps> = ({
+  doctors,
+  isLoading,
+  error,
+  onRetry,
+  dataQuality = null,
+  lastUpdatedAt = null,
+  isRefreshing = false,
+  refreshError = null,
+  onRefresh,
+  matchHighlights,
+  distances,
+  totalCount = doctors.length,
+  hasMore = false,
+  isLoadingMore = false,
+  loadMoreError = null,
+  onLoadMore,
+  loadMode = 'infinite',
+  mapDoctors = doctors,
+  referencePoint = null,
+  onRevealDoctor,
+  nextAvailableSlots,
+  onBookDoctor,
+  comparedDoctorIds,
+  isCompareFull = false,
+  onToggleCompare,
+  shortlistedIds,
+  onToggleShortlist,
+  onShare,
+  onExport,
+}) => {
+  // Sentinel element at the end of the list, observed in 'infinite' mode
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Map panel; its height is kept clear when scrolling to a card while it is sticky
+  const mapPanelRef = useRef<HTMLDivElement>(null);
+
+  const [view, setView] = useState<ResultsView>('list');
+  // Doctor selected on the map or by clicking a card while the map is shown
+  const [selectedDoctorId, setSelectedDoctorId] = useState<string | null>(null);
+  // Doctor picked on the map whose card still has to be scrolled to (it may need revealing first)
+  const [pendingScrollId, setPendingScrollId] = useState<string | null>(null);
+
+  // Windowed rendering: only cards near the viewport are mounted for large result sets
+  const getDoctorKey = useCallback((index: number) => doctors[index].id, [doctors]);
+  const {
+    containerRef,
+    virtualItems,
+    paddingTop,
+    paddingBottom,
+    measureElement,
+    scrollToIndex,
+  } = useWindowVirtualizer({
+    count: doctors.length,
+    getKey: getDoctorKey,
+    estimateSize: ESTIMATED_CARD_HEIGHT,
+    enabled: doctors.length > VIRTUALIZATION_THRESHOLD,
+  });
+
+  // Effect to trigger onLoadMore when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    // Pause auto-loading after a failure so the user can retry explicitly
+    if (loadMode !== 'infinite' || !sentinel || !hasMore || !onLoadMore || loadMoreError) return;
+    if (typeof IntersectionObserver === 'undefined') return; // Button fallback remains available
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: INFINITE_SCROLL_ROOT_MARGIN }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMode, hasMore, onLoadMore, loadMoreError, doctors.length]);
+
+  /** Selects a doctor picked on the map and brings their card into view */
+  const handleMapSelect = useCallback((doctorId: string) => {
+    setSelectedDoctorId(doctorId);
+    setPendingScrollId(doctorId);
+    onRevealDoctor?.(doctorId);
+  }, [onRevealDoctor]);
+
+  // Effect to scroll to the picked card once it is part of the rendered list
+  useEffect(() => {
+    if (!pendingScrollId) return;
+    const index = doctors.findIndex(doc => doc.id === pendingScrollId);
+    if (index < 0) return; // Not revealed yet; runs again when `doctors` grows
+    const mapPanel = mapPanelRef.current;
+    const isMapSticky = mapPanel !== null && getComputedStyle(mapPanel).position === 'sticky';
+    scrollToIndex(index, { offset: isMapSticky ? mapPanel.offsetHeight : 0 });
+    setPendingScrollId(null);
+  }, [pendingScrollId, doctors, scrollToIndex]);
+
+  // Function to render the "load more" error, spinner, button and infinite-scroll sentinel,
+  // below the list or in the empty state while a paged source has more doctors
+  const renderLoadMoreControls = () => (
+    <>
+      {loadMoreError && (
+        <p role="alert" className="text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-1.5">
+          Could not load more doctors: {loadMoreError}
+        </p>
+      )}
+      {isLoadingMore && (
+        <div role="status" className="flex items-center gap-2 text-gray-500">
+          <Spinner className="w-5 h-5 text-blue-600" />
+          Loading more doctors...
+        </div>
+      )}
+      {/* The button is always offered in 'button' mode, and in 'infinite' mode as a retry after a failure */}
+      {hasMore && onLoadMore && !isLoadingMore && (loadMode === 'button' || loadMoreError) && (
+        <button
+            onClick={onLoadMore}
+            className="px-5 py-2 bg-white text-blue-700 font-medium border border-blue-300 rounded-lg shadow-sm hover:bg-blue-50 hover:border-blue-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-150 ease-in-out"
+            data-testid="load-more-button"
+        >
+          {loadMoreError ? 'Try Again' : 'Load More'}
+        </button>
+      )}
+      {loadMode === 'infinite' && hasMore && <div ref={sentinelRef} aria-hidden="true" className="h-px w-full" />}
+    </>
+  );
 
   // Function to render the main content based on state
   const renderContent = () => {
@@ -48,7 +247,30 @@ const DoctorListComponent: React.FC<DoctorListProps> = ({ doctors, isLoading, er
            </svg>
           <p className="text-xl font-semibold mb-2 text-red-800">Error Loading Doctors</p>
           <p className="text-base mb-4 text-red-700">{error}</p> {/* Slightly larger error text */}
-          <p className="text-sm text-gray-600">Please try refreshing the page or check the API endpoint.</p>
+          {onRetry ? (
+            <button
+                onClick={onRetry}
+                className="inline-flex items-center gap-2 px-5 py-2 bg-white text-red-700 font-medium border border-red-300 rounded-lg shadow-sm hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-all duration-150 ease-in-out"
+                data-testid="retry-load-button"
+            >
+              <FontAwesomeIcon icon={faArrowsRotate} className="w-4 h-4" />
+              Retry
+            </button>
+          ) : (
+            <p className="text-sm text-gray-600">Please try refreshing the page or check the API endpoint.</p>
+          )}
+        </div>
+      );
+    }
+
+    // --- Empty State, more doctors still to load ---
+    // Search and filters only see the pages loaded so far, so an empty result isn't final yet
+    if (doctors.length === 0 && hasMore) {
+      return (
+        <div className="flex flex-col items-center justify-center gap-3 min-h-[400px] text-gray-500 p-8 text-center border-2 border-dashed border-gray-300 rounded-lg bg-gray-100/80 text-sm">
+          <p className="text-2xl font-semibold text-gray-700">No Matches Yet</p>
+          <p className="text-base text-gray-600">None of the doctors loaded so far match your current search and filters.</p>
+          {renderLoadMoreControls()}
         </div>
       );
     }
@@ -71,24 +293,118 @@ const DoctorListComponent: React.FC<DoctorListProps> = ({ doctors, isLoading, er
     // --- Success State (Doctors list) ---
     return (
       <div>
-        {/* Screen-reader only heading announcing results is good practice,
-            but the count is now visually displayed in FilterPanel.
-            Keeping aria-live is important for announcing updates. */}
         <h2 className="sr-only">
-            List of available doctors matching filters ({doctors.length} found)
+            List of available doctors matching filters ({totalCount} found)
         </h2>
-        {/* Use aria-live to announce changes when filters update the list */}
-        {/* Increased spacing between cards */}
-        <div aria-live="polite" className="space-y-5 md:space-y-6">
-            {doctors.map((doctor) => (
-              // Assuming DoctorCard is also memoized for best results
-              <DoctorCard key={doctor.id} doctor={doctor} />
+        {/* --- Share / Export actions and List / Map Switch --- */}
+        <div className="flex flex-wrap items-center justify-end gap-3 mb-4">
+          {onShare && (
+            <button
+                onClick={onShare}
+                className="flex items-center gap-2 px-3.5 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                data-testid="share-results"
+            >
+              <FontAwesomeIcon icon={faShareNodes} className="w-3.5 h-3.5" />
+              Share
+            </button>
+          )}
+          {onExport && (
+            <div role="group" aria-label="Export results" className="inline-flex rounded-lg border border-gray-300 bg-white shadow-sm overflow-hidden divide-x divide-gray-300">
+              {EXPORT_OPTIONS.map(([format, label, icon, title]) => (
+                <button
+                    key={format}
+                    onClick={() => onExport(format)}
+                    title={title}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500"
+                    data-testid={`export-${format}`}
+                >
+                  <FontAwesomeIcon icon={icon} className="w-3.5 h-3.5" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          <div role="group" aria-label="Results view" className="inline-flex rounded-lg border border-gray-300 bg-white shadow-sm overflow-hidden">
+            {([['list', 'List', faList], ['map', 'Map', faMapLocationDot]] as const).map(([value, label, icon]) => (
+              <button
+                  key={value}
+                  onClick={() => setView(value)}
+                  aria-pressed={view === value}
+                  className={`flex items-center gap-2 px-3.5 py-1.5 text-sm font-medium transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 ${view === value ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                  data-testid={`view-${value}`}
+              >
+                <FontAwesomeIcon icon={icon} className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {/* The map sticks below the navbar on tall screens so it stays usable while scrolling the cards */}
+        {view === 'map' && (
+          <div ref={mapPanelRef} className="z-20 mb-5 md:mb-6 pb-1 lg:[@media(min-height:56rem)]:sticky lg:top-[var(--navbar-height,80px)] bg-gray-50">
+            <DoctorMap
+                doctors={mapDoctors}
+                selectedDoctorId={selectedDoctorId}
+                referencePoint={referencePoint}
+                onSelectDoctor={handleMapSelect}
+            />
+          </div>
+        )}
+        {/* Cards outside the viewport are replaced by top/bottom spacers; each wrapper
+            carries its position so assistive tech still knows the full list size */}
+        <div
+            ref={containerRef}
+            role="list"
+            style={{ paddingTop, paddingBottom }}
+        >
+            {virtualItems.map(({ index, key }) => (
+              <div
+                  key={key}
+                  ref={measureElement}
+                  data-index={index}
+                  role="listitem"
+                  aria-posinset={index + 1}
+                  aria-setsize={doctors.length}
+                  className="pb-5 md:pb-6" // Spacing lives inside the measured wrapper
+                  // With the map shown, clicking a card highlights its clinic on the map
+                  onClick={view === 'map' ? () => setSelectedDoctorId(doctors[index].id) : undefined}
+              >
+                {/* Assuming DoctorCard is also memoized for best results */}
+                <DoctorCard
+                    doctor={doctors[index]}
+                    highlights={matchHighlights?.get(doctors[index].id)}
+                    distanceKm={distances?.get(doctors[index].id)}
+                    nextAvailable={nextAvailableSlots?.get(doctors[index].id)}
+                    isSelected={view === 'map' && doctors[index].id === selectedDoctorId}
+                    onBook={onBookDoctor}
+                    isCompared={comparedDoctorIds?.has(doctors[index].id)}
+                    isCompareFull={isCompareFull}
+                    onToggleCompare={onToggleCompare}
+                    isShortlisted={shortlistedIds?.has(doctors[index].id)}
+                    onToggleShortlist={onToggleShortlist}
+                />
+              </div>
             ))}
         </div>
+
+        {/* --- Incremental Loading Footer --- */}
+        <div className="flex flex-col items-center gap-3 mt-8 text-sm text-gray-600">
+          <p>
+            Showing <span className="font-medium">{doctors.length}</span> of{' '}
+            <span className="font-medium">{totalCount}</span> doctors{hasMore && totalCount <= doctors.length ? ' loaded so far' : ''}
+          </p>
+          {renderLoadMoreControls()}
+        </div>
       </div>
     );
   };
 
+  // Short result count for screen readers, announced when filters change the results
+  // (blank while loading or on error, which announce themselves)
+  const resultsAnnouncement = isLoading || error
+    ? ''
+    : `${totalCount} doctor${totalCount === 1 ? '' : 's'} found${hasMore && totalCount <= doctors.length ? ' so far' : ''}`;
+
   // --- Main Section Element ---
   return (
     // `flex-grow` takes remaining space. `min-h-0` is crucial for overflow scrolling in flex children.
@@ -98,6 +414,19 @@ const DoctorListComponent: React.FC<DoctorListProps> = ({ doctors, isLoading, er
         aria-busy={isLoading} // Indicate loading state
         aria-label="List of doctors" // Label the region
     >
+        {/* How old the list is (it may come from the offline cache), with a refresh action */}
+        {!isLoading && !error && lastUpdatedAt !== null && onRefresh && (
+          <DataFreshnessBar
+              lastUpdatedAt={lastUpdatedAt}
+              isRefreshing={isRefreshing}
+              refreshError={refreshError}
+              onRefresh={onRefresh}
+          />
+        )}
+        {/* Skipped/repaired records are reported without blocking the list */}
+        {!isLoading && !error && <DataQualityNotice report={dataQuality} />}
+        {/* Always rendered, so screen readers pick up changes to its text */}
+        <p role="status" className="sr-only" data-testid="results-announcement">{resultsAnnouncement}</p>
         {renderContent()}
     </section>
   );
@@ -0,0 +1,366 @@
+// src/components/DoctorMap.tsx
+
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Doctor, GeoPoint, ReferencePoint } from '../types';
+import { getCentroid } from '../utils/geo';
+import {
+  MapViewport,
+  MarkerCluster,
+  MAX_SCALE,
+  MIN_SCALE,
+  clusterClinics,
+  fitViewport,
+  groupDoctorsByClinic,
+  projectToWorld,
+  screenToWorld,
+  unprojectFromWorld,
+  worldToScreen,
+} from '../utils/mapProjection';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPlus, faMinus, faExpand, faXmark } from '@fortawesome/free-solid-svg-icons';
+
+interface DoctorMapProps {
+  /** Doctors to plot; those without clinic coordinates are counted but not drawn */
+  doctors: Doctor[];
+  /** The doctor currently selected in the list or on the map */
+  selectedDoctorId: string | null;
+  /** Where distances are measured from, drawn as a separate marker */
+  referencePoint?: ReferencePoint | null;
+  /** Callback when a doctor is picked on the map */
+  onSelectDoctor: (doctorId: string) => void;
+}
+
+/** Doctors listed in a popup above a marker that stands for more than one doctor */
+interface MarkerPopup {
+  x: number;
+  y: number;
+  title: string;
+  doctors: Doctor[];
+}
+
+// Map height in pixels (the width follows the container)
+const MAP_HEIGHT = 360;
+// Each zoom button press changes the scale by this factor
+const ZOOM_STEP = 2;
+// Graticule spacing candidates in degrees; the first one at least MIN_GRID_SPACING px apart is used
+const GRID_STEPS = [0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 30];
+const MIN_GRID_SPACING = 80;
+// Pointer movement (px) below which a press counts as a click rather than a pan
+const DRAG_THRESHOLD = 4;
+
+/** Marker radius grows with the number of doctors it stands for */
+const getMarkerRadius = (doctorCount: number): number => (doctorCount === 1 ? 7 : Math.min(22, 10 + Math.log2(doctorCount) * 3));
+
+/**
+ * Offline map of the clinics in the current results. Nothing is fetched: clinics are
+ * projected with Web Mercator onto an SVG with a lat/lng grid and city labels for
+ * orientation. Nearby clinics are merged into numbered clusters at the current zoom;
+ * clicking a cluster zooms into it, and clicking a clinic selects its doctor (or lists
+ * its doctors when several practise there). Drag to pan.
+ */
+const DoctorMapComponent: React.FC<DoctorMapProps> = ({
+  doctors,
+  selectedDoctorId,
+  referencePoint = null,
+  onSelectDoctor,
+}) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(640);
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; startCenter: MapViewport['center']; moved: boolean } | null>(null);
+
+  // Effect to follow the container width so the SVG is drawn 1:1 in pixels
+  useLayoutEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    setWidth(Math.round(wrapper.clientWidth) || 640);
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(entries => {
+      const nextWidth = Math.round(entries[0].contentRect.width);
+      if (nextWidth > 0) setWidth(nextWidth);
+    });
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, []);
+
+  const clinics = useMemo(() => groupDoctorsByClinic(doctors), [doctors]);
+  const unmappedCount = doctors.length - clinics.reduce((sum, clinic) => sum + clinic.doctors.length, 0);
+
+  // The viewport that shows every clinic (and the reference point)
+  const fittedViewport = useMemo(() => {
+    const points = clinics.map(clinic => clinic.world);
+    if (referencePoint) points.push(projectToWorld(referencePoint.point));
+    return fitViewport(points, width, MAP_HEIGHT);
+  }, [clinics, referencePoint, width]);
+
+  // A pan/zoom by the user only applies to the clinics it was made on; when the results
+  // change the map fits the new clinics again
+  const clinicsKey = useMemo(() => clinics.map(clinic => clinic.key).join('|'), [clinics]);
+  const [userView, setUserView] = useState<{ clinicsKey: string; viewport: MapViewport } | null>(null);
+  const viewport = userView?.clinicsKey === clinicsKey ? userView.viewport : fittedViewport;
+  const [popup, setPopup] = useState<MarkerPopup | null>(null);
+
+  const changeViewport = (next: MapViewport | null) => {
+    setPopup(null);
+    setUserView(next ? { clinicsKey, viewport: { ...next, scale: Math.max(MIN_SCALE, Math.min(MAX_SCALE, next.scale)) } } : null);
+  };
+
+  const clusters = useMemo(() => clusterClinics(clinics, viewport, width, MAP_HEIGHT), [clinics, viewport, width]);
+
+  // City names at the centre of their clinics, for orientation
+  const cityLabels = useMemo(() => {
+    const pointsByCity = new Map<string, GeoPoint[]>();
+    clinics.forEach(clinic => {
+      const city = clinic.doctors[0].address?.city;
+      if (!city) return;
+      pointsByCity.set(city, [...(pointsByCity.get(city) ?? []), clinic.point]);
+    });
+    return Array.from(pointsByCity, ([city, points]) => {
+      const centroid = getCentroid(points);
+      return centroid ? { city, world: projectToWorld(centroid) } : null;
+    }).filter((label): label is NonNullable<typeof label> => label !== null);
+  }, [clinics]);
+
+  // Latitude/longitude grid lines across the visible area
+  const gridLines = useMemo(() => {
+    const topLeft = unprojectFromWorld(screenToWorld({ x: 0, y: 0 }, viewport, width, MAP_HEIGHT));
+    const bottomRight = unprojectFromWorld(screenToWorld({ x: width, y: MAP_HEIGHT }, viewport, width, MAP_HEIGHT));
+    const minStep = (MIN_GRID_SPACING * 360) / viewport.scale;
+    const step = GRID_STEPS.find(candidate => candidate >= minStep) ?? GRID_STEPS[GRID_STEPS.length - 1];
+    const vertical: number[] = [];
+    for (let lng = Math.ceil(topLeft.lng / step) * step; lng <= bottomRight.lng; lng += step) {
+      vertical.push(worldToScreen(projectToWorld({ lat: 0, lng }), viewport, width, MAP_HEIGHT).x);
+    }
+    const horizontal: number[] = [];
+    for (let lat = Math.ceil(bottomRight.lat / step) * step; lat <= topLeft.lat; lat += step) {
+      horizontal.push(worldToScreen(projectToWorld({ lat, lng: 0 }), viewport, width, MAP_HEIGHT).y);
+    }
+    return { vertical, horizontal };
+  }, [viewport, width]);
+
+  const zoomBy = (factor: number) => changeViewport({ center: viewport.center, scale: viewport.scale * factor });
+
+  /** Zooms into a multi-clinic cluster, or lists its doctors when it can't be split further */
+  const handleClusterClick = (cluster: MarkerCluster) => {
+    if (cluster.clinics.length > 1) {
+      const target = fitViewport(cluster.clinics.map(clinic => clinic.world), width, MAP_HEIGHT, 80);
+      if (target.scale > viewport.scale * 1.01) {
+        changeViewport(target);
+        return;
+      }
+    }
+    const clusterDoctors = cluster.clinics.flatMap(clinic => clinic.doctors);
+    if (clusterDoctors.length === 1) {
+      setPopup(null);
+      onSelectDoctor(clusterDoctors[0].id);
+      return;
+    }
+    const clinicName = cluster.clinics.length === 1 ? cluster.clinics[0].doctors[0].clinicName : undefined;
+    setPopup({
+      x: cluster.x,
+      y: cluster.y,
+      title: clinicName || `${clusterDoctors.length} doctors here`,
+      doctors: clusterDoctors,
+    });
+  };
+
+  // --- Drag to pan (pointer capture keeps tracking outside the SVG) ---
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    dragRef.current = { pointerId: event.pointerId, startX: event.clientX, startY: event.clientY, startCenter: viewport.center, moved: false };
+  };
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    changeViewport({
+      center: { x: drag.startCenter.x - dx / viewport.scale, y: drag.startCenter.y - dy / viewport.scale },
+      scale: viewport.scale,
+    });
+  };
+  const handlePointerUp = () => {
+    // Cleared after the click event so a pan doesn't also select the marker it ended on
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+  const wasDragged = () => dragRef.current?.moved === true;
+
+  const referenceScreen = referencePoint ? worldToScreen(projectToWorld(referencePoint.point), viewport, width, MAP_HEIGHT) : null;
+
+  return (
+    <div ref={wrapperRef} className="relative w-full overflow-hidden rounded-lg border border-gray-200 bg-slate-50 shadow-sm select-none" data-testid="doctor-map">
+      {clinics.length === 0 ? (
+        <div className="flex items-center justify-center p-6 text-sm text-gray-500 text-center" style={{ height: MAP_HEIGHT }}>
+          None of the current results have a clinic location to show on the map.
+        </div>
+      ) : (
+        <>
+          <svg
+              width={width}
+              height={MAP_HEIGHT}
+              viewBox={`0 0 ${width} ${MAP_HEIGHT}`}
+              className="block cursor-grab active:cursor-grabbing touch-none"
+              role="group"
+              aria-label={`Map of ${clinics.length} clinic${clinics.length === 1 ? '' : 's'}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+          >
+            {/* Graticule */}
+            <g className="stroke-slate-200" strokeWidth={1} aria-hidden="true">
+              {gridLines.vertical.map(x => <line key={`v${x}`} x1={x} x2={x} y1={0} y2={MAP_HEIGHT} />)}
+              {gridLines.horizontal.map(y => <line key={`h${y}`} x1={0} x2={width} y1={y} y2={y} />)}
+            </g>
+
+            {/* City labels */}
+            <g aria-hidden="true">
+              {cityLabels.map(({ city, world }) => {
+                const { x, y } = worldToScreen(world, viewport, width, MAP_HEIGHT);
+                return (
+                  <text
+                      key={city}
+                      x={x}
+                      y={y - 26}
+                      textAnchor="middle"
+                      className="fill-slate-400 stroke-slate-50 text-xs font-semibold uppercase tracking-wider"
+                      strokeWidth={3}
+                      paintOrder="stroke"
+                  >
+                    {city}
+                  </text>
+                );
+              })}
+            </g>
+
+            {/* Reference point */}
+            {referenceScreen && referencePoint && (
+              <g transform={`translate(${referenceScreen.x} ${referenceScreen.y})`} data-testid="map-reference-point">
+                <title>{referencePoint.label}</title>
+                <circle r={14} className="fill-sky-400/25" />
+                <circle r={6} className="fill-sky-500 stroke-white" strokeWidth={2} />
+              </g>
+            )}
+
+            {/* Clinic markers and clusters */}
+            {clusters.map(cluster => {
+              const isCluster = cluster.clinics.length > 1;
+              const isSelected = selectedDoctorId !== null
+                && cluster.clinics.some(clinic => clinic.doctors.some(doc => doc.id === selectedDoctorId));
+              const radius = getMarkerRadius(cluster.doctorCount) + (isSelected ? 2 : 0);
+              const label = isCluster
+                ? `${cluster.clinics.length} clinics, ${cluster.doctorCount} doctors`
+                : cluster.doctorCount === 1
+                  ? `Dr. ${cluster.clinics[0].doctors[0].name}${cluster.clinics[0].doctors[0].clinicName ? `, ${cluster.clinics[0].doctors[0].clinicName}` : ''}`
+                  : `${cluster.clinics[0].doctors[0].clinicName || 'Clinic'}, ${cluster.doctorCount} doctors`;
+              const fillClass = isSelected ? 'fill-rose-600' : isCluster ? 'fill-indigo-600' : 'fill-blue-600';
+              return (
+                <g
+                    key={cluster.key}
+                    transform={`translate(${cluster.x} ${cluster.y})`}
+                    role="button"
+                    tabIndex={0}
+                    aria-label={label}
+                    aria-pressed={isSelected}
+                    className="cursor-pointer focus:outline-none [&:focus-visible>circle:last-of-type]:stroke-blue-300"
+                    onClick={() => { if (!wasDragged()) handleClusterClick(cluster); }}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter' || event.key === ' ') {
+                        event.preventDefault();
+                        handleClusterClick(cluster);
+                      }
+                    }}
+                    data-testid={isCluster ? 'map-cluster' : 'map-marker'}
+                >
+                  <title>{label}</title>
+                  {isCluster && <circle r={radius + 5} className={`${fillClass} opacity-20`} />}
+                  <circle r={radius} className={`${fillClass} stroke-white transition-colors`} strokeWidth={2} />
+                  {cluster.doctorCount > 1 && (
+                    <text textAnchor="middle" dy="0.35em" className="fill-white text-[11px] font-semibold pointer-events-none">
+                      {cluster.doctorCount}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          {/* Doctors behind a marker that stands for several of them */}
+          {popup && (
+            <div
+                className="absolute z-10 w-60 max-h-48 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm custom-scrollbar"
+                style={{
+                  left: Math.max(8, Math.min(width - 248, popup.x - 120)),
+                  top: Math.max(8, Math.min(MAP_HEIGHT - 200, popup.y + 16)),
+                }}
+                role="dialog"
+                aria-label={popup.title}
+                data-testid="map-popup"
+            >
+              <div className="sticky top-0 flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 border-b border-gray-200">
+                <span className="font-medium text-gray-800 truncate">{popup.title}</span>
+                <button
+                    onClick={() => setPopup(null)}
+                    className="flex-shrink-0 p-1 text-gray-400 rounded hover:text-gray-700 hover:bg-gray-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                    aria-label="Close"
+                >
+                  <FontAwesomeIcon icon={faXmark} className="w-3 h-3" />
+                </button>
+              </div>
+              <ul>
+                {popup.doctors.map(doc => (
+                  <li key={doc.id}>
+                    <button
+                        onClick={() => onSelectDoctor(doc.id)}
+                        className={`w-full text-left px-3 py-1.5 hover:bg-blue-50 focus:outline-none focus-visible:bg-blue-50 ${doc.id === selectedDoctorId ? 'text-rose-700 font-medium' : 'text-gray-700'}`}
+                        data-testid="map-popup-doctor"
+                    >
+                      Dr. {doc.name}
+                      {doc.specialityNames.length > 0 && <span className="block text-xs text-gray-500 truncate">{doc.specialityNames.join(', ')}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Zoom controls */}
+          <div className="absolute top-2 right-2 flex flex-col bg-white border border-gray-200 rounded-md shadow-sm overflow-hidden">
+            {[
+              { icon: faPlus, label: 'Zoom in', onClick: () => zoomBy(ZOOM_STEP), disabled: viewport.scale >= MAX_SCALE, testId: 'map-zoom-in' },
+              { icon: faMinus, label: 'Zoom out', onClick: () => zoomBy(1 / ZOOM_STEP), disabled: viewport.scale <= MIN_SCALE, testId: 'map-zoom-out' },
+              { icon: faExpand, label: 'Show all clinics', onClick: () => changeViewport(null), disabled: !userView || userView.clinicsKey !== clinicsKey, testId: 'map-fit' },
+            ].map(control => (
+              <button
+                  key={control.testId}
+                  onClick={control.onClick}
+                  disabled={control.disabled}
+                  className="w-8 h-8 flex items-center justify-center text-gray-600 border-b last:border-b-0 border-gray-200 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-white focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500"
+                  aria-label={control.label}
+                  title={control.label}
+                  data-testid={control.testId}
+              >
+                <FontAwesomeIcon icon={control.icon} className="w-3 h-3" />
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Summary */}
+      <p className="absolute bottom-0 left-0 px-2 py-1 text-xs text-gray-500 bg-white/80 rounded-tr-md">
+        {clinics.length} clinic{clinics.length === 1 ? '' : 's'} on map
+        {unmappedCount > 0 && ` · ${unmappedCount} doctor${unmappedCount === 1 ? '' : 's'} without a location not shown`}
+      </p>
+    </div>
+  );
+};
+
+// Memoize the component for performance optimization
+export const DoctorMap = React.memo(DoctorMapComponent);
+// Set display name for better debugging
+DoctorMap.displayName = 'DoctorMap';
@@ -1,9 +1,13 @@
 // src/components/FilterPanel.tsx
 
-import React from 'react'; // Import React itself for React.memo
-import { FilterState, SortCriterion } from '../types'; // Import necessary types
+import React, { useState } from 'react'; // Import React itself for React.memo
+import { AvailabilityWindow, FacetCounts, FacetMatchMode, FilterState, NumericBounds, NumericRange, PlaceGroup, ReferencePoint, SavedSearchPreset, SortCriterion, SortDirection } from '../types'; // Import necessary types
+import { AVAILABILITY_WINDOWS, SORT_CRITERIA, SORT_CRITERION_INFO, describeFilterState, formatExperience, formatFee } from '../utils/filterState';
+import { RangeFilter } from './RangeFilter';
+import { DistanceFilter } from './DistanceFilter';
+import { LocationFilter } from './LocationFilter';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faRotateLeft, faCheck } from '@fortawesome/free-solid-svg-icons'; // Import icons
+import { faRotateLeft, faCheck, faXmark, faBookmark, faChevronUp, faChevronDown, faArrowUpShortWide, faArrowDownWideShort } from '@fortawesome/free-solid-svg-icons'; // Import icons
 
 interface FilterPanelProps {
   /** Total number of doctors currently matching the filters */
@@ -11,15 +15,73 @@ interface FilterPanelProps {
   /** List of unique specialty names available from all doctors */
   availableSpecialties: string[];
   /** Current state of filters, including the sortOptions array */
-  filters: Omit<FilterState, 'searchTerm' | 'sortOption'> & { sortOptions: SortCriterion[] }; // Use correct FilterState structure
+  filters: Omit<FilterState, 'searchTerm'>;
   /** Callback to update the selected consultation type */
   onConsultationTypeChange: (type: 'Video Consult' | 'In Clinic' | null) => void;
+  /** Callback to restrict results to doctors available today / this week (null removes it) */
+  onAvailableWithinChange: (availabilityWindow: AvailabilityWindow | null) => void;
+  /** Callback to restrict results to the shortlisted doctors */
+  onShortlistedOnlyChange: (shortlistedOnly: boolean) => void;
   /** Callback to toggle a specialty filter */
   onSpecialtyChange: (specialty: string) => void;
+  /** Cities with their localities, derived from the loaded clinics */
+  availablePlaces: PlaceGroup[];
+  /** Callback to toggle a city filter */
+  onCityChange: (city: string) => void;
+  /** Callback to toggle a locality filter */
+  onLocalityChange: (locality: string) => void;
+  /** Unique languages spoken by the loaded doctors */
+  availableLanguages: string[];
+  /** Live number of doctors each option would yield, given the other active filters */
+  facetCounts: FacetCounts;
+  /** Callback to toggle a language filter */
+  onLanguageChange: (language: string) => void;
+  /** Callback to switch between matching any or all selected languages */
+  onLanguageMatchChange: (mode: FacetMatchMode) => void;
+  /** Lowest/highest known fee among loaded doctors (slider limits) */
+  feeBounds: NumericBounds | null;
+  /** Lowest/highest experience among loaded doctors (slider limits) */
+  experienceBounds: NumericBounds | null;
+  /** Callback to update the fee range filter */
+  onFeeRangeChange: (range: NumericRange) => void;
+  /** Callback to update the experience range filter */
+  onExperienceRangeChange: (range: NumericRange) => void;
+  /** Where distances are measured from, or null when not set */
+  referencePoint: ReferencePoint | null;
+  /** True while the browser is determining the user's position */
+  isLocating: boolean;
+  /** Why the last attempt to set a reference point failed */
+  referencePointError: string | null;
+  /** Localities and cities that can be typed as a reference point */
+  referencePlaces: string[];
+  /** Callback to use the browser's geolocation as the reference point */
+  onLocateUser: () => void;
+  /** Callback to use a typed place as the reference point; returns false when unknown */
+  onReferencePlaceSubmit: (place: string) => boolean;
+  /** Callback to forget the reference point */
+  onClearReferencePoint: () => void;
+  /** Callback to set or remove the maximum distance (km) */
+  onMaxDistanceChange: (km: number | null) => void;
   /** Callback to toggle a sort criterion */
   onSortChange: (option: SortCriterion) => void; // Renamed prop to match hook's handler logic intention
+  /** Callback to change the direction of an active sort criterion */
+  onSortDirectionChange: (criterion: SortCriterion, direction: SortDirection) => void;
+  /** Callback to move an active sort criterion up (-1) or down (+1) the priority list */
+  onSortMove: (criterion: SortCriterion, offset: number) => void;
   /** Callback to clear all filters and sorting */
   onClearFilters: () => void;
+  /** Filter combinations the user saved under a name */
+  savedPresets: SavedSearchPreset[];
+  /** Id of the saved preset matching the current filters exactly, if any */
+  activePresetId: string | null;
+  /** Whether anything is applied that could be saved as a preset */
+  canSavePreset: boolean;
+  /** Callback to save the current filters under a name */
+  onSavePreset: (name: string) => void;
+  /** Callback to re-apply a saved preset */
+  onApplyPreset: (preset: SavedSearchPreset) => void;
+  /** Callback to delete a saved preset */
+  onDeletePreset: (id: string) => void;
 }
 
 /**
@@ -34,10 +96,35 @@ const formatSpecialtyTestId = (specialty: string): string => {
     return `filter-specialty-${formatted}`;
 }
 
+// Labels for the language match-mode toggle
+const MATCH_MODE_LABELS: Record<FacetMatchMode, string> = {
+  any: 'Any',
+  all: 'All',
+};
+
+/**
+ * Classes for a checkbox/radio option row; options that would yield no doctors are de-emphasized.
+ * @param isDisabled - Whether the option currently has no matches (and is not selected).
+ * @param padding - Tailwind padding class for the row.
+ */
+const getOptionLabelClass = (isDisabled: boolean, padding = 'p-1'): string => {
+  const base = `flex items-center text-sm transition-colors group ${padding} rounded`;
+  return isDisabled
+    ? `${base} text-gray-400 cursor-not-allowed`
+    : `${base} cursor-pointer text-gray-800 hover:text-blue-700 hover:bg-blue-50/50`;
+};
+
+/** Right-aligned count badge shown next to each filter option */
+const FacetCount: React.FC<{ count: number; testId?: string }> = ({ count, testId }) => (
+  <span className="ml-auto pl-2 text-xs text-gray-400 tabular-nums" data-testid={testId} aria-label={`${count} doctor${count === 1 ? '' : 's'}`}>
+    {count}
+  </span>
+);
+
 /**
  * Component displaying filter and sort options for the doctor list.
  * Allows users to refine the list by consultation type, specialties,
- * and multiple sorting preferences (fees, experience).
+ * and a reorderable list of sort criteria, each with its own direction.
  * Wrapped with React.memo for performance optimization.
  */
 const FilterPanelComponent: React.FC<FilterPanelProps> = ({
@@ -45,15 +132,56 @@ const FilterPanelComponent: React.FC<FilterPanelProps> = ({
   availableSpecialties,
   filters,
   onConsultationTypeChange,
+  onAvailableWithinChange,
+  onShortlistedOnlyChange,
   onSpecialtyChange,
+  availablePlaces,
+  onCityChange,
+  onLocalityChange,
+  availableLanguages,
+  facetCounts,
+  onLanguageChange,
+  onLanguageMatchChange,
+  feeBounds,
+  experienceBounds,
+  onFeeRangeChange,
+  onExperienceRangeChange,
+  referencePoint,
+  isLocating,
+  referencePointError,
+  referencePlaces,
+  onLocateUser,
+  onReferencePlaceSubmit,
+  onClearReferencePoint,
+  onMaxDistanceChange,
   onSortChange, // Use the prop name matching the hook handler's purpose (toggling)
+  onSortDirectionChange,
+  onSortMove,
   onClearFilters,
+  savedPresets,
+  activePresetId,
+  canSavePreset,
+  onSavePreset,
+  onApplyPreset,
+  onDeletePreset,
 }) => {
+  // Name typed into the "save current filters" field
+  const [presetName, setPresetName] = useState('');
+
   // Destructure filters state.
   // --- FIX: Provide default empty array for sortOptions ---
   const {
       consultationType,
       specialties: selectedSpecialties,
+      cities: selectedCities,
+      localities: selectedLocalities,
+      languages: selectedLanguages,
+      languageMatch,
+      feeRange,
+      experienceRange,
+      maxDistanceKm,
+      availableWithin,
+      shortlistedOnly,
       sortOptions = [] // Default to empty array if filters.sortOptions is undefined
   } = filters ?? {}; // Also handle case where filters prop itself might be null/undefined initially
   // --- End FIX ---
@@ -65,21 +193,33 @@ const FilterPanelComponent: React.FC<FilterPanelProps> = ({
     onConsultationTypeChange(value === consultationType ? null : value);
   };
 
+  /** A consultation mode is disabled when it would yield no doctors (unless it is selected) */
+  const isConsultationDisabled = (type: 'Video Consult' | 'In Clinic'): boolean =>
+    facetCounts.consultationTypes[type] === 0 && consultationType !== type;
+
   /** Handles changes for the Specialty checkboxes */
   const handleSpecialtyChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     onSpecialtyChange(event.target.value); // Calls the toggle handler from the hook
   };
 
+  /** Saves the current filters under the typed name */
+  const handlePresetSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSavePreset || !presetName.trim()) return;
+    onSavePreset(presetName);
+    setPresetName('');
+  };
+
   /**
    * Generates dynamic CSS classes for sort buttons based on whether
    * the sort criterion is active (present in the sortOptions array).
-   * @param type - The sort criterion ('fees' or 'experience').
+   * @param type - The sort criterion.
    * @returns Tailwind CSS class string for the button.
    */
   const getSortButtonClass = (type: SortCriterion): string => {
     const base = "flex items-center justify-between w-full text-left px-3 py-2.5 mb-2 text-sm border rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-1 focus-visible:ring-blue-500 transition-all duration-150 ease-in-out shadow-sm";
-    // Now safe to call .includes() because sortOptions defaults to []
-    if (sortOptions.includes(type)) {
+    // Now safe to call .some() because sortOptions defaults to []
+    if (sortOptions.some(option => option.criterion === type)) {
       // Active state styling
       return `${base} bg-blue-50 border-blue-400 text-blue-800 font-semibold hover:bg-blue-100 ring-1 ring-blue-300`;
     }
@@ -87,6 +227,14 @@ const FilterPanelComponent: React.FC<FilterPanelProps> = ({
     return `${base} border-gray-300 bg-white hover:bg-gray-50 hover:border-gray-400 text-gray-700`;
   };
 
+  /** Tooltip explaining when a sort criterion has an effect */
+  const getSortButtonTitle = (type: SortCriterion): string | undefined => {
+    if (type === 'relevance') return 'Orders by how well doctors match the search (applies while a search term is entered)';
+    if (type === 'distance') return referencePoint ? `Orders by distance from ${referencePoint.label}` : 'Set a location to sort by distance';
+    if (type === 'availability') return 'Orders by the earliest free slot';
+    return undefined;
+  };
+
   return (
     <aside
         // Styling for the filter panel container
@@ -124,86 +272,372 @@ const FilterPanelComponent: React.FC<FilterPanelProps> = ({
           <h4 id="filter-header-moc" data-testid="filter-header-moc" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Consultation Mode</h4>
           <div className="space-y-3">
               {/* Video Consult Radio */}
-              <label className="flex items-center cursor-pointer text-sm text-gray-800 hover:text-blue-700 transition-colors group p-1.5 rounded hover:bg-blue-50/50">
+              <label className={getOptionLabelClass(isConsultationDisabled('Video Consult'), 'p-1.5')}>
                 <input
                     type="radio"
                     name="consultationType"
                     value="Video Consult"
                     checked={consultationType === 'Video Consult'}
                     onChange={handleConsultationChange}
+                    disabled={isConsultationDisabled('Video Consult')}
                     data-testid="filter-video-consult"
-                    className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out"
+                    className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out disabled:opacity-50"
                 />
                 <span className="ml-2.5 select-none">Video Consult</span>
+                <FacetCount count={facetCounts.consultationTypes['Video Consult']} testId="filter-video-consult-count" />
               </label>
               {/* In Clinic Radio */}
-              <label className="flex items-center cursor-pointer text-sm text-gray-800 hover:text-blue-700 transition-colors group p-1.5 rounded hover:bg-blue-50/50">
+              <label className={getOptionLabelClass(isConsultationDisabled('In Clinic'), 'p-1.5')}>
                 <input
                     type="radio"
                     name="consultationType"
                     value="In Clinic"
                     checked={consultationType === 'In Clinic'}
                     onChange={handleConsultationChange}
+                    disabled={isConsultationDisabled('In Clinic')}
                     data-testid="filter-in-clinic"
-                    className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out"
+                    className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out disabled:opacity-50"
                 />
                 <span className="ml-2.5 select-none">In Clinic</span>
+                <FacetCount count={facetCounts.consultationTypes['In Clinic']} testId="filter-in-clinic-count" />
               </label>
           </div>
         </section>
 
+        {/* Availability Filter Section */}
+        <section aria-labelledby="filter-header-availability">
+          <h4 id="filter-header-availability" data-testid="filter-header-availability" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Availability</h4>
+          <div className="space-y-3">
+            <label className={getOptionLabelClass(false, 'p-1.5')}>
+              <input
+                  type="radio"
+                  name="availableWithin"
+                  value=""
+                  checked={availableWithin === null}
+                  onChange={() => onAvailableWithinChange(null)}
+                  data-testid="filter-available-any"
+                  className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out"
+              />
+              <span className="ml-2.5 select-none">Any time</span>
+            </label>
+            {AVAILABILITY_WINDOWS.map(({ value, label }) => {
+              const count = facetCounts.availability[value];
+              const isDisabled = count === 0 && availableWithin !== value;
+              return (
+                <label key={value} className={getOptionLabelClass(isDisabled, 'p-1.5')}>
+                  <input
+                      type="radio"
+                      name="availableWithin"
+                      value={value}
+                      checked={availableWithin === value}
+                      onChange={() => onAvailableWithinChange(value)}
+                      disabled={isDisabled}
+                      data-testid={`filter-available-${value}`}
+                      className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out disabled:opacity-50"
+                  />
+                  <span className="ml-2.5 select-none">{label}</span>
+                  <FacetCount count={count} testId={`filter-available-${value}-count`} />
+                </label>
+              );
+            })}
+          </div>
+        </section>
+
+        {/* Shortlist Filter Section */}
+        <section aria-labelledby="filter-header-shortlist">
+          <h4 id="filter-header-shortlist" data-testid="filter-header-shortlist" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Shortlist</h4>
+          <label className={getOptionLabelClass(facetCounts.shortlisted === 0 && !shortlistedOnly, 'p-1.5')}>
+            <input
+                type="checkbox"
+                checked={shortlistedOnly}
+                onChange={(event) => onShortlistedOnlyChange(event.target.checked)}
+                disabled={facetCounts.shortlisted === 0 && !shortlistedOnly}
+                data-testid="filter-shortlisted-only"
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out disabled:opacity-50"
+            />
+            <span className="ml-2.5 select-none">Shortlisted only</span>
+            <FacetCount count={facetCounts.shortlisted} testId="filter-shortlisted-only-count" />
+          </label>
+        </section>
+
         {/* Specialties Filter Section */}
         <section aria-labelledby="filter-header-speciality">
           <h4 id="filter-header-speciality" data-testid="filter-header-speciality" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Speciality</h4>
           {/* Scrollable container for specialties */}
           <div className="space-y-2.5 max-h-60 overflow-y-auto pr-2 -mr-2 border rounded-lg p-3 border-gray-200 bg-white shadow-inner custom-scrollbar">
-              {availableSpecialties.length > 0 ? availableSpecialties.map((specialty) => (
-                <label key={specialty} className="flex items-center cursor-pointer text-sm text-gray-800 hover:text-blue-700 transition-colors group p-1 rounded hover:bg-blue-50/50">
+              {availableSpecialties.length > 0 ? availableSpecialties.map((specialty) => {
+                const count = facetCounts.specialties.get(specialty) ?? 0;
+                // Selected options stay enabled so they can always be unticked
+                const isDisabled = count === 0 && !selectedSpecialties.has(specialty);
+                return (
+                <label key={specialty} className={getOptionLabelClass(isDisabled)}>
                     <input
                         type="checkbox"
                         value={specialty}
                         checked={selectedSpecialties.has(specialty)}
                         onChange={handleSpecialtyChange}
+                        disabled={isDisabled}
                         data-testid={formatSpecialtyTestId(specialty)} // Use helper for test ID
-                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out"
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out disabled:opacity-50"
                     />
                     <span className="ml-2.5 select-none">{specialty}</span>
+                    <FacetCount count={count} testId={`${formatSpecialtyTestId(specialty)}-count`} />
                 </label>
-              )) : (
+                );
+              }) : (
                   <p className="text-xs text-gray-500 italic px-1 py-2">No specialties available</p>
               )}
           </div>
         </section>
 
+        {/* Languages Filter Section */}
+        <section aria-labelledby="filter-header-language">
+          <div className="flex items-center justify-between mb-3">
+            <h4 id="filter-header-language" data-testid="filter-header-language" className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Languages</h4>
+            {/* Match any / all toggle (only meaningful with two or more languages selected) */}
+            <div
+                role="radiogroup"
+                aria-label="Language match mode"
+                className="inline-flex rounded-md border border-gray-300 overflow-hidden text-xs"
+                title="Show doctors who speak any of the selected languages, or all of them"
+            >
+              {(['any', 'all'] as FacetMatchMode[]).map((mode) => (
+                <button
+                    key={mode}
+                    role="radio"
+                    aria-checked={languageMatch === mode}
+                    onClick={() => onLanguageMatchChange(mode)}
+                    className={`px-2.5 py-1 font-medium transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 ${languageMatch === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                    data-testid={`language-match-${mode}`}
+                >
+                  {MATCH_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2.5 max-h-48 overflow-y-auto pr-2 -mr-2 border rounded-lg p-3 border-gray-200 bg-white shadow-inner custom-scrollbar">
+              {availableLanguages.length > 0 ? availableLanguages.map((language) => {
+                const count = facetCounts.languages.get(language) ?? 0;
+                const isDisabled = count === 0 && !selectedLanguages.has(language);
+                const testId = `filter-language-${language.replace(/[\s/]+/g, '-').replace(/[^a-zA-Z0-9-]/g, '')}`;
+                return (
+                <label key={language} className={getOptionLabelClass(isDisabled)}>
+                    <input
+                        type="checkbox"
+                        value={language}
+                        checked={selectedLanguages.has(language)}
+                        onChange={(event) => onLanguageChange(event.target.value)}
+                        disabled={isDisabled}
+                        data-testid={testId}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out disabled:opacity-50"
+                    />
+                    <span className="ml-2.5 select-none">{language}</span>
+                    <FacetCount count={count} testId={`${testId}-count`} />
+                </label>
+                );
+              }) : (
+                  <p className="text-xs text-gray-500 italic px-1 py-2">No languages available</p>
+              )}
+          </div>
+        </section>
+
+        {/* City → Locality Filter Section */}
+        <LocationFilter
+            places={availablePlaces}
+            selectedCities={selectedCities}
+            selectedLocalities={selectedLocalities}
+            cityCounts={facetCounts.cities}
+            localityCounts={facetCounts.localities}
+            onCityToggle={onCityChange}
+            onLocalityToggle={onLocalityChange}
+        />
+
+        {/* Fee Range Filter Section */}
+        <RangeFilter
+            id="fee"
+            label="Consultation Fee"
+            bounds={feeBounds}
+            value={feeRange}
+            formatValue={formatFee}
+            unavailableMessage="No fee information available"
+            onChange={onFeeRangeChange}
+        />
+
+        {/* Experience Range Filter Section */}
+        <RangeFilter
+            id="experience"
+            label="Experience"
+            bounds={experienceBounds}
+            value={experienceRange}
+            formatValue={formatExperience}
+            unavailableMessage="No experience information available"
+            onChange={onExperienceRangeChange}
+        />
+
+        {/* Distance Filter Section */}
+        <DistanceFilter
+            referencePoint={referencePoint}
+            isLocating={isLocating}
+            error={referencePointError}
+            places={referencePlaces}
+            maxDistanceKm={maxDistanceKm}
+            onLocate={onLocateUser}
+            onPlaceSubmit={onReferencePlaceSubmit}
+            onClear={onClearReferencePoint}
+            onMaxDistanceChange={onMaxDistanceChange}
+        />
+
         {/* Sort Options Section */}
         <section aria-labelledby="filter-header-sort" className="pt-4 border-t border-gray-200">
-          <h4 id="filter-header-sort" data-testid="filter-header-sort" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Sort By (Multi-select)</h4>
-          {/* Fees Sort Button */}
-          <button
-              onClick={() => onSortChange('fees')} // Calls the toggle handler
-              className={getSortButtonClass('fees')}
-              data-testid="sort-fees"
-              aria-pressed={sortOptions.includes('fees')} // Check if 'fees' is active
-          >
-              Fees (Low to High)
-              {/* Conditionally render checkmark if 'fees' is active */}
-              {sortOptions.includes('fees') && (
-                  <FontAwesomeIcon icon={faCheck} className="w-4 h-4 text-blue-600 flex-shrink-0" />
-              )}
-          </button>
-          {/* Experience Sort Button */}
-          <button
-              onClick={() => onSortChange('experience')} // Calls the toggle handler
-              className={getSortButtonClass('experience')}
-              data-testid="sort-experience"
-              aria-pressed={sortOptions.includes('experience')} // Check if 'experience' is active
-          >
-              Experience (High to Low)
-              {/* Conditionally render checkmark if 'experience' is active */}
-              {sortOptions.includes('experience') && (
-                   <FontAwesomeIcon icon={faCheck} className="w-4 h-4 text-blue-600 flex-shrink-0" />
-              )}
-          </button>
+          <h4 id="filter-header-sort" data-testid="filter-header-sort" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Sort By (Multi-level)</h4>
+          {/* One toggle per criterion; picking one adds it as the lowest priority in its default direction */}
+          {SORT_CRITERIA.map((criterion) => {
+            const active = sortOptions.find(option => option.criterion === criterion);
+            // Distance needs a reference point; it stays enabled while active so it can be removed
+            const isDisabled = criterion === 'distance' && !referencePoint && !active;
+            return (
+              <button
+                  key={criterion}
+                  onClick={() => onSortChange(criterion)} // Calls the toggle handler
+                  className={`${getSortButtonClass(criterion)} disabled:opacity-50 disabled:cursor-not-allowed`}
+                  data-testid={`sort-${criterion}`}
+                  aria-pressed={Boolean(active)}
+                  disabled={isDisabled}
+                  title={getSortButtonTitle(criterion)}
+              >
+                  <span>
+                    {SORT_CRITERION_INFO[criterion].label}
+                    <span className="ml-1 font-normal text-gray-500">
+                      ({SORT_CRITERION_INFO[criterion].directionLabels[active?.direction ?? SORT_CRITERION_INFO[criterion].defaultDirection]})
+                    </span>
+                  </span>
+                  {/* Conditionally render checkmark if the criterion is active */}
+                  {active && (
+                      <FontAwesomeIcon icon={faCheck} className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                  )}
+              </button>
+            );
+          })}
+
+          {/* Priority list: earlier levels win, later ones only break ties */}
+          {sortOptions.length > 0 && (
+            <div className="mt-3">
+              <p id="sort-priority-label" className="text-xs font-medium text-gray-500 mb-1.5">Sort priority</p>
+              <ol aria-labelledby="sort-priority-label" className="space-y-1.5" data-testid="sort-priority">
+                {sortOptions.map((option, index) => {
+                  const info = SORT_CRITERION_INFO[option.criterion];
+                  const nextDirection = option.direction === 'asc' ? 'desc' : 'asc';
+                  return (
+                    <li
+                        key={option.criterion}
+                        className="flex items-center gap-1.5 px-2 py-1.5 text-sm bg-white border border-gray-200 rounded-lg"
+                        data-testid="sort-priority-item"
+                    >
+                      <span className="w-5 text-xs font-semibold text-gray-400 tabular-nums">{index + 1}.</span>
+                      <span className="flex-grow min-w-0 truncate text-gray-800">{info.label}</span>
+                      <button
+                          onClick={() => onSortDirectionChange(option.criterion, nextDirection)}
+                          className="px-1.5 py-0.5 text-xs text-blue-700 border border-blue-200 rounded hover:bg-blue-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                          aria-label={`${info.label}: ${info.directionLabels[option.direction]}. Switch to ${info.directionLabels[nextDirection]}`}
+                          title={`Switch to ${info.directionLabels[nextDirection]}`}
+                          data-testid={`sort-direction-${option.criterion}`}
+                      >
+                        <FontAwesomeIcon icon={option.direction === 'asc' ? faArrowUpShortWide : faArrowDownWideShort} className="w-3 h-3 mr-1" />
+                        {info.directionLabels[option.direction]}
+                      </button>
+                      <button
+                          onClick={() => onSortMove(option.criterion, -1)}
+                          disabled={index === 0}
+                          className="p-1 text-gray-500 rounded hover:text-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                          aria-label={`Move ${info.label} up`}
+                          data-testid={`sort-move-up-${option.criterion}`}
+                      >
+                        <FontAwesomeIcon icon={faChevronUp} className="w-3 h-3" />
+                      </button>
+                      <button
+                          onClick={() => onSortMove(option.criterion, 1)}
+                          disabled={index === sortOptions.length - 1}
+                          className="p-1 text-gray-500 rounded hover:text-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                          aria-label={`Move ${info.label} down`}
+                          data-testid={`sort-move-down-${option.criterion}`}
+                      >
+                        <FontAwesomeIcon icon={faChevronDown} className="w-3 h-3" />
+                      </button>
+                      <button
+                          onClick={() => onSortChange(option.criterion)}
+                          className="p-1 text-gray-400 rounded hover:text-red-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                          aria-label={`Stop sorting by ${info.label}`}
+                          data-testid={`sort-remove-${option.criterion}`}
+                      >
+                        <FontAwesomeIcon icon={faXmark} className="w-3 h-3" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          )}
+        </section>
+
+        {/* Saved Searches Section */}
+        <section aria-labelledby="filter-header-presets" className="pt-4 border-t border-gray-200">
+          <h4 id="filter-header-presets" data-testid="filter-header-presets" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Saved Searches</h4>
+          <form onSubmit={handlePresetSubmit} className="flex gap-2 mb-3">
+            <input
+                type="text"
+                value={presetName}
+                onChange={(event) => setPresetName(event.target.value)}
+                placeholder={canSavePreset ? 'Name current filters' : 'Apply filters to save them'}
+                disabled={!canSavePreset}
+                maxLength={60}
+                className="flex-grow min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                aria-label="Preset name"
+                data-testid="preset-name-input"
+            />
+            <button
+                type="submit"
+                disabled={!canSavePreset || !presetName.trim()}
+                className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-sm hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-1 focus-visible:ring-blue-500 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors duration-150"
+                data-testid="save-preset-button"
+            >
+              Save
+            </button>
+          </form>
+          {savedPresets.length > 0 ? (
+            <ul className="space-y-2">
+              {savedPresets.map((preset) => {
+                const isActive = preset.id === activePresetId;
+                const description = describeFilterState(preset.filters);
+                return (
+                  <li key={preset.id} className="flex items-stretch gap-1">
+                    <button
+                        onClick={() => onApplyPreset(preset)}
+                        className={`flex-grow min-w-0 flex items-start gap-2 text-left px-3 py-2 text-sm border rounded-lg shadow-sm transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${isActive ? 'bg-blue-50 border-blue-400 text-blue-800' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 hover:border-gray-400'}`}
+                        title={`Apply: ${description}`}
+                        aria-pressed={isActive}
+                        data-testid="apply-preset-button"
+                    >
+                      <FontAwesomeIcon icon={faBookmark} className={`w-3 h-3 mt-1 flex-shrink-0 ${isActive ? 'text-blue-600' : 'text-gray-400'}`} />
+                      <span className="min-w-0">
+                        <span className="block font-medium truncate">{preset.name}</span>
+                        <span className="block text-xs text-gray-500 truncate">{description}</span>
+                      </span>
+                    </button>
+                    <button
+                        onClick={() => onDeletePreset(preset.id)}
+                        className="flex-shrink-0 px-2 text-gray-400 rounded-lg hover:text-red-600 hover:bg-red-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 transition-colors duration-150"
+                        aria-label={`Delete saved search ${preset.name}`}
+                        data-testid="delete-preset-button"
+                    >
+                      <FontAwesomeIcon icon={faXmark} className="w-3 h-3" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-500">No saved searches yet.</p>
+          )}
         </section>
       </div>
     </aside>
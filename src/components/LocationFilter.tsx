@@ -0,0 +1,153 @@
+// src/components/LocationFilter.tsx
+
+import React, { useState } from 'react';
+import { PlaceGroup } from '../types';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faChevronRight, faXmark } from '@fortawesome/free-solid-svg-icons';
+
+interface LocationFilterProps {
+  /** Cities with their localities, derived from the loaded clinics */
+  places: PlaceGroup[];
+  selectedCities: Set<string>;
+  selectedLocalities: Set<string>;
+  /** Live number of doctors per city, given the other active filters */
+  cityCounts: ReadonlyMap<string, number>;
+  /** Live number of doctors per locality, given the other active filters */
+  localityCounts: ReadonlyMap<string, number>;
+  onCityToggle: (city: string) => void;
+  onLocalityToggle: (locality: string) => void;
+}
+
+/** data-testid friendly version of a place name */
+const toTestIdSlug = (value: string): string => value.replace(/[\s/]+/g, '-').replace(/[^a-zA-Z0-9-]/g, '');
+
+/**
+ * Hierarchical city → locality filter. Ticking a city keeps all of its clinics; ticking
+ * localities inside it narrows the city to just those. A city is shown as partially
+ * selected (indeterminate) when only some of its localities are ticked.
+ */
+const LocationFilterComponent: React.FC<LocationFilterProps> = ({
+  places,
+  selectedCities,
+  selectedLocalities,
+  cityCounts,
+  localityCounts,
+  onCityToggle,
+  onLocalityToggle,
+}) => {
+  // Cities the user expanded by hand; cities with a selection are always expanded
+  const [expandedCities, setExpandedCities] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (city: string) => {
+    setExpandedCities(prev => {
+      const next = new Set(prev);
+      if (next.has(city)) next.delete(city);
+      else next.add(city);
+      return next;
+    });
+  };
+
+  // Selected localities that don't belong to any loaded city (e.g. from a link, before data
+  // arrives) are still listed so they can be removed
+  const knownLocalities = new Set(places.flatMap(group => group.localities));
+  const orphanLocalities = Array.from(selectedLocalities).filter(locality => !knownLocalities.has(locality));
+
+  return (
+    <section aria-labelledby="filter-header-locality">
+      <h4 id="filter-header-locality" data-testid="filter-header-locality" className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">Location</h4>
+      <div className="max-h-72 overflow-y-auto pr-2 -mr-2 border rounded-lg p-2 border-gray-200 bg-white shadow-inner custom-scrollbar">
+        {places.length > 0 ? (
+          <ul className="space-y-1">
+            {places.map(({ city, localities }) => {
+              const cityCount = cityCounts.get(city) ?? 0;
+              const isCitySelected = selectedCities.has(city);
+              const hasSelectedLocality = localities.some(locality => selectedLocalities.has(locality));
+              const isExpanded = isCitySelected || hasSelectedLocality || expandedCities.has(city);
+              const isCityDisabled = cityCount === 0 && !isCitySelected && !hasSelectedLocality;
+              const listId = `locality-list-${toTestIdSlug(city)}`;
+              return (
+                <li key={city}>
+                  <div className="flex items-center gap-1">
+                    <button
+                        type="button"
+                        onClick={() => toggleExpanded(city)}
+                        disabled={localities.length === 0 || isCitySelected || hasSelectedLocality}
+                        className="flex-shrink-0 w-6 h-6 flex items-center justify-center rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                        aria-expanded={isExpanded}
+                        aria-controls={listId}
+                        aria-label={`${isExpanded ? 'Hide' : 'Show'} localities in ${city}`}
+                    >
+                      <FontAwesomeIcon icon={faChevronRight} className={`w-2.5 h-2.5 transition-transform duration-150 ${isExpanded ? 'rotate-90' : ''}`} />
+                    </button>
+                    <label className={`flex flex-grow items-center text-sm p-1 rounded transition-colors ${isCityDisabled ? 'text-gray-400 cursor-not-allowed' : 'cursor-pointer text-gray-800 hover:text-blue-700 hover:bg-blue-50/50'}`}>
+                      <input
+                          type="checkbox"
+                          checked={isCitySelected}
+                          // Partially selected: some localities ticked without the whole city
+                          ref={element => { if (element) element.indeterminate = !isCitySelected && hasSelectedLocality; }}
+                          onChange={() => onCityToggle(city)}
+                          disabled={isCityDisabled}
+                          data-testid={`filter-city-${toTestIdSlug(city)}`}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out disabled:opacity-50"
+                      />
+                      <span className="ml-2.5 select-none font-medium">{city}</span>
+                      <span className="ml-auto pl-2 text-xs text-gray-400 tabular-nums">{cityCount}</span>
+                    </label>
+                  </div>
+                  {isExpanded && localities.length > 0 && (
+                    <ul id={listId} className="ml-7 mt-0.5 space-y-0.5 border-l border-gray-100 pl-2">
+                      {localities.map(locality => {
+                        const count = localityCounts.get(locality) ?? 0;
+                        const isSelected = selectedLocalities.has(locality);
+                        const isDisabled = count === 0 && !isSelected;
+                        return (
+                          <li key={locality}>
+                            <label className={`flex items-center text-sm p-1 rounded transition-colors ${isDisabled ? 'text-gray-400 cursor-not-allowed' : 'cursor-pointer text-gray-700 hover:text-blue-700 hover:bg-blue-50/50'}`}>
+                              <input
+                                  type="checkbox"
+                                  checked={isSelected}
+                                  onChange={() => onLocalityToggle(locality)}
+                                  disabled={isDisabled}
+                                  data-testid={`filter-locality-${toTestIdSlug(locality)}`}
+                                  className="h-3.5 w-3.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-offset-1 transition duration-150 ease-in-out disabled:opacity-50"
+                              />
+                              <span className="ml-2 select-none">{locality}</span>
+                              <span className="ml-auto pl-2 text-xs text-gray-400 tabular-nums">{count}</span>
+                            </label>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500 italic px-1 py-2">No locations available</p>
+        )}
+      </div>
+      {orphanLocalities.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {orphanLocalities.map(locality => (
+            <button
+                key={locality}
+                onClick={() => onLocalityToggle(locality)}
+                className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-blue-800 bg-blue-50 border border-blue-300 rounded-full hover:bg-blue-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 transition-colors duration-150"
+                title={`Remove locality filter: ${locality}`}
+                data-testid={`filter-locality-chip-${toTestIdSlug(locality)}`}
+            >
+              {locality}
+              <FontAwesomeIcon icon={faXmark} className="w-3 h-3" />
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+// Memoize the component for performance optimization
+export const LocationFilter = React.memo(LocationFilterComponent);
+// Set display name for better debugging
+LocationFilter.displayName = 'LocationFilter';
@@ -1,12 +1,21 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Doctor } from '../types';
+import { RecentSearch, SearchSuggestion, SuggestionCategory } from '../types';
 import { PlaceholderIcon } from './common/PlaceholderIcon';
+import { HighlightedText } from './common/HighlightedText';
+import { getHighlightRanges } from '../utils/doctorSearch';
+import { describeFilterState } from '../utils/filterState';
 
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
     faStethoscope,
     faMagnifyingGlass,
-    faChevronRight
+    faChevronRight,
+    faUserDoctor,       // Used for Specialty suggestions
+    faHospital,         // Used for Clinic suggestions
+    faMapMarkerAlt,     // Used for Locality suggestions
+    faClockRotateLeft,  // Used for Recent searches
+    faHeart,            // Used for the Shortlist button
+    faXmark
 } from '@fortawesome/free-solid-svg-icons';
 
 interface NavbarProps {
@@ -16,12 +25,45 @@ interface NavbarProps {
   onSearchChange: (term: string) => void;
   /** Callback function when a search is submitted (Enter or suggestion click) */
   onSearchSubmit: (term: string) => void;
-  /** Array of doctor suggestions based on the debounced search term */
-  suggestions: Doctor[];
+  /** Grouped suggestions (doctors, specialties, clinics, localities) in display order */
+  suggestions: SearchSuggestion[];
+  /** Callback when a suggestion is picked; the parent applies it according to its category */
+  onSuggestionSelect: (suggestion: SearchSuggestion) => void;
+  /** Recent searches, shown in the dropdown while the input is empty */
+  recentSearches: RecentSearch[];
+  /** Callback when a recent search is picked; the parent re-applies its filters */
+  onRecentSearchSelect: (search: RecentSearch) => void;
+  /** Callback to forget one recent search */
+  onRecentSearchRemove: (id: string) => void;
+  /** Callback to forget all recent searches */
+  onClearRecentSearches: () => void;
+  /** Number of shortlisted doctors, shown on the shortlist button */
+  shortlistCount?: number;
+  /** Callback to open the shortlist drawer; the button is hidden without it */
+  onShortlistOpen?: () => void;
 }
 
 const DEBOUNCE_DELAY = 300; // milliseconds
 
+// Group headings and icons for the non-doctor suggestion categories
+const CATEGORY_LABELS: Record<SuggestionCategory, string> = {
+  doctor: 'Doctors',
+  specialty: 'Specialties',
+  clinic: 'Clinics',
+  locality: 'Localities',
+};
+const CATEGORY_ICONS = {
+  specialty: faUserDoctor,
+  clinic: faHospital,
+  locality: faMapMarkerAlt,
+};
+// Hint shown next to facet suggestions describing what picking them does
+const CATEGORY_ACTIONS = {
+  specialty: 'Filter by specialty',
+  clinic: 'Search this clinic',
+  locality: 'Filter by locality',
+};
+
 /**
  * Application Navbar component featuring a title and a debounced autocomplete search bar
  * for finding doctors. Uses Font Awesome for icons and Tailwind CSS for styling.
@@ -31,6 +73,13 @@ export const Navbar: React.FC<NavbarProps> = ({
   onSearchChange, // This updates the debounced value in the parent
   onSearchSubmit,
   suggestions,
+  onSuggestionSelect,
+  recentSearches,
+  onRecentSearchSelect,
+  onRecentSearchRemove,
+  onClearRecentSearches,
+  shortlistCount = 0,
+  onShortlistOpen,
 }) => {
   // Local state to hold the immediate value of the input field
   const [localSearchTerm, setLocalSearchTerm] = useState<string>(searchTerm);
@@ -42,6 +91,10 @@ export const Navbar: React.FC<NavbarProps> = ({
   // Ref to store the debounce timer ID
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+  // With an empty input the dropdown lists recent searches instead of suggestions
+  const isShowingRecent = localSearchTerm.trim().length === 0;
+  const optionCount = isShowingRecent ? recentSearches.length : suggestions.length;
+
   // Effect to sync local input value if the parent's debounced term changes
   // (e.g., due to filter clear or direct submission)
   useEffect(() => {
@@ -92,27 +145,49 @@ export const Navbar: React.FC<NavbarProps> = ({
 
     // Show/hide suggestions based on the *immediate* local value
     // Note: The `suggestions` prop will update based on the parent's debounced `searchTerm`
-    setShowSuggestions(value.length > 0); // Show if input has text, even if suggestions haven't loaded yet
+    // Show if input has text (even if suggestions haven't loaded yet), or recent searches once cleared
+    setShowSuggestions(value.length > 0 || recentSearches.length > 0);
   };
   // --- End Debounced Input Handler ---
 
-  // Handler for clicking a suggestion item - submits search immediately
-  const handleSuggestionClick = useCallback((doctorName: string) => {
+  // Handler for clicking a suggestion item - applies it immediately
+  const handleSuggestionClick = useCallback((suggestion: SearchSuggestion) => {
     // Clear any pending debounce timer as we are submitting directly
     if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
     }
-    setLocalSearchTerm(doctorName); // Update local input visually
-    onSearchSubmit(doctorName); // Submit immediately to parent
+    // Doctors and clinics become the search term; specialty/locality filters clear it
+    const appliesAsSearch = suggestion.category === 'doctor' || suggestion.category === 'clinic';
+    setLocalSearchTerm(appliesAsSearch ? suggestion.label : ''); // Update local input visually
+    onSuggestionSelect(suggestion); // Apply immediately in the parent
+    setShowSuggestions(false);
+    setActiveSuggestionIndex(-1);
+    inputRef.current?.blur();
+  }, [onSuggestionSelect]);
+
+  // Handler for picking a recent search - re-applies its whole filter combination
+  const handleRecentSearchClick = useCallback((search: RecentSearch) => {
+    if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+    }
+    setLocalSearchTerm(search.filters.searchTerm);
+    onRecentSearchSelect(search);
     setShowSuggestions(false);
     setActiveSuggestionIndex(-1);
     inputRef.current?.blur();
-  }, [onSearchSubmit]);
+  }, [onRecentSearchSelect]);
+
+  // Handler for the remove button on a recent search (keeps the dropdown open)
+  const handleRecentSearchRemove = (event: React.MouseEvent, id: string) => {
+    event.stopPropagation();
+    onRecentSearchRemove(id);
+    setActiveSuggestionIndex(-1);
+  };
 
   // Handler for keyboard interactions
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
     // Handle Enter press even when suggestions aren't visible (direct search)
-    if (event.key === 'Enter' && (!showSuggestions || suggestions.length === 0 || activeSuggestionIndex === -1)) {
+    if (event.key === 'Enter' && (!showSuggestions || optionCount === 0 || activeSuggestionIndex === -1)) {
         event.preventDefault();
         // Clear any pending debounce timer
         if (debounceTimerRef.current) {
@@ -125,21 +200,22 @@ export const Navbar: React.FC<NavbarProps> = ({
     }
 
     // Handle navigation/selection only if suggestions are visible
-    if (showSuggestions && suggestions.length > 0) {
+    if (showSuggestions && optionCount > 0) {
         switch (event.key) {
             case 'Enter':
                 event.preventDefault();
-                if (activeSuggestionIndex >= 0 && activeSuggestionIndex < suggestions.length) {
-                handleSuggestionClick(suggestions[activeSuggestionIndex].name);
+                if (activeSuggestionIndex >= 0 && activeSuggestionIndex < optionCount) {
+                  if (isShowingRecent) handleRecentSearchClick(recentSearches[activeSuggestionIndex]);
+                  else handleSuggestionClick(suggestions[activeSuggestionIndex]);
                 }
                 break;
             case 'ArrowUp':
                 event.preventDefault();
-                setActiveSuggestionIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+                setActiveSuggestionIndex(prev => (prev <= 0 ? optionCount - 1 : prev - 1));
                 break;
             case 'ArrowDown':
                 event.preventDefault();
-                setActiveSuggestionIndex(prev => (prev >= suggestions.length - 1 ? 0 : prev + 1));
+                setActiveSuggestionIndex(prev => (prev >= optionCount - 1 ? 0 : prev + 1));
                 break;
             case 'Escape':
                 setShowSuggestions(false);
@@ -154,24 +230,80 @@ export const Navbar: React.FC<NavbarProps> = ({
   // Handler to show suggestions on focus
   const handleInputFocus = () => {
     // Show suggestions if there's local text and the parent has provided suggestions
-    // (based on the possibly slightly delayed debounced term)
-    if (localSearchTerm.length > 0 && suggestions.length > 0) {
+    // (based on the possibly slightly delayed debounced term), or recent searches if empty
+    if (optionCount > 0) {
       setShowSuggestions(true);
     }
   };
 
-  // Effect to scroll the active suggestion into view
+  // Effect to scroll the active suggestion into view (looked up by id, since group headings
+  // are interleaved with the options)
   useEffect(() => {
     if (activeSuggestionIndex >= 0 && containerRef.current) {
-      const listElement = containerRef.current.querySelector('ul');
-      const activeItem = listElement?.children[activeSuggestionIndex] as HTMLLIElement | undefined;
+      const activeItem = containerRef.current.querySelector<HTMLLIElement>(`#suggestion-item-${activeSuggestionIndex}`);
       activeItem?.scrollIntoView?.({ block: 'nearest', behavior: 'smooth' });
     }
   }, [activeSuggestionIndex]);
 
+  /** Renders the inner content of a doctor suggestion (photo, name, specialty) */
+  const renderDoctorSuggestion = (suggestion: Extract<SearchSuggestion, { category: 'doctor' }>, isActive: boolean) => {
+    const { doctor, highlights } = suggestion.result;
+    // Prefer showing the specialty the query matched, if any
+    const specialty = doctor.specialityNames.find(name => getHighlightRanges(highlights, 'specialty', name))
+      ?? doctor.specialityNames[0];
+    return (
+      <>
+        {/* Doctor Photo/Placeholder */}
+        <div className="flex-shrink-0 w-10 h-10">
+          {doctor.photo && doctor.photo !== "null" ? (
+             <img
+                src={doctor.photo}
+                alt=""
+                className="w-full h-full rounded-lg object-cover border border-gray-200 shadow-sm"
+                onError={(e) => { e.currentTarget.style.display = 'none'; e.currentTarget.nextElementSibling?.classList.remove('hidden'); }}
+                loading="lazy"
+             />
+          ) : null}
+           <PlaceholderIcon
+              initials={doctor.initials}
+              className={`w-full h-full rounded-lg bg-gray-200 flex items-center justify-center text-gray-500 font-semibold text-sm flex-shrink-0 border border-gray-300 shadow-sm ${doctor.photo && doctor.photo !== "null" ? 'hidden' : ''}`}
+           />
+        </div>
+        {/* Doctor Name & Specialty */}
+        <div className="flex-grow overflow-hidden">
+           <span className={`font-medium text-sm block truncate ${isActive ? 'text-blue-800' : 'text-gray-800 group-hover:text-gray-900'}`}>
+              <HighlightedText text={doctor.name} ranges={getHighlightRanges(highlights, 'name', doctor.name)} />
+           </span>
+           <span className={`text-xs block truncate uppercase font-medium ${isActive ? 'text-blue-600' : 'text-gray-500 group-hover:text-gray-600'}`}>
+              {specialty ? (
+                <HighlightedText text={specialty} ranges={getHighlightRanges(highlights, 'specialty', specialty)} />
+              ) : 'SPECIALIST'}
+           </span>
+        </div>
+      </>
+    );
+  };
+
+  /** Renders the inner content of a specialty/clinic/locality suggestion */
+  const renderFacetSuggestion = (suggestion: Extract<SearchSuggestion, { category: 'specialty' | 'clinic' | 'locality' }>, isActive: boolean) => (
+    <>
+      <div className={`flex-shrink-0 w-10 h-10 rounded-lg flex items-center justify-center border ${isActive ? 'bg-blue-100 border-blue-200' : 'bg-gray-50 border-gray-200'}`}>
+        <FontAwesomeIcon icon={CATEGORY_ICONS[suggestion.category]} className={`w-4 h-4 ${isActive ? 'text-blue-600' : 'text-gray-400'}`} />
+      </div>
+      <div className="flex-grow overflow-hidden">
+        <span className={`font-medium text-sm block truncate ${isActive ? 'text-blue-800' : 'text-gray-800 group-hover:text-gray-900'}`}>
+          <HighlightedText text={suggestion.label} ranges={suggestion.ranges} />
+        </span>
+        <span className={`text-xs block truncate ${isActive ? 'text-blue-600' : 'text-gray-500 group-hover:text-gray-600'}`}>
+          {CATEGORY_ACTIONS[suggestion.category]} &middot; {suggestion.count} doctor{suggestion.count === 1 ? '' : 's'}
+        </span>
+      </div>
+    </>
+  );
+
 
   return (
-    <nav className="bg-white shadow-md p-4 sticky top-0 z-30 border-b border-gray-200">
+    <nav className="bg-white shadow-md p-4 sticky top-0 z-30 border-b border-gray-200 print:hidden">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 flex flex-col md:flex-row justify-between items-center gap-4">
         {/* Title with Icon */}
         <div className="flex items-center gap-3 text-blue-700"> 
@@ -191,7 +323,7 @@ export const Navbar: React.FC<NavbarProps> = ({
             <input
               ref={inputRef}
               type="text"
-              placeholder="Search by doctor name..."
+              placeholder="Search doctors, specialties, clinics..."
               // --- Bind value to local state ---
               value={localSearchTerm}
               // --- Use debounced handler ---
@@ -210,57 +342,116 @@ export const Navbar: React.FC<NavbarProps> = ({
 
           {/* Suggestions List */}
           {/* Suggestions visibility depends on local input, content depends on parent prop */}
-          {showSuggestions && suggestions.length > 0 && (
+          {showSuggestions && isShowingRecent && recentSearches.length > 0 && (
             <ul
               id="autocomplete-suggestions"
               className="absolute top-full left-0 right-0 mt-2 bg-white border border-gray-200 rounded-lg shadow-xl max-h-72 overflow-y-auto z-40 text-gray-800 divide-y divide-gray-100"
               role="listbox"
+              aria-label="Recent searches"
             >
-              {suggestions.map((doctor, index) => (
-                <li
-                  key={doctor.id}
-                  id={`suggestion-item-${index}`}
-                  onClick={() => handleSuggestionClick(doctor.name)}
-                  className={`px-4 py-3 cursor-pointer flex items-center gap-4 transition-colors duration-150 group ${index === activeSuggestionIndex ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
-                  data-testid="suggestion-item"
-                  role="option"
-                  aria-selected={index === activeSuggestionIndex}
+              <li role="presentation" className="px-4 pt-2.5 pb-1.5 flex items-center justify-between text-[11px] font-semibold uppercase tracking-wide text-gray-400 bg-gray-50/80">
+                <span>Recent searches</span>
+                <button
+                  type="button"
+                  onClick={onClearRecentSearches}
+                  className="normal-case tracking-normal font-medium text-blue-600 hover:text-blue-800 hover:underline focus:outline-none"
+                  data-testid="clear-recent-searches"
                 >
-                  {/* Doctor Photo/Placeholder */}
-                  <div className="flex-shrink-0 w-10 h-10">
-                    {doctor.photo && doctor.photo !== "null" ? (
-                       <img
-                          src={doctor.photo}
-                          alt=""
-                          className="w-full h-full rounded-lg object-cover border border-gray-200 shadow-sm"
-                          onError={(e) => { e.currentTarget.style.display = 'none'; e.currentTarget.nextElementSibling?.classList.remove('hidden'); }}
-                          loading="lazy"
-                       />
-                    ) : null}
-                     <PlaceholderIcon
-                        initials={doctor.initials}
-                        className={`w-full h-full rounded-lg bg-gray-200 flex items-center justify-center text-gray-500 font-semibold text-sm flex-shrink-0 border border-gray-300 shadow-sm ${doctor.photo && doctor.photo !== "null" ? 'hidden' : ''}`}
+                  Clear
+                </button>
+              </li>
+              {recentSearches.map((search, index) => {
+                const isActive = index === activeSuggestionIndex;
+                const description = describeFilterState(search.filters);
+                return (
+                  <li
+                    key={search.id}
+                    id={`suggestion-item-${index}`}
+                    onClick={() => handleRecentSearchClick(search)}
+                    className={`px-4 py-3 cursor-pointer flex items-center gap-4 transition-colors duration-150 group ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                    data-testid="recent-search-item"
+                    role="option"
+                    aria-selected={isActive}
+                  >
+                    <div className={`flex-shrink-0 w-10 h-10 rounded-lg flex items-center justify-center border ${isActive ? 'bg-blue-100 border-blue-200' : 'bg-gray-50 border-gray-200'}`}>
+                      <FontAwesomeIcon icon={faClockRotateLeft} className={`w-4 h-4 ${isActive ? 'text-blue-600' : 'text-gray-400'}`} />
+                    </div>
+                    <span className={`flex-grow text-sm truncate ${isActive ? 'text-blue-800' : 'text-gray-800 group-hover:text-gray-900'}`} title={description}>
+                      {description}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={(event) => handleRecentSearchRemove(event, search.id)}
+                      className="flex-shrink-0 ml-auto p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-300"
+                      aria-label={`Remove recent search ${description}`}
+                      data-testid="remove-recent-search"
+                    >
+                      <FontAwesomeIcon icon={faXmark} className="w-3 h-3" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {showSuggestions && !isShowingRecent && suggestions.length > 0 && (
+            <ul
+              id="autocomplete-suggestions"
+              className="absolute top-full left-0 right-0 mt-2 bg-white border border-gray-200 rounded-lg shadow-xl max-h-72 overflow-y-auto z-40 text-gray-800 divide-y divide-gray-100"
+              role="listbox"
+            >
+              {suggestions.map((suggestion, index) => {
+                const isActive = index === activeSuggestionIndex;
+                // Start a new group whenever the category changes
+                const startsGroup = index === 0 || suggestions[index - 1].category !== suggestion.category;
+                return (
+                <React.Fragment key={suggestion.key}>
+                  {startsGroup && (
+                    <li role="presentation" className="px-4 pt-2.5 pb-1.5 text-[11px] font-semibold uppercase tracking-wide text-gray-400 bg-gray-50/80">
+                      {CATEGORY_LABELS[suggestion.category]}
+                    </li>
+                  )}
+                  <li
+                    id={`suggestion-item-${index}`}
+                    onClick={() => handleSuggestionClick(suggestion)}
+                    className={`px-4 py-3 cursor-pointer flex items-center gap-4 transition-colors duration-150 group ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                    // Doctor rows keep the original test id; other groups get a category-specific one
+                    data-testid={suggestion.category === 'doctor' ? 'suggestion-item' : `suggestion-item-${suggestion.category}`}
+                    role="option"
+                    aria-selected={isActive}
+                  >
+                    {suggestion.category === 'doctor'
+                      ? renderDoctorSuggestion(suggestion, isActive)
+                      : renderFacetSuggestion(suggestion, isActive)}
+                    {/* Chevron Icon */}
+                     <FontAwesomeIcon
+                       icon={faChevronRight}
+                       className={`w-3 h-3 flex-shrink-0 ml-auto transition-colors duration-150 ${isActive ? 'text-blue-600' : 'text-gray-400 group-hover:text-gray-500'}`}
                      />
-                  </div>
-                  {/* Doctor Name & Specialty */}
-                  <div className="flex-grow overflow-hidden">
-                     <span className={`font-medium text-sm block truncate ${index === activeSuggestionIndex ? 'text-blue-800' : 'text-gray-800 group-hover:text-gray-900'}`}>
-                        {doctor.name}
-                     </span>
-                     <span className={`text-xs block truncate uppercase font-medium ${index === activeSuggestionIndex ? 'text-blue-600' : 'text-gray-500 group-hover:text-gray-600'}`}>
-                        {doctor.specialityNames?.[0] || 'SPECIALIST'}
-                     </span>
-                  </div>
-                  {/* Chevron Icon */}
-                   <FontAwesomeIcon
-                     icon={faChevronRight}
-                     className={`w-3 h-3 flex-shrink-0 ml-auto transition-colors duration-150 ${index === activeSuggestionIndex ? 'text-blue-600' : 'text-gray-400 group-hover:text-gray-500'}`}
-                   />
-                </li>
-              ))}
+                  </li>
+                </React.Fragment>
+                );
+              })}
             </ul>
           )}
         </div>
+
+        {/* Shortlist button with the number of shortlisted doctors */}
+        {onShortlistOpen && (
+          <button
+              onClick={onShortlistOpen}
+              className="relative inline-flex items-center gap-2 px-3.5 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-rose-50 hover:border-rose-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 transition-colors"
+              aria-label={`Shortlist, ${shortlistCount} doctor${shortlistCount === 1 ? '' : 's'}`}
+              data-testid="shortlist-button"
+          >
+            <FontAwesomeIcon icon={faHeart} className={`w-4 h-4 ${shortlistCount > 0 ? 'text-rose-500' : 'text-gray-400'}`} />
+            Shortlist
+            {shortlistCount > 0 && (
+              <span className="min-w-[1.25rem] px-1.5 py-0.5 text-xs font-semibold text-white bg-rose-500 rounded-full tabular-nums" data-testid="shortlist-count">
+                {shortlistCount}
+              </span>
+            )}
+          </button>
+        )}
       </div>
     </nav>
   );
@@ -0,0 +1,30 @@
+// src/components/OfflineBanner.tsx
+
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faWifi } from '@fortawesome/free-solid-svg-icons';
+
+/**
+ * Strip below the Navbar shown while the browser is offline. The loaded (or cached)
+ * doctors can still be searched, filtered and sorted; booking and refreshing cannot.
+ */
+const OfflineBannerComponent: React.FC = () => (
+  <div
+      role="status"
+      className="bg-gray-800 text-gray-100 text-sm print:hidden"
+      data-testid="offline-banner"
+  >
+    <div className="container mx-auto px-4 lg:px-8 py-2 flex items-center gap-2">
+      <FontAwesomeIcon icon={faWifi} className="w-4 h-4 text-amber-300 flex-shrink-0" />
+      <p>
+        <span className="font-semibold">You're offline.</span>{' '}
+        Search, filters and sorting still work on the doctors saved on this device; booking and refreshing need a connection.
+      </p>
+    </div>
+  </div>
+);
+
+// Memoize the component for performance optimization
+export const OfflineBanner = React.memo(OfflineBannerComponent);
+// Set display name for better debugging
+OfflineBanner.displayName = 'OfflineBanner';
@@ -0,0 +1,144 @@
+// src/components/PrintableResultsPage.tsx
+
+import React, { useEffect } from 'react';
+import { Doctor, NextAvailableSlot } from '../types';
+import { Spinner } from './Spinner';
+import { formatDistance } from '../utils/geo';
+import { formatDayAndTime } from '../utils/dateTime';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faArrowLeft, faPrint } from '@fortawesome/free-solid-svg-icons';
+
+interface PrintableResultsPageProps {
+  /** The filtered and sorted doctors */
+  doctors: Doctor[];
+  /** The filters in words (e.g. "Dentist · in Bangalore") */
+  summary: string;
+  /** Whether the list is still being loaded */
+  isListLoading: boolean;
+  /** False while a paged source hasn't loaded every matching doctor yet */
+  isComplete: boolean;
+  /** Distance in km from the reference point per doctor id */
+  distances?: ReadonlyMap<string, number>;
+  /** Earliest free slot per doctor id */
+  nextAvailableSlots?: ReadonlyMap<string, NextAvailableSlot>;
+  /** Callback to return to the results */
+  onBack: () => void;
+}
+
+/**
+ * Print-friendly version of the results (`/print`), for printing or "Save as PDF": a plain,
+ * single-column list with the fields of each DoctorCard and no photos or controls. The
+ * navbar, buttons and other screen-only chrome are hidden when printing.
+ */
+const PrintableResultsPageComponent: React.FC<PrintableResultsPageProps> = ({
+  doctors,
+  summary,
+  isListLoading,
+  isComplete,
+  distances,
+  nextAvailableSlots,
+  onBack,
+}) => {
+  // Effect to name the browser tab (also the default file name when saving as PDF)
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = 'Doctor Finder results';
+    return () => { document.title = previousTitle; };
+  }, []);
+
+  const backButton = (
+    <button
+        onClick={onBack}
+        className="inline-flex items-center gap-2 text-sm font-medium text-blue-700 hover:text-blue-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded print:hidden"
+        data-testid="back-to-results"
+    >
+      <FontAwesomeIcon icon={faArrowLeft} className="w-3.5 h-3.5" />
+      Back to results
+    </button>
+  );
+
+  if (isListLoading && doctors.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 p-10">
+        <Spinner className="w-12 h-12 text-blue-600" />
+        <p className="text-gray-500">Loading doctors…</p>
+      </div>
+    );
+  }
+
+  return (
+    <article className="p-5 md:p-8 lg:p-10 print:p-0 text-gray-800" aria-labelledby="print-title" data-testid="printable-results">
+      {/* --- Header --- */}
+      <header className="mb-6 print:mb-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4 print:hidden">
+          {backButton}
+          <button
+              onClick={() => window.print()}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500"
+              data-testid="print-results"
+          >
+            <FontAwesomeIcon icon={faPrint} className="w-4 h-4" />
+            Print or save as PDF
+          </button>
+        </div>
+        <h1 id="print-title" className="text-2xl font-bold">Doctor Finder results</h1>
+        <p className="text-sm text-gray-600">{summary}</p>
+        <p className="text-xs text-gray-500 mt-1">
+          {doctors.length} doctor{doctors.length === 1 ? '' : 's'} · {new Date().toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+        </p>
+        {!isComplete && (
+          <p role="status" className="mt-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2" data-testid="print-incomplete">
+            Only the doctors loaded so far are listed; more may match these filters.
+          </p>
+        )}
+      </header>
+
+      {doctors.length === 0 ? (
+        <p className="text-gray-500">No doctors match these filters.</p>
+      ) : (
+        <ol className="divide-y divide-gray-200 border-y border-gray-200">
+          {doctors.map((doctor, index) => {
+            const distanceKm = distances?.get(doctor.id);
+            const nextAvailable = nextAvailableSlots?.get(doctor.id);
+            // Label/value pairs in DoctorCard order; empty values are skipped
+            const details: [string, string | undefined][] = [
+              ['Experience', `${doctor.parsedExperience} years`],
+              ['Fees', doctor.parsedFees === Infinity ? 'N/A' : `₹ ${doctor.parsedFees}`],
+              ['Clinic', doctor.clinicName],
+              ['Address', doctor.address?.addressLine1],
+              ['Locality', doctor.address?.locality],
+              ['Distance', distanceKm !== undefined ? `${formatDistance(distanceKm)} away` : undefined],
+              ['City', doctor.address?.city],
+              ['Modes', doctor.consultationModes.join(', ') || 'N/A'],
+              ['Languages', doctor.languages?.join(', ') || 'N/A'],
+              ['Next available', nextAvailable ? `${formatDayAndTime(new Date(nextAvailable.start))} · ${nextAvailable.mode}` : undefined],
+            ];
+            return (
+              <li key={doctor.id} className="py-4 break-inside-avoid" data-testid="printable-doctor">
+                <h2 className="text-base font-semibold">
+                  {index + 1}. {doctor.name}
+                </h2>
+                <p className="text-sm text-blue-700 print:text-gray-700 mb-2">{doctor.specialityNames.join(', ') || 'N/A'}</p>
+                <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-0.5 text-sm">
+                  {details.filter(([, value]) => value).map(([label, value]) => (
+                    <React.Fragment key={label}>
+                      <dt className="text-gray-500">{label}</dt>
+                      <dd>{value}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+                {doctor.introduction && <p className="mt-2 text-xs text-gray-600">{doctor.introduction}</p>}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </article>
+  );
+};
+
+// Wrap the component export with React.memo
+export const PrintableResultsPage = React.memo(PrintableResultsPageComponent);
+
+// Add display name for better debugging
+PrintableResultsPage.displayName = 'PrintableResultsPage';
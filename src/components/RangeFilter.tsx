@@ -0,0 +1,213 @@
+// src/components/RangeFilter.tsx
+
+import React, { useState, useEffect } from 'react';
+import { NumericBounds, NumericRange } from '../types';
+import { describeRange } from '../utils/filterState';
+
+interface RangeFilterProps {
+  /** Short identifier used for element ids and data-testid attributes (e.g. "fee") */
+  id: string;
+  /** Section heading */
+  label: string;
+  /** Limits of the sliders, derived from the loaded data; null disables the filter */
+  bounds: NumericBounds | null;
+  /** The applied range (null ends are unbounded) */
+  value: NumericRange;
+  /** Slider step */
+  step?: number;
+  /** Formats a value for display (e.g. "₹500", "5 yrs") */
+  formatValue: (value: number) => string;
+  /** Text shown when `bounds` is null */
+  unavailableMessage?: string;
+  /** Callback with the new range; ends at the data bounds are reported as null (unbounded) */
+  onChange: (range: NumericRange) => void;
+}
+
+/**
+ * Dual-handle range slider with numeric inputs for min/max filters.
+ * The sliders are two overlaid native range inputs (only their thumbs take pointer events,
+ * see `.range-dual` in index.css), so keyboard and screen-reader support come for free.
+ * Moving a handle to the end of the data's range clears that end, so doctors added
+ * later with higher/lower values are not silently excluded.
+ */
+const RangeFilterComponent: React.FC<RangeFilterProps> = ({
+  id,
+  label,
+  bounds,
+  value,
+  step = 1,
+  formatValue,
+  unavailableMessage = 'No data available',
+  onChange,
+}) => {
+  // Drafts for the numeric inputs, committed on blur or Enter so typing doesn't refilter per keystroke
+  const [minDraft, setMinDraft] = useState(value.min === null ? '' : String(value.min));
+  const [maxDraft, setMaxDraft] = useState(value.max === null ? '' : String(value.max));
+
+  // Effect to keep the drafts in sync when the range changes elsewhere (sliders, URL, clear all)
+  useEffect(() => {
+    setMinDraft(value.min === null ? '' : String(value.min));
+    setMaxDraft(value.max === null ? '' : String(value.max));
+  }, [value.min, value.max]);
+
+  const headingId = `filter-header-${id}`;
+
+  if (!bounds) {
+    return (
+      <section aria-labelledby={headingId}>
+        <h4 id={headingId} data-testid={headingId} className="text-sm font-semibold mb-3 text-gray-700 uppercase tracking-wide">{label}</h4>
+        <p className="text-xs text-gray-500">{unavailableMessage}</p>
+      </section>
+    );
+  }
+
+  const isFixed = bounds.min === bounds.max;
+  // Slider positions, clamped into the data bounds (URL values may lie outside them)
+  const low = Math.min(Math.max(value.min ?? bounds.min, bounds.min), bounds.max);
+  const high = Math.max(Math.min(value.max ?? bounds.max, bounds.max), low);
+  const span = bounds.max - bounds.min || 1;
+  const lowPercent = ((low - bounds.min) / span) * 100;
+  const highPercent = ((high - bounds.min) / span) * 100;
+
+  /** Reports a range, treating ends at (or beyond) the data bounds as unbounded */
+  const emit = (min: number | null, max: number | null) => {
+    onChange({
+      min: min === null || min <= bounds.min ? null : min,
+      max: max === null || max >= bounds.max ? null : max,
+    });
+  };
+
+  const handleLowSlider = (event: React.ChangeEvent<HTMLInputElement>) => {
+    emit(Math.min(Number(event.target.value), high), value.max);
+  };
+
+  const handleHighSlider = (event: React.ChangeEvent<HTMLInputElement>) => {
+    emit(value.min, Math.max(Number(event.target.value), low));
+  };
+
+  /** Commits the typed values; blank or invalid input clears that end */
+  const commitDrafts = () => {
+    const parse = (draft: string): number | null => {
+      const parsed = Number(draft.trim());
+      return draft.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+    };
+    let min = parse(minDraft);
+    let max = parse(maxDraft);
+    if (min !== null && max !== null && min > max) [min, max] = [max, min];
+    emit(min, max);
+    // Re-sync drafts in case the values were normalized to unbounded
+    setMinDraft(min === null || min <= bounds.min ? '' : String(min));
+    setMaxDraft(max === null || max >= bounds.max ? '' : String(max));
+  };
+
+  const handleDraftKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      commitDrafts();
+    }
+  };
+
+  const isActive = value.min !== null || value.max !== null;
+  const inputClass = "w-full min-w-0 px-2.5 py-1.5 text-sm border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400";
+
+  return (
+    <section aria-labelledby={headingId}>
+      <div className="flex items-baseline justify-between mb-3">
+        <h4 id={headingId} data-testid={headingId} className="text-sm font-semibold text-gray-700 uppercase tracking-wide">{label}</h4>
+        {isActive ? (
+          <button
+              onClick={() => onChange({ min: null, max: null })}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800 hover:underline focus:outline-none"
+              data-testid={`reset-${id}-range`}
+          >
+            Reset
+          </button>
+        ) : (
+          <span className="text-xs text-gray-500">Any</span>
+        )}
+      </div>
+
+      {/* Dual-handle slider */}
+      <div className="relative h-5 mb-2">
+        {/* Track and selected segment */}
+        <div className="absolute top-1/2 left-0 right-0 h-1.5 -translate-y-1/2 rounded-full bg-gray-200" />
+        <div
+            className="absolute top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-blue-500"
+            style={{ left: `${lowPercent}%`, right: `${100 - highPercent}%` }}
+        />
+        <input
+            type="range"
+            min={bounds.min}
+            max={bounds.max}
+            step={step}
+            value={low}
+            onChange={handleLowSlider}
+            disabled={isFixed}
+            className="range-dual absolute inset-0 w-full"
+            // Keep the low handle reachable when both handles meet at the top end
+            style={{ zIndex: low >= bounds.max - step ? 3 : 2 }}
+            aria-label={`Minimum ${label.toLowerCase()}`}
+            aria-valuetext={formatValue(low)}
+            data-testid={`${id}-min-slider`}
+        />
+        <input
+            type="range"
+            min={bounds.min}
+            max={bounds.max}
+            step={step}
+            value={high}
+            onChange={handleHighSlider}
+            disabled={isFixed}
+            className="range-dual absolute inset-0 w-full"
+            style={{ zIndex: 2 }}
+            aria-label={`Maximum ${label.toLowerCase()}`}
+            aria-valuetext={formatValue(high)}
+            data-testid={`${id}-max-slider`}
+        />
+      </div>
+      <div className="flex justify-between text-[11px] text-gray-500 mb-3">
+        <span>{formatValue(bounds.min)}</span>
+        <span className="font-medium text-gray-700">{describeRange({ min: low, max: high }, formatValue)}</span>
+        <span>{formatValue(bounds.max)}</span>
+      </div>
+
+      {/* Numeric inputs */}
+      <div className="flex items-center gap-2">
+        <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            step={step}
+            value={minDraft}
+            placeholder={String(bounds.min)}
+            onChange={(event) => setMinDraft(event.target.value)}
+            onBlur={commitDrafts}
+            onKeyDown={handleDraftKeyDown}
+            className={inputClass}
+            aria-label={`Minimum ${label.toLowerCase()} value`}
+            data-testid={`${id}-min-input`}
+        />
+        <span className="text-gray-400 text-sm" aria-hidden="true">–</span>
+        <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            step={step}
+            value={maxDraft}
+            placeholder={String(bounds.max)}
+            onChange={(event) => setMaxDraft(event.target.value)}
+            onBlur={commitDrafts}
+            onKeyDown={handleDraftKeyDown}
+            className={inputClass}
+            aria-label={`Maximum ${label.toLowerCase()} value`}
+            data-testid={`${id}-max-input`}
+        />
+      </div>
+    </section>
+  );
+};
+
+// Memoize the component for performance optimization
+export const RangeFilter = React.memo(RangeFilterComponent);
+// Set display name for better debugging
+RangeFilter.displayName = 'RangeFilter';
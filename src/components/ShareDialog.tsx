@@ -0,0 +1,188 @@
+// src/components/ShareDialog.tsx
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { QrCode } from '../types';
+import { encodeQrCode } from '../utils/qrCode';
+import { QrCodeImage } from './common/QrCodeImage';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCheck, faLink, faShareNodes, faXmark } from '@fortawesome/free-solid-svg-icons';
+
+// How long the "Link copied" confirmation stays visible
+const COPIED_FEEDBACK_MS = 2000;
+
+interface ShareDialogProps {
+  /** Link that reproduces the current results */
+  shareUrl: string;
+  /** The shared filters in words (e.g. "Dentist · in Bangalore") */
+  summary: string;
+  /** Whether a reference point from the user's own position was left out of the link */
+  omitsOwnLocation?: boolean;
+  /** Callback to close the dialog */
+  onClose: () => void;
+}
+
+/**
+ * Dialog for handing the current results to someone else: the short link (copy, or the
+ * native share sheet where available) and a QR code of it for a phone to scan.
+ * Rendered into document.body so it isn't affected by the page layout.
+ */
+const ShareDialogComponent: React.FC<ShareDialogProps> = ({ shareUrl, summary, omitsOwnLocation = false, onClose }) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const canUseShareSheet = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+  // The QR code; null when the link is too long to encode
+  const qrCode = useMemo((): QrCode | null => {
+    try {
+      return encodeQrCode(shareUrl);
+    } catch (e) {
+      console.warn('Could not create a QR code for the share link:', e);
+      return null;
+    }
+  }, [shareUrl]);
+
+  // Effect to move focus into the dialog and stop the page behind it from scrolling
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    panelRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      previousFocus?.focus?.();
+    };
+  }, []);
+
+  // Effect to close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Effect to hide the "Link copied" confirmation again
+  useEffect(() => {
+    if (!isLinkCopied) return;
+    const timer = setTimeout(() => setIsLinkCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [isLinkCopied]);
+
+  /** Copies the link; where clipboard access is unavailable the text field is selected instead */
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setIsLinkCopied(true);
+    } catch (e) {
+      console.warn('Could not copy the share link:', e);
+      const input = panelRef.current?.querySelector<HTMLInputElement>('#share-link-input');
+      input?.focus();
+      input?.select();
+    }
+  };
+
+  /** Opens the device's share sheet (cancelling it is not an error) */
+  const handleNativeShare = () => {
+    navigator.share({ title: 'Doctor Finder', text: summary, url: shareUrl }).catch(() => undefined);
+  };
+
+  return createPortal(
+    <div
+        className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-gray-900/50 p-0 sm:p-4"
+        onMouseDown={(event) => { if (event.target === event.currentTarget) onClose(); }}
+    >
+      <div
+          ref={panelRef}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="share-dialog-title"
+          tabIndex={-1}
+          className="w-full sm:max-w-md max-h-[92vh] flex flex-col bg-white rounded-t-xl sm:rounded-xl shadow-2xl focus:outline-none"
+          data-testid="share-dialog"
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 px-5 pt-5 pb-3 border-b border-gray-100">
+          <div className="min-w-0">
+            <h2 id="share-dialog-title" className="text-lg font-semibold text-gray-800">Share these results</h2>
+            <p className="text-sm text-gray-500 truncate" title={summary}>{summary}</p>
+          </div>
+          <button
+              onClick={onClose}
+              className="p-1.5 text-gray-400 rounded-md hover:text-gray-700 hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              aria-label="Close sharing"
+          >
+            <FontAwesomeIcon icon={faXmark} className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-grow overflow-y-auto px-5 py-4 space-y-4 custom-scrollbar">
+          <div>
+            <label htmlFor="share-link-input" className="block text-sm font-medium text-gray-700 mb-1">Link</label>
+            <div className="flex gap-2">
+              <input
+                  id="share-link-input"
+                  type="text"
+                  readOnly
+                  value={shareUrl}
+                  onFocus={(event) => event.currentTarget.select()}
+                  className="flex-grow min-w-0 px-3 py-2 text-sm text-gray-700 bg-gray-50 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  data-testid="share-link"
+              />
+              <button
+                  onClick={handleCopyLink}
+                  className="inline-flex flex-shrink-0 items-center gap-2 px-3.5 py-2 text-sm font-medium text-white bg-blue-600 rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500"
+                  data-testid="copy-share-link"
+              >
+                <FontAwesomeIcon icon={isLinkCopied ? faCheck : faLink} className="w-3.5 h-3.5" />
+                <span aria-live="polite">{isLinkCopied ? 'Copied' : 'Copy'}</span>
+              </button>
+            </div>
+            {omitsOwnLocation && (
+              <p className="mt-2 text-xs text-gray-500" data-testid="share-location-note">
+                Your location isn't included, so distances aren't part of the shared results.
+              </p>
+            )}
+          </div>
+
+          {/* QR code, for opening the results on a phone */}
+          <div className="flex flex-col items-center gap-2 pt-2">
+            {qrCode ? (
+              <>
+                <QrCodeImage qrCode={qrCode} title="QR code of the share link" className="w-52 h-52 border border-gray-200 rounded-md" />
+                <p className="text-xs text-gray-500">Scan with a phone camera to open these results.</p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500" data-testid="share-qr-unavailable">
+                This link is too long for a QR code. Copy it instead.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        {canUseShareSheet && (
+          <div className="px-5 py-4 border-t border-gray-100">
+            <button
+                onClick={handleNativeShare}
+                className="w-full inline-flex justify-center items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                data-testid="native-share"
+            >
+              <FontAwesomeIcon icon={faShareNodes} className="w-3.5 h-3.5" />
+              Share via…
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+// Wrap the component export with React.memo
+export const ShareDialog = React.memo(ShareDialogComponent);
+
+// Add display name for better debugging
+ShareDialog.displayName = 'ShareDialog';
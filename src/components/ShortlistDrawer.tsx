@@ -0,0 +1,201 @@
+// src/components/ShortlistDrawer.tsx
+
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Link } from 'react-router-dom';
+import { Doctor, ShortlistItem } from '../types';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCalendarCheck, faHeart, faTriangleExclamation, faXmark } from '@fortawesome/free-solid-svg-icons';
+
+interface ShortlistDrawerProps {
+  /** Shortlist entries matched against the latest data */
+  items: ShortlistItem[];
+  /** Callback to close the drawer */
+  onClose: () => void;
+  /** Callback to take a doctor off the shortlist */
+  onRemove: (doctorId: string) => void;
+  /** Callback to empty the shortlist */
+  onClear: () => void;
+  /** Callback to show only the shortlisted doctors in the results */
+  onShowInResults: () => void;
+  /** Callback to start booking an appointment with a doctor */
+  onBook?: (doctor: Doctor) => void;
+}
+
+/**
+ * Side drawer listing the shortlisted doctors, opened from the Navbar. Entries whose
+ * doctor no longer exists in the latest data are kept (with their saved name) and
+ * flagged, so the user decides when to drop them.
+ * Rendered into document.body so it isn't affected by the page layout.
+ */
+const ShortlistDrawerComponent: React.FC<ShortlistDrawerProps> = ({ items, onClose, onRemove, onClear, onShowInResults, onBook }) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const staleItems = items.filter(item => item.isStale);
+
+  // Effect to move focus into the drawer and stop the page behind it from scrolling
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    panelRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      previousFocus?.focus?.();
+    };
+  }, []);
+
+  // Effect to close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  /** Drops every entry whose doctor no longer exists */
+  const handleRemoveStale = () => {
+    staleItems.forEach(item => onRemove(item.entry.doctorId));
+  };
+
+  return createPortal(
+    <div
+        className="fixed inset-0 z-50 flex justify-end bg-gray-900/50"
+        onMouseDown={(event) => { if (event.target === event.currentTarget) onClose(); }}
+    >
+      <div
+          ref={panelRef}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="shortlist-drawer-title"
+          tabIndex={-1}
+          className="w-full max-w-sm h-full flex flex-col bg-white shadow-2xl focus:outline-none"
+          data-testid="shortlist-drawer"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 px-5 py-4 border-b border-gray-100">
+          <h2 id="shortlist-drawer-title" className="flex items-center gap-2 text-lg font-semibold text-gray-800">
+            <FontAwesomeIcon icon={faHeart} className="w-4 h-4 text-rose-500" />
+            Shortlist
+            <span className="text-sm font-normal text-gray-500">({items.length})</span>
+          </h2>
+          <button
+              onClick={onClose}
+              className="p-1.5 text-gray-400 rounded-md hover:text-gray-700 hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              aria-label="Close shortlist"
+          >
+            <FontAwesomeIcon icon={faXmark} className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-grow overflow-y-auto px-5 py-4 custom-scrollbar">
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-10" data-testid="shortlist-empty">
+              No doctors shortlisted yet. Tap the heart on a doctor's card to keep them here.
+            </p>
+          ) : (
+            <>
+              {staleItems.length > 0 && (
+                <div role="status" className="flex items-start gap-2 mb-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                  <FontAwesomeIcon icon={faTriangleExclamation} className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p>{staleItems.length} shortlisted doctor{staleItems.length === 1 ? ' is' : 's are'} no longer listed.</p>
+                    <button onClick={handleRemoveStale} className="mt-1 font-medium underline hover:no-underline" data-testid="shortlist-remove-stale">
+                      Remove {staleItems.length === 1 ? 'it' : 'them'}
+                    </button>
+                  </div>
+                </div>
+              )}
+              <ul className="space-y-3">
+                {items.map(({ entry, doctor, isStale }) => (
+                  <li
+                      key={entry.doctorId}
+                      className={`p-3 border rounded-lg ${isStale ? 'border-amber-200 bg-amber-50/50' : 'border-gray-200'}`}
+                      data-testid="shortlist-item"
+                      data-stale={isStale || undefined}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        {doctor ? (
+                          <Link
+                              to={`/doctors/${encodeURIComponent(doctor.id)}`}
+                              state={{ fromList: true }}
+                              onClick={onClose}
+                              className="font-semibold text-gray-800 hover:text-blue-700 hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded-sm"
+                          >
+                            {doctor.name}
+                          </Link>
+                        ) : (
+                          <p className="font-semibold text-gray-600">{entry.name || `Doctor #${entry.doctorId}`}</p>
+                        )}
+                        <p className="text-xs text-blue-600 truncate">
+                          {(doctor?.specialityNames ?? entry.specialityNames).join(', ') || 'Specialty not listed'}
+                        </p>
+                        {doctor && (
+                          <p className="mt-1 text-xs text-gray-600">
+                            {doctor.parsedFees === Infinity ? 'Fee not available' : `₹ ${doctor.parsedFees}`} · {doctor.parsedExperience} yrs
+                            {doctor.address?.locality && ` · ${doctor.address.locality}`}
+                          </p>
+                        )}
+                        {isStale && (
+                          <p className="mt-1 text-xs font-medium text-amber-800" data-testid="shortlist-item-stale">
+                            No longer listed
+                          </p>
+                        )}
+                      </div>
+                      <button
+                          onClick={() => onRemove(entry.doctorId)}
+                          className="p-1 text-gray-400 hover:text-red-600 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                          aria-label={`Remove ${doctor?.name ?? entry.name} from shortlist`}
+                          data-testid="shortlist-remove"
+                      >
+                        <FontAwesomeIcon icon={faXmark} className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {doctor && onBook && (
+                      <button
+                          onClick={() => onBook(doctor)}
+                          disabled={doctor.consultationModes.length === 0}
+                          className="mt-2 inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-blue-700 border border-blue-200 rounded-md hover:bg-blue-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:text-gray-400 disabled:border-gray-200 disabled:cursor-not-allowed"
+                      >
+                        <FontAwesomeIcon icon={faCalendarCheck} className="w-3 h-3" />
+                        Book
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        {items.length > 0 && (
+          <div className="flex items-center justify-between gap-3 px-5 py-3 border-t border-gray-100 bg-gray-50">
+            <button
+                onClick={onClear}
+                className="px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-red-700 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                data-testid="shortlist-clear"
+            >
+              Clear all
+            </button>
+            <button
+                onClick={onShowInResults}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                data-testid="shortlist-show-in-results"
+            >
+              Show in results
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+// Memoize the component for performance optimization
+export const ShortlistDrawer = React.memo(ShortlistDrawerComponent);
+// Set display name for better debugging
+ShortlistDrawer.displayName = 'ShortlistDrawer';
@@ -0,0 +1,36 @@
+import React from 'react';
+import { MatchRange } from '../../types';
+
+interface HighlightedTextProps {
+    text: string;
+    /** Sorted, non-overlapping ranges of `text` to emphasise */
+    ranges?: MatchRange[];
+    className?: string; // Allow custom styling of the highlighted fragments
+}
+
+/**
+ * Renders text with the given character ranges wrapped in <mark> elements.
+ * The text content is unchanged, so tests and screen readers see the same string.
+ * @param props - Component props.
+ * @param props.text - The full text to render.
+ * @param props.ranges - Optional ranges to highlight; plain text is rendered when empty.
+ * @param props.className - Optional classes for the <mark> elements.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+    text,
+    ranges,
+    className = "bg-yellow-100 text-inherit rounded-sm" // Default highlight styling
+}) => {
+    if (!ranges || ranges.length === 0) return <>{text}</>;
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach(({ start, end }, index) => {
+        if (start > cursor) parts.push(text.slice(cursor, start));
+        parts.push(<mark key={index} className={className}>{text.slice(start, end)}</mark>);
+        cursor = end;
+    });
+    if (cursor < text.length) parts.push(text.slice(cursor));
+
+    return <>{parts}</>;
+};
@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { QrCode } from '../../types';
+
+// Light border required around a QR code for scanners to find it, in modules
+const QUIET_ZONE = 4;
+
+interface QrCodeImageProps {
+    qrCode: QrCode;
+    /** Accessible description of what the code opens */
+    title: string;
+    className?: string;
+}
+
+/**
+ * Draws a QR code as a crisp, scalable SVG (one path for all dark modules), with its quiet zone.
+ * @param props - Component props.
+ * @param props.qrCode - The encoded symbol.
+ * @param props.title - Text for screen readers and the tooltip.
+ * @param props.className - Optional classes for sizing the SVG.
+ */
+export const QrCodeImage: React.FC<QrCodeImageProps> = ({ qrCode, title, className = "w-48 h-48" }) => {
+    const path = useMemo(() => {
+        const segments: string[] = [];
+        qrCode.modules.forEach((row, y) => row.forEach((isDark, x) => {
+            if (isDark) segments.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+        }));
+        return segments.join('');
+    }, [qrCode]);
+    const viewSize = qrCode.size + QUIET_ZONE * 2;
+
+    return (
+        <svg
+            viewBox={`0 0 ${viewSize} ${viewSize}`}
+            role="img"
+            aria-label={title}
+            shapeRendering="crispEdges"
+            className={className}
+        >
+            <title>{title}</title>
+            <rect width={viewSize} height={viewSize} fill="#ffffff" />
+            <path d={path} fill="#000000" />
+        </svg>
+    );
+};
@@ -0,0 +1,204 @@
+// src/hooks/useBooking.ts
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Booking, BookingService, BookingSlot, Doctor, PatientDetails, PatientDetailsErrors } from '../types';
+import { getDefaultBookingService } from '../services/bookingService';
+import { cleanPatientDetails, EMPTY_PATIENT_DETAILS, validatePatientDetails } from '../utils/bookingValidation';
+import { addDays, toDateKey } from '../utils/dateTime';
+import { AVAILABILITY_HORIZON_DAYS } from '../utils/availability';
+
+/** Steps of the booking flow, in order */
+export type BookingStep = 'mode' | 'slot' | 'details' | 'review' | 'confirmed';
+
+type ConsultationMode = Doctor['consultationModes'][number];
+
+// Resolved once per module so every booking flow shares the same service
+const defaultBookingService = getDefaultBookingService();
+
+interface UseBookingReturn {
+  step: BookingStep;
+  /** Modes the doctor offers; the mode step is skipped when there is only one */
+  availableModes: ConsultationMode[];
+  mode: ConsultationMode | null;
+  /** Bookable days as "YYYY-MM-DD", starting today */
+  dates: string[];
+  date: string;
+  slots: BookingSlot[];
+  isLoadingSlots: boolean;
+  slotsError: string | null;
+  /** ISO start of the chosen slot */
+  selectedSlot: string | null;
+  /** Whether the chosen slot is still free in the latest slot list */
+  isSelectedSlotAvailable: boolean;
+  patient: PatientDetails;
+  /** Validation messages, shown once the details have been submitted */
+  patientErrors: PatientDetailsErrors;
+  isSubmitting: boolean;
+  submitError: string | null;
+  /** The confirmed appointment, once booked */
+  booking: Booking | null;
+  selectMode: (mode: ConsultationMode) => void;
+  selectDate: (date: string) => void;
+  selectSlot: (start: string) => void;
+  reloadSlots: () => void;
+  /** Moves from the slot step to the details step (requires a selected slot) */
+  continueToDetails: () => void;
+  updatePatient: (field: keyof PatientDetails, value: string) => void;
+  /** Validates the details and moves to the review step when they are valid */
+  submitDetails: () => void;
+  /** Books the appointment */
+  confirm: () => Promise<void>;
+  /** Returns to the previous step */
+  goBack: () => void;
+}
+
+/**
+ * State machine for booking an appointment with one doctor:
+ * mode → date & slot → patient details → review → confirmed.
+ * @param doctor - The doctor being booked.
+ * @param bookingService - Where slots come from and bookings go (defaults to the API or the offline mock).
+ * @returns The current step, its data and the actions that move between steps.
+ */
+export function useBooking(doctor: Doctor, bookingService: BookingService = defaultBookingService): UseBookingReturn {
+  const availableModes = doctor.consultationModes;
+  const hasSingleMode = availableModes.length === 1;
+
+  const [step, setStep] = useState<BookingStep>(hasSingleMode ? 'slot' : 'mode');
+  const [mode, setMode] = useState<ConsultationMode | null>(hasSingleMode ? availableModes[0] : null);
+  const dates = useMemo(() => {
+    const today = new Date();
+    // The same days the cards' "Next available" looks at, so a slot shown there can be booked
+    return Array.from({ length: AVAILABILITY_HORIZON_DAYS }, (_, offset) => toDateKey(addDays(today, offset)));
+  }, []);
+  const [date, setDate] = useState<string>(dates[0]);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  // Slots for the current mode/date, tagged with what they were loaded for
+  const [slotsResult, setSlotsResult] = useState<{ key: string; slots: BookingSlot[]; error: string | null } | null>(null);
+  // Bumped to load the slots again (retry, or after a slot was taken meanwhile)
+  const [slotsReloadToken, setSlotsReloadToken] = useState(0);
+  const [patient, setPatient] = useState<PatientDetails>(EMPTY_PATIENT_DETAILS);
+  const [showPatientErrors, setShowPatientErrors] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [booking, setBooking] = useState<Booking | null>(null);
+
+  const slotsKey = mode ? `${mode}|${date}|${slotsReloadToken}` : null;
+
+  // Effect to load the slots whenever the mode or day changes
+  useEffect(() => {
+    if (!mode || !slotsKey) return;
+    let isCancelled = false;
+    bookingService.getSlots({ doctorId: doctor.id, mode, date, availability: doctor.availability })
+      .then(slots => {
+        if (!isCancelled) setSlotsResult({ key: slotsKey, slots, error: null });
+      })
+      .catch(e => {
+        console.error(`Failed to load slots for doctor ${doctor.id}:`, e);
+        if (!isCancelled) {
+          setSlotsResult({ key: slotsKey, slots: [], error: e instanceof Error ? e.message : 'Available times could not be loaded.' });
+        }
+      });
+    return () => { isCancelled = true; };
+  }, [bookingService, doctor.id, doctor.availability, mode, date, slotsKey]);
+
+  const currentSlots = slotsResult?.key === slotsKey ? slotsResult : null;
+  // The chosen slot can become unavailable when the slots are reloaded
+  const isSelectedSlotAvailable = currentSlots?.slots.some(slot => slot.start === selectedSlot && slot.isAvailable) ?? false;
+  const patientErrors = useMemo(
+    () => (showPatientErrors ? validatePatientDetails(patient) : {}),
+    [showPatientErrors, patient]
+  );
+
+  const selectMode = useCallback((nextMode: ConsultationMode) => {
+    if (nextMode !== mode) setSelectedSlot(null);
+    setMode(nextMode);
+    setStep('slot');
+  }, [mode]);
+
+  const selectDate = useCallback((nextDate: string) => {
+    setDate(nextDate);
+    setSelectedSlot(null);
+  }, []);
+
+  const selectSlot = useCallback((start: string) => setSelectedSlot(start), []);
+  const reloadSlots = useCallback(() => setSlotsReloadToken(prev => prev + 1), []);
+
+  const continueToDetails = useCallback(() => {
+    if (isSelectedSlotAvailable) setStep('details');
+  }, [isSelectedSlotAvailable]);
+
+  const updatePatient = useCallback((field: keyof PatientDetails, value: string) => {
+    setPatient(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const submitDetails = useCallback(() => {
+    setShowPatientErrors(true);
+    if (Object.keys(validatePatientDetails(patient)).length === 0) {
+      setSubmitError(null);
+      setStep('review');
+    }
+  }, [patient]);
+
+  const confirm = useCallback(async () => {
+    if (!mode || !selectedSlot || isSubmitting) return;
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const confirmed = await bookingService.createBooking({
+        doctorId: doctor.id,
+        doctorName: doctor.name,
+        mode,
+        slotStart: selectedSlot,
+        patient: cleanPatientDetails(patient),
+      });
+      setBooking(confirmed);
+      setStep('confirmed');
+    } catch (e) {
+      console.error(`Failed to book doctor ${doctor.id}:`, e);
+      setSubmitError(e instanceof Error ? e.message : 'The appointment could not be booked.');
+      // The slot may have been taken meanwhile; show fresh availability if the user goes back
+      setSlotsReloadToken(prev => prev + 1);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [bookingService, doctor.id, doctor.name, mode, selectedSlot, patient, isSubmitting]);
+
+  const goBack = useCallback(() => {
+    setSubmitError(null);
+    setStep(prev => {
+      switch (prev) {
+        case 'slot': return hasSingleMode ? 'slot' : 'mode';
+        case 'details': return 'slot';
+        case 'review': return 'details';
+        default: return prev;
+      }
+    });
+  }, [hasSingleMode]);
+
+  return {
+    step,
+    availableModes,
+    mode,
+    dates,
+    date,
+    slots: currentSlots?.slots ?? [],
+    isLoadingSlots: mode !== null && currentSlots === null,
+    slotsError: currentSlots?.error ?? null,
+    selectedSlot,
+    isSelectedSlotAvailable,
+    patient,
+    patientErrors,
+    isSubmitting,
+    submitError,
+    booking,
+    selectMode,
+    selectDate,
+    selectSlot,
+    reloadSlots,
+    continueToDetails,
+    updatePatient,
+    submitDetails,
+    confirm,
+    goBack,
+  };
+}
@@ -0,0 +1,98 @@
+// src/hooks/useComparedDoctors.ts
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Doctor } from '../types';
+
+interface UseComparedDoctorsOptions {
+  /** Doctors already loaded for the list; used first so most comparisons open instantly */
+  cachedDoctors: Doctor[];
+  /** Whether the list is still being loaded (the doctors may still turn up in it) */
+  isListLoading: boolean;
+  /** Loads a doctor individually when it isn't in the list (e.g. a shared comparison link) */
+  fetchDoctor: (doctorId: string, signal?: AbortSignal) => Promise<Doctor | null>;
+}
+
+interface UseComparedDoctorsReturn {
+  /** The doctors found so far, in the order of the ids */
+  doctors: Doctor[];
+  /** True while some of the doctors are still being looked up */
+  isLoading: boolean;
+  /** Why the individual fetches failed, or null */
+  error: string | null;
+  /** Ids the data source has no doctor for */
+  notFoundIds: string[];
+  /** Repeats failed individual fetches */
+  retry: () => void;
+}
+
+/** Outcome of fetching the doctors missing from the list, tagged with the request it was for */
+type FetchOutcome =
+  | { requestKey: string; attempt: number; doctors: Map<string, Doctor | null> }
+  | { requestKey: string; attempt: number; error: string };
+
+/**
+ * Resolves the doctors on the comparison page. Like useDoctorDetail, each doctor comes
+ * from the loaded list when it is there; the rest are fetched individually (together)
+ * once the list has finished loading.
+ * @param doctorIds - Ids from the `compare` URL params, in display order.
+ * @param options - See UseComparedDoctorsOptions.
+ * @returns The doctors and loading/error state.
+ */
+export function useComparedDoctors(
+  doctorIds: string[],
+  { cachedDoctors, isListLoading, fetchDoctor }: UseComparedDoctorsOptions
+): UseComparedDoctorsReturn {
+  const cachedById = useMemo(() => {
+    const result = new Map<string, Doctor>();
+    cachedDoctors.forEach(doc => {
+      if (doctorIds.includes(doc.id)) result.set(doc.id, doc);
+    });
+    return result;
+  }, [cachedDoctors, doctorIds]);
+  // The ids still missing, as one string so the effect only re-runs when the set changes
+  const requestKey = JSON.stringify(doctorIds.filter(id => !cachedById.has(id)));
+  const [attempt, setAttempt] = useState(0);
+  const [outcome, setOutcome] = useState<FetchOutcome | null>(null);
+  const hasMissing = requestKey !== '[]';
+  const needsFetch = hasMissing && !isListLoading;
+
+  // Effect to fetch the doctors the list doesn't have
+  useEffect(() => {
+    if (!needsFetch) return;
+    // Aborted when the selection changes or the page unmounts
+    const controller = new AbortController();
+    const { signal } = controller;
+    const missingIds: string[] = JSON.parse(requestKey);
+    Promise.all(missingIds.map(id => fetchDoctor(id, signal).then(doctor => [id, doctor] as const)))
+      .then(entries => {
+        if (!signal.aborted) setOutcome({ requestKey, attempt, doctors: new Map(entries) });
+      })
+      .catch(e => {
+        if (signal.aborted) return;
+        console.error('Failed to load doctors for comparison:', e);
+        setOutcome({ requestKey, attempt, error: e instanceof Error ? e.message : 'An unknown error occurred while loading these doctors.' });
+      });
+    return () => controller.abort();
+  }, [needsFetch, requestKey, attempt, fetchDoctor]);
+
+  const retry = useCallback(() => setAttempt(prev => prev + 1), []);
+
+  // Ignore outcomes that belong to another selection or an earlier attempt
+  const currentOutcome = outcome && outcome.requestKey === requestKey && outcome.attempt === attempt ? outcome : null;
+  const fetchedById = currentOutcome && 'doctors' in currentOutcome ? currentOutcome.doctors : null;
+
+  const doctors = useMemo(
+    () => doctorIds
+      .map(id => cachedById.get(id) ?? fetchedById?.get(id) ?? null)
+      .filter((doc): doc is Doctor => doc !== null),
+    [doctorIds, cachedById, fetchedById]
+  );
+
+  return {
+    doctors,
+    isLoading: hasMissing && (isListLoading || currentOutcome === null),
+    error: hasMissing && currentOutcome && 'error' in currentOutcome ? currentOutcome.error : null,
+    notFoundIds: fetchedById ? doctorIds.filter(id => fetchedById.get(id) === null) : [],
+    retry,
+  };
+}
@@ -0,0 +1,84 @@
+// src/hooks/useDoctorDetail.ts
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Doctor } from '../types';
+
+interface UseDoctorDetailOptions {
+  /** Doctors already loaded for the list; used first so most detail pages open instantly */
+  cachedDoctors: Doctor[];
+  /** Whether the list is still being loaded (the doctor may still turn up in it) */
+  isListLoading: boolean;
+  /** Loads a doctor individually when it isn't in the list (e.g. a deep link into a later page) */
+  fetchDoctor: (doctorId: string, signal?: AbortSignal) => Promise<Doctor | null>;
+}
+
+interface UseDoctorDetailReturn {
+  /** The doctor, once found */
+  doctor: Doctor | null;
+  isLoading: boolean;
+  /** Why the individual fetch failed, or null */
+  error: string | null;
+  /** True when the data source has no doctor with this id */
+  notFound: boolean;
+  /** Repeats a failed individual fetch */
+  retry: () => void;
+}
+
+/** Outcome of the individual fetch, tagged with the id it was for */
+type FetchOutcome =
+  | { doctorId: string; attempt: number; doctor: Doctor | null }
+  | { doctorId: string; attempt: number; error: string };
+
+/**
+ * Resolves the doctor shown on a detail page: from the loaded list when it is there,
+ * otherwise by fetching it on its own once the list has finished loading (so a
+ * deep link neither waits forever nor duplicates the in-flight list request).
+ * @param doctorId - Id from the route.
+ * @param options - See UseDoctorDetailOptions.
+ * @returns The doctor and loading/error state.
+ */
+export function useDoctorDetail(
+  doctorId: string,
+  { cachedDoctors, isListLoading, fetchDoctor }: UseDoctorDetailOptions
+): UseDoctorDetailReturn {
+  const cachedDoctor = useMemo(
+    () => cachedDoctors.find(doc => doc.id === doctorId) ?? null,
+    [cachedDoctors, doctorId]
+  );
+  const [attempt, setAttempt] = useState(0);
+  const [outcome, setOutcome] = useState<FetchOutcome | null>(null);
+  const needsFetch = !cachedDoctor && !isListLoading;
+
+  // Effect to fetch the doctor individually when the list doesn't have it
+  useEffect(() => {
+    if (!needsFetch) return;
+    // Aborted when the id changes or the page unmounts
+    const controller = new AbortController();
+    const { signal } = controller;
+    fetchDoctor(doctorId, signal)
+      .then(doctor => {
+        if (!signal.aborted) setOutcome({ doctorId, attempt, doctor });
+      })
+      .catch(e => {
+        if (signal.aborted) return;
+        console.error(`Failed to load doctor ${doctorId}:`, e);
+        setOutcome({ doctorId, attempt, error: e instanceof Error ? e.message : 'An unknown error occurred while loading this doctor.' });
+      });
+    return () => controller.abort();
+  }, [needsFetch, doctorId, attempt, fetchDoctor]);
+
+  const retry = useCallback(() => setAttempt(prev => prev + 1), []);
+
+  // Ignore outcomes that belong to another id or an earlier attempt
+  const currentOutcome = outcome && outcome.doctorId === doctorId && outcome.attempt === attempt ? outcome : null;
+  const fetchedDoctor = currentOutcome && 'doctor' in currentOutcome ? currentOutcome.doctor : null;
+  const error = !cachedDoctor && currentOutcome && 'error' in currentOutcome ? currentOutcome.error : null;
+
+  return {
+    doctor: cachedDoctor ?? fetchedDoctor,
+    isLoading: !cachedDoctor && (isListLoading || currentOutcome === null),
+    error,
+    notFound: !cachedDoctor && currentOutcome !== null && 'doctor' in currentOutcome && currentOutcome.doctor === null,
+    retry,
+  };
+}
@@ -1,139 +1,285 @@
 // src/hooks/useDoctorFinder.ts
 
-import { useState, useMemo, useEffect, useCallback } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { useNavigationType, useSearchParams } from 'react-router-dom';
 import {
+    AvailabilityWindow,
+    ConsultationMode,
+    DataQualityReport,
     Doctor,
-    RawDoctorData,
+    DoctorDataSource,
+    DoctorPageResult,
+    FacetMatchMode,
+    FilterState,
+    NextAvailableSlot,
+    NextSlotsByMode,
+    NumericRange,
+    PlaceGroup,
+    ReferencePoint,
+    SearchSuggestion,
+    UseDoctorFinderOptions,
     UseDoctorFinderReturn,
-    SortCriterion // Import the specific type for sort criteria
+    SortCriterion,
+    SortDirection,
+    SortOption,
+    UrlState
 } from '../types';
+import { getDefaultDataSource, loadCachedDoctors, loadDoctorById, loadDoctorPage, loadDoctors } from '../services/doctorDataSource';
+import { mergeDataQualityReports } from '../utils/doctorValidator';
+import { buildSearchIndex, hasSearchTokens, searchDoctors, suggestFieldValues } from '../utils/doctorSearch';
+import { SORT_CRITERION_INFO, getNumericBounds, parseMaxDistance, parseNumericRange } from '../utils/filterState';
+import { findNextSlotsByMode, pickNextSlot } from '../utils/availability';
+import { toggleComparedDoctor } from '../utils/comparison';
+import { distanceKm, locatePlace } from '../utils/geo';
+import { applyFilterPredicates, buildFilterPredicates, computeFacetCounts, getDoctorLanguages } from '../utils/doctorFilters';
+import { sortDoctors } from '../utils/doctorSort';
+import { CURRENT_LOCATION_LABEL, getUrlStateHistoryKey, parseUrlState, serializeUrlState } from '../utils/urlState';
 
-const API_URL = import.meta.env.VITE_PUBLIC_DOCTOR_API;
-const MAX_SUGGESTIONS = 3;
+const MAX_SUGGESTIONS = 3; // Per suggestion group
+const DEFAULT_PAGE_SIZE = 20;
+// How often "next available" times are recomputed, so passed slots drop off
+const AVAILABILITY_REFRESH_MS = 60 * 1000;
+// URL changes closer together than this (e.g. typing a search) share one history entry
+const HISTORY_COALESCE_MS = 1000;
 
 /**
- * Parses the fee string (e.g., "₹ 500") into a number.
- * Returns Infinity if parsing fails or string is empty, ensuring these items sort last.
- * @param feeString - The fee string from the API.
- * @returns The numeric fee or Infinity.
+ * Turns a GeolocationPositionError into a message for the user.
  */
-function parseFee(feeString: string): number {
-  if (!feeString) return Infinity;
-  // Remove currency symbols, commas, etc., keeping only digits and decimal point
-  const numberString = feeString.replace(/[^0-9.]/g, '');
-  const fee = parseInt(numberString, 10);
-  return isNaN(fee) ? Infinity : fee;
+function describeGeolocationError(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return 'Location access was denied. Type a locality instead.';
+    case error.POSITION_UNAVAILABLE:
+      return 'Your location could not be determined. Type a locality instead.';
+    case error.TIMEOUT:
+      return 'Finding your location took too long. Please try again.';
+    default:
+      return 'Your location could not be determined.';
+  }
 }
 
+// Resolved once per module so the mount effect sees a stable reference
+const defaultDataSource = getDefaultDataSource();
+
+/** Server-side paging position for data sources that support `fetchPage` */
+interface RemotePagination {
+  nextPage: number;
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+const INITIAL_REMOTE_PAGINATION: RemotePagination = { nextPage: 1, cursor: null, hasMore: false };
+
+// Shared default so the filter context stays stable when no shortlist is passed
+const NO_SHORTLISTED_IDS: ReadonlySet<string> = new Set();
+
 /**
- * Parses the experience string (e.g., "13 Years of experience") into a number.
- * Returns 0 if parsing fails or string is empty.
- * @param expString - The experience string from the API.
- * @returns The numeric experience in years or 0.
+ * Returns a state updater that keeps the previous range object when the ends are unchanged,
+ * so re-committing the same values doesn't reset paging or rewrite the URL.
  */
-function parseExperience(expString: string): number {
-  if (!expString) return 0;
-  // Find the first sequence of digits
-  const match = expString.match(/\d+/);
-  const exp = match ? parseInt(match[0], 10) : 0;
-  return isNaN(exp) ? 0 : exp;
+function replaceRange(next: NumericRange) {
+  const normalized = parseNumericRange(next.min, next.max);
+  return (prev: NumericRange) =>
+    prev.min === normalized.min && prev.max === normalized.max ? prev : normalized;
+}
+
+/**
+ * Appends newly fetched doctors, ignoring ids that are already loaded
+ * (pages can overlap when the server data shifts between requests).
+ */
+function appendUniqueDoctors(existing: Doctor[], incoming: Doctor[]): Doctor[] {
+  const knownIds = new Set(existing.map(doc => doc.id));
+  return [...existing, ...incoming.filter(doc => !knownIds.has(doc.id))];
 }
 
 /**
  * Custom hook to manage fetching, filtering, multi-sorting, and state synchronization
  * for the doctor listing page.
+ * @param options - Optional data source and page size (see UseDoctorFinderOptions).
  * @returns An object containing state variables and handler functions.
  */
-export function useDoctorFinder(): UseDoctorFinderReturn {
+export function useDoctorFinder({
+  dataSource = defaultDataSource,
+  pageSize = DEFAULT_PAGE_SIZE,
+  shortlistedIds = NO_SHORTLISTED_IDS,
+}: UseDoctorFinderOptions = {}): UseDoctorFinderReturn {
   const [allDoctors, setAllDoctors] = useState<Doctor[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [dataQuality, setDataQuality] = useState<DataQualityReport | null>(null);
+  // Stale-while-revalidate: when the shown list was loaded, and whether a newer one is on its way
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  // Bumped by refresh() to re-run the load effect
+  const [reloadCount, setReloadCount] = useState<number>(0);
+  // The data source the shown list came from; a list from another source is never kept on screen
+  const listSourceRef = useRef<DoctorDataSource | null>(null);
+  // Incremental loading: how many filtered results are revealed, and where the server paging is
+  const [visibleCount, setVisibleCount] = useState<number>(pageSize);
+  const [remotePagination, setRemotePagination] = useState<RemotePagination>(INITIAL_REMOTE_PAGINATION);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  // The in-flight "load more" request; also guards against overlapping page requests
+  // (e.g. an eager infinite-scroll sentinel)
+  const pageRequestRef = useRef<AbortController | null>(null);
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigationType = useNavigationType();
+  // Initial state from the URL, validated (unknown values dropped, place names normalized)
+  const [initialUrlState] = useState<UrlState>(() => parseUrlState(searchParams));
+  // The URL search last written or applied, and the history key of the state it holds
+  // (null until the first sync, which always replaces so opening a link adds no entry)
+  const syncedSearchRef = useRef<string>(searchParams.toString());
+  const syncedHistoryKeyRef = useRef<string | null>(null);
+  const lastUrlWriteRef = useRef<number>(0);
+  // The URL search the writing effect last saw, to tell Back/Forward apart from state changes
+  const seenSearchRef = useRef<string>(searchParams.toString());
 
-  // Initialize state from URL search parameters or defaults
-  const [searchTerm, setSearchTerm] = useState<string>(() => searchParams.get('search') || '');
-  const [consultationType, setConsultationType] = useState<'Video Consult' | 'In Clinic' | null>(
-    () => (searchParams.get('consultation') as 'Video Consult' | 'In Clinic') || null
-  );
-  const [selectedSpecialties, setSelectedSpecialties] = useState<Set<string>>(
-    () => new Set(searchParams.getAll('specialty')) // getAll handles multiple values
-  );
-  // State for multiple active sort criteria, initialized from URL
-  const [sortOptions, setSortOptions] = useState<SortCriterion[]>(
-    () => searchParams.getAll('sort') as SortCriterion[] // Get all 'sort' params
-  );
+  // Initialize state from the URL (or defaults)
+  const [searchTerm, setSearchTerm] = useState<string>(initialUrlState.filters.searchTerm);
+  const [consultationType, setConsultationType] = useState<ConsultationMode | null>(initialUrlState.filters.consultationType);
+  const [selectedSpecialties, setSelectedSpecialties] = useState<Set<string>>(initialUrlState.filters.specialties);
+  const [selectedCities, setSelectedCities] = useState<Set<string>>(initialUrlState.filters.cities);
+  const [selectedLocalities, setSelectedLocalities] = useState<Set<string>>(initialUrlState.filters.localities);
+  const [selectedLanguages, setSelectedLanguages] = useState<Set<string>>(initialUrlState.filters.languages);
+  const [languageMatch, setLanguageMatch] = useState<FacetMatchMode>(initialUrlState.filters.languageMatch);
+  const [feeRange, setFeeRange] = useState<NumericRange>(initialUrlState.filters.feeRange);
+  const [experienceRange, setExperienceRange] = useState<NumericRange>(initialUrlState.filters.experienceRange);
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(initialUrlState.filters.maxDistanceKm);
+  const [availableWithin, setAvailableWithin] = useState<AvailabilityWindow | null>(initialUrlState.filters.availableWithin);
+  const [shortlistedOnly, setShortlistedOnly] = useState<boolean>(initialUrlState.filters.shortlistedOnly);
+  // The moment availability is computed for; ticks every minute
+  const [availabilityClock, setAvailabilityClock] = useState<Date>(() => new Date());
+  // Where distances are measured from (not part of FilterState: it describes the user, not a filter)
+  const [referencePoint, setReferencePoint] = useState<ReferencePoint | null>(initialUrlState.referencePoint);
+  const [isLocating, setIsLocating] = useState<boolean>(false);
+  const [referencePointError, setReferencePointError] = useState<string | null>(null);
+  // Doctors picked for comparison (not part of FilterState: it doesn't narrow the results)
+  const [compareIds, setCompareIds] = useState<string[]>(initialUrlState.compareIds);
+  // State for multiple active sort levels, in priority order
+  const [sortOptions, setSortOptions] = useState<SortOption[]>(initialUrlState.filters.sortOptions);
 
-  // Effect to fetch and process data on initial mount
+  // Effect to fetch and process data on mount (and on refresh). Stale-while-revalidate: the
+  // cached list is shown straight away, and kept when the fresh fetch fails
   useEffect(() => {
+    // Aborted when the effect re-runs or the component unmounts, so a late response is never applied
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    /** Shows a loaded list (complete, or the pages of a paged source loaded so far) */
+    const applyList = (result: DoctorPageResult, loadedAt: number, nextPage = 2) => {
+      setAllDoctors(result.doctors);
+      setDataQuality(result.report);
+      setRemotePagination(dataSource.fetchPage
+        ? { nextPage, cursor: result.nextCursor ?? null, hasMore: result.hasMore }
+        : INITIAL_REMOTE_PAGINATION);
+      setLastUpdatedAt(loadedAt);
+      listSourceRef.current = dataSource;
+    };
+
     const fetchData = async () => {
-      setIsLoading(true);
+      if (listSourceRef.current !== dataSource) {
+        const cached = loadCachedDoctors(dataSource);
+        if (cached) applyList(cached, cached.savedAt, cached.nextPage);
+      }
+      const hasList = listSourceRef.current === dataSource;
+      // Offline, keep the list on screen rather than wait for requests that can't succeed
+      // (or get the same list back from the service worker's cache, labelled as new)
+      if (hasList && typeof navigator !== 'undefined' && navigator.onLine === false) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+        setRefreshError('no connection');
+        return;
+      }
+      setIsLoading(!hasList);
+      setIsRefreshing(hasList);
       setError(null);
       try {
-        if (!API_URL) {
-          throw new Error("API URL (VITE_PUBLIC_DOCTOR_API) is not defined. Please check your environment variables.");
-        }
-        const response = await fetch(API_URL);
-        if (!response.ok) {
-          throw new Error(`HTTP error fetching doctor data! status: ${response.status}`);
-        }
-        const rawData: RawDoctorData[] = await response.json();
-
-        // Process raw data into the Doctor type for internal use
-        const processedDoctors: Doctor[] = rawData.map((rawDoc): Doctor => {
-            const modes: ('Video Consult' | 'In Clinic')[] = [];
-            if (rawDoc.video_consult) modes.push('Video Consult');
-            if (rawDoc.in_clinic) modes.push('In Clinic');
-
-            // Extract Clinic/Address Data including logoUrl
-            const clinicName = rawDoc.clinic?.name;
-            const address = rawDoc.clinic?.address ? {
-                locality: rawDoc.clinic.address.locality,
-                city: rawDoc.clinic.address.city,
-                addressLine1: rawDoc.clinic.address.address_line1,
-                logoUrl: rawDoc.clinic.address.logo_url, // Extract logo URL
-            } : undefined;
-
-            return {
-              id: rawDoc.id,
-              name: rawDoc.name,
-              initials: rawDoc.name_initials,
-              photo: rawDoc.photo,
-              introduction: rawDoc.doctor_introduction,
-              specialityNames: rawDoc.specialities.map(spec => spec.name),
-              parsedFees: parseFee(rawDoc.fees),
-              parsedExperience: parseExperience(rawDoc.experience),
-              consultationModes: modes,
-              video_consult: rawDoc.video_consult,
-              in_clinic: rawDoc.in_clinic,
-              languages: rawDoc.languages,
-              clinicName: clinicName,
-              address: address,
-            };
-        });
-        setAllDoctors(processedDoctors);
+        // Paged source: load only the first page now, the rest on demand via loadMore.
+        // Otherwise fetch, validate and normalize raw records; bad records are reported, not fatal
+        const result: DoctorPageResult = dataSource.fetchPage
+          ? await loadDoctorPage(dataSource, { page: 1, limit: pageSize }, { signal })
+          : { ...(await loadDoctors(dataSource, { signal })), hasMore: false };
+        if (signal.aborted) return;
+        applyList(result, Date.now());
+        setRefreshError(null);
       } catch (e) {
+        if (signal.aborted) return;
         console.error("Failed to fetch or process doctor data:", e);
-        setError(e instanceof Error ? e.message : 'An unknown error occurred while fetching data.');
+        const message = e instanceof Error ? e.message : 'An unknown error occurred while fetching data.';
+        // With a list on screen (cached or loaded earlier) the failure only means it may be out of date
+        if (hasList) {
+          setRefreshError(message);
+        } else {
+          setError(message);
+        }
       } finally {
-        setIsLoading(false);
+        if (!signal.aborted) {
+          setIsLoading(false);
+          setIsRefreshing(false);
+        }
       }
     };
     fetchData();
-  }, []); // Empty dependency array ensures this runs only once on mount
+    return () => {
+      controller.abort();
+      // A page requested for this list must not be appended to the next one (or land after unmount)
+      pageRequestRef.current?.abort();
+    };
+  }, [dataSource, pageSize, reloadCount]); // Runs on mount, on refresh, and when the source or page size changes
+
+  // Effect to keep "next available" times current as slots pass
+  useEffect(() => {
+    const timer = window.setInterval(() => setAvailabilityClock(new Date()), AVAILABILITY_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, []);
 
   // Effect to update URL search parameters whenever filters/sort/search change
   useEffect(() => {
-    const params = new URLSearchParams();
-    if (searchTerm) params.set('search', searchTerm);
-    if (consultationType) params.set('consultation', consultationType);
-    selectedSpecialties.forEach(spec => params.append('specialty', spec));
-    // Append each active sort option to the URL
-    sortOptions.forEach(opt => params.append('sort', opt));
+    const currentSearch = searchParams.toString();
+    const urlChanged = currentSearch !== seenSearchRef.current;
+    seenSearchRef.current = currentSearch;
+    // Back/Forward landed on another entry: the effect below applies its state, which
+    // must not be overwritten by the state of the entry just left
+    if (navigationType === 'POP' && urlChanged && currentSearch !== syncedSearchRef.current) return;
 
-    // Use replace: true to avoid polluting browser history on every filter/sort change
-    setSearchParams(params, { replace: true });
-  }, [searchTerm, consultationType, selectedSpecialties, sortOptions, setSearchParams]);
+    const state: UrlState = {
+      filters: {
+        searchTerm, consultationType, specialties: selectedSpecialties, cities: selectedCities,
+        localities: selectedLocalities, languages: selectedLanguages, languageMatch, feeRange,
+        experienceRange, maxDistanceKm, availableWithin, shortlistedOnly, sortOptions,
+      },
+      referencePoint,
+      compareIds,
+    };
+    const params = serializeUrlState(state);
+    const historyKey = getUrlStateHistoryKey(state);
+    const search = params.toString();
+    const previousHistoryKey = syncedHistoryKeyRef.current;
+    syncedSearchRef.current = search;
+    syncedHistoryKeyRef.current = historyKey;
+    // Also re-checked whenever the URL changes, so a route without params (e.g. a doctor's
+    // page) still carries the search; unchanged params are left alone so the route's
+    // navigation state survives
+    if (search === currentSearch) return;
+
+    // A different search gets its own history entry, so Back returns to the previous one.
+    // Comparison picks, the first sync (including upgrading an older link's params) and
+    // rapid changes such as typing replace the current entry instead
+    const now = Date.now();
+    const isNewSearch = previousHistoryKey !== null
+      && historyKey !== previousHistoryKey
+      && now - lastUrlWriteRef.current > HISTORY_COALESCE_MS;
+    lastUrlWriteRef.current = now;
+    setSearchParams(params, { replace: !isNewSearch });
+  }, [searchTerm, consultationType, selectedSpecialties, selectedCities, selectedLocalities, selectedLanguages, languageMatch, feeRange, experienceRange, maxDistanceKm, availableWithin, shortlistedOnly, referencePoint, sortOptions, compareIds, searchParams, setSearchParams, navigationType]);
+
+  // Effect to reset incremental loading whenever the filtered/sorted result set changes,
+  // so a new search always starts from the first page of results
+  useEffect(() => {
+    setVisibleCount(pageSize);
+    setLoadMoreError(null);
+  }, [searchTerm, consultationType, selectedSpecialties, selectedCities, selectedLocalities, selectedLanguages, languageMatch, feeRange, experienceRange, maxDistanceKm, availableWithin, shortlistedOnly, referencePoint, sortOptions, pageSize]);
 
   // Memoized calculation of unique available specialties from all doctors
   const availableSpecialties = useMemo(() => {
@@ -144,64 +290,165 @@ export function useDoctorFinder(): UseDoctorFinderReturn {
     return Array.from(specialties).sort(); // Sort alphabetically
   }, [allDoctors]);
 
+  // Memoized city → locality hierarchy of the loaded clinics
+  const availablePlaces = useMemo((): PlaceGroup[] => {
+    const localitiesByCity = new Map<string, Set<string>>();
+    allDoctors.forEach(doc => {
+      const { city, locality } = doc.address ?? {};
+      if (!city) return;
+      const localities = localitiesByCity.get(city) ?? new Set<string>();
+      if (locality) localities.add(locality);
+      localitiesByCity.set(city, localities);
+    });
+    return Array.from(localitiesByCity, ([city, localities]) => ({ city, localities: Array.from(localities).sort() }))
+      .sort((a, b) => a.city.localeCompare(b.city));
+  }, [allDoctors]);
+
+  // Memoized calculation of unique languages spoken by the loaded doctors
+  const availableLanguages = useMemo(() => {
+    const languages = new Set<string>();
+    allDoctors.forEach(doc => getDoctorLanguages(doc).forEach(language => languages.add(language)));
+    return Array.from(languages).sort();
+  }, [allDoctors]);
+
+  // Memoized slider limits for the range filters (unknown fees are ignored)
+  const feeBounds = useMemo(() => getNumericBounds(allDoctors.map(doc => doc.parsedFees)), [allDoctors]);
+  const experienceBounds = useMemo(() => getNumericBounds(allDoctors.map(doc => doc.parsedExperience)), [allDoctors]);
+
+  // Memoized search index, rebuilt only when the dataset changes
+  const searchIndex = useMemo(() => buildSearchIndex(allDoctors), [allDoctors]);
+
+  // Whether the term has anything to match (a bare "Dr." lists every doctor)
+  const isSearching = useMemo(() => hasSearchTokens(searchTerm), [searchTerm]);
+
+  // Memoized ranked search results for the current term (empty when not searching)
+  const searchResults = useMemo(
+    () => (isSearching ? searchDoctors(searchIndex, searchTerm) : []),
+    [searchIndex, searchTerm, isSearching]
+  );
+
+  // Relevance score per doctor id, used for filtering and the 'relevance' sort criterion
+  const relevanceScores = useMemo(
+    () => new Map(searchResults.map(result => [result.doctor.id, result.score])),
+    [searchResults]
+  );
+
+  // The current filters as a single object (also used for facet counts and search history)
+  const currentFilters = useMemo((): FilterState => ({
+    searchTerm,
+    consultationType,
+    specialties: selectedSpecialties,
+    cities: selectedCities,
+    localities: selectedLocalities,
+    languages: selectedLanguages,
+    languageMatch,
+    feeRange,
+    experienceRange,
+    maxDistanceKm,
+    availableWithin,
+    shortlistedOnly,
+    sortOptions,
+  }), [searchTerm, consultationType, selectedSpecialties, selectedCities, selectedLocalities, selectedLanguages, languageMatch, feeRange, experienceRange, maxDistanceKm, availableWithin, shortlistedOnly, sortOptions]);
+
+  // Memoized distance from the reference point to each clinic with known coordinates
+  const distances = useMemo(() => {
+    const result = new Map<string, number>();
+    if (!referencePoint) return result;
+    allDoctors.forEach(doc => {
+      const coordinates = doc.address?.coordinates;
+      if (coordinates) result.set(doc.id, distanceKm(referencePoint.point, coordinates));
+    });
+    return result;
+  }, [allDoctors, referencePoint]);
+
+  // Memoized earliest free slot per mode for every doctor with published hours
+  const nextSlots = useMemo(() => {
+    const result = new Map<string, NextSlotsByMode>();
+    allDoctors.forEach(doc => {
+      if (doc.availability) result.set(doc.id, findNextSlotsByMode(doc.availability, availabilityClock));
+    });
+    return result;
+  }, [allDoctors, availabilityClock]);
+
+  // Earliest free slot per doctor in the selected consultation mode (any mode when none is selected)
+  const nextAvailableSlots = useMemo(() => {
+    const result = new Map<string, NextAvailableSlot>();
+    nextSlots.forEach((slots, doctorId) => {
+      const slot = pickNextSlot(slots, consultationType);
+      if (slot) result.set(doctorId, slot);
+    });
+    return result;
+  }, [nextSlots, consultationType]);
+
+  // Derived data the filters need; distances only count once there is a reference point
+  const filterContext = useMemo(
+    () => ({ distances: referencePoint ? distances : undefined, places: availablePlaces, nextSlots, now: availabilityClock, shortlistedIds }),
+    [distances, referencePoint, availablePlaces, nextSlots, availabilityClock, shortlistedIds]
+  );
+
+  // Memoized list of place names that can be typed as a reference point
+  const referencePlaces = useMemo(() => {
+    const places = new Set<string>();
+    allDoctors.forEach(doc => {
+      if (!doc.address?.coordinates) return;
+      if (doc.address.locality?.trim()) places.add(doc.address.locality.trim());
+      if (doc.address.city?.trim()) places.add(doc.address.city.trim());
+    });
+    return Array.from(places).sort();
+  }, [allDoctors]);
+
+  // Doctors matching the search term (ranked), or everyone when not searching
+  const searchMatchedDoctors = useMemo(
+    () => (isSearching ? searchResults.map(result => result.doctor) : allDoctors),
+    [allDoctors, isSearching, searchResults]
+  );
+
+  // Memoized live counts for every filter option, each reflecting all the other filters
+  const facetCounts = useMemo(
+    () => computeFacetCounts(searchMatchedDoctors, currentFilters, filterContext),
+    [searchMatchedDoctors, currentFilters, filterContext]
+  );
+
   // Memoized calculation of the filtered and multi-sorted list of doctors
   const filteredDoctors = useMemo(() => {
-    let doctors = [...allDoctors]; // Start with a copy of all doctors
-
     // --- Apply Filters ---
-    if (searchTerm) {
-      const lowerSearchTerm = searchTerm.toLowerCase();
-      doctors = doctors.filter(doc =>
-        doc.name.toLowerCase().includes(lowerSearchTerm)
-      );
-    }
-    if (consultationType) {
-      doctors = doctors.filter(doc =>
-        doc.consultationModes.includes(consultationType)
-      );
-    }
-    if (selectedSpecialties.size > 0) {
-      doctors = doctors.filter(doc =>
-        doc.specialityNames.some(specName => selectedSpecialties.has(specName))
-      );
-    }
+    // Search results are already ranked by relevance, best match first
+    const doctors = applyFilterPredicates(searchMatchedDoctors, buildFilterPredicates(currentFilters, filterContext));
 
     // --- Apply Multi-level Sorting ---
-    if (sortOptions.length > 0) {
-      doctors.sort((a, b) => {
-        for (const option of sortOptions) {
-          let comparison = 0;
-          if (option === 'fees') {
-            // Ascending order for fees (lower fee comes first)
-            comparison = a.parsedFees - b.parsedFees;
-          } else if (option === 'experience') {
-            // Descending order for experience (higher experience comes first)
-            comparison = b.parsedExperience - a.parsedExperience;
-          }
-
-          // If the comparison result is non-zero, this criterion determines the order
-          if (comparison !== 0) {
-            return comparison;
-          }
-          // If comparison is zero, proceed to the next sort criterion in the array
-        }
-        // If all criteria result in zero comparison, maintain original relative order
-        return 0;
-      });
-    }
+    // Doctors that tie on every level (or when no sort is picked) keep the ranked order
+    return sortDoctors(doctors, sortOptions, { relevanceScores, distances, nextAvailableSlots });
+  }, [searchMatchedDoctors, currentFilters, filterContext, relevanceScores, distances, nextAvailableSlots, sortOptions]); // Depend on sortOptions array
+
+  // The revealed slice of the filtered list
+  const visibleDoctors = useMemo(
+    () => filteredDoctors.slice(0, visibleCount),
+    [filteredDoctors, visibleCount]
+  );
+  const hasMore = visibleCount < filteredDoctors.length || remotePagination.hasMore;
 
-    return doctors;
-  }, [allDoctors, searchTerm, consultationType, selectedSpecialties, sortOptions]); // Depend on sortOptions array
+  // Matched fragments per doctor id, used to highlight why a doctor matched
+  const matchHighlights = useMemo(
+    () => new Map(searchResults.map(result => [result.doctor.id, result.highlights])),
+    [searchResults]
+  );
 
-  // Memoized calculation of autocomplete suggestions
-  const suggestions = useMemo(() => {
-    if (!searchTerm.trim()) return []; // No suggestions if search term is empty
-    const lowerSearchTerm = searchTerm.toLowerCase();
-    // Filter all doctors by name and take the top N matches
-    return allDoctors
-      .filter(doc => doc.name.toLowerCase().includes(lowerSearchTerm))
-      .slice(0, MAX_SUGGESTIONS);
-  }, [allDoctors, searchTerm]);
+  // Memoized calculation of grouped autocomplete suggestions: the top N ranked doctors,
+  // followed by matching specialties, clinics and localities (flat list, in display order)
+  const suggestions = useMemo((): SearchSuggestion[] => {
+    if (!isSearching) return [];
+    return [
+      ...searchResults.slice(0, MAX_SUGGESTIONS).map((result): SearchSuggestion => ({
+        category: 'doctor',
+        key: `doctor:${result.doctor.id}`,
+        label: result.doctor.name,
+        result,
+      })),
+      ...suggestFieldValues(searchIndex, searchTerm, 'specialty', MAX_SUGGESTIONS),
+      ...suggestFieldValues(searchIndex, searchTerm, 'clinic', MAX_SUGGESTIONS),
+      ...suggestFieldValues(searchIndex, searchTerm, 'locality', MAX_SUGGESTIONS),
+    ];
+  }, [searchIndex, searchResults, searchTerm, isSearching]);
 
   // --- Callback Handlers (Memoized with useCallback) ---
 
@@ -228,53 +475,403 @@ export function useDoctorFinder(): UseDoctorFinderReturn {
     });
   }, []);
 
+  /** Toggles a city filter on/off; removing a city also drops its selected localities */
+  const handleToggleCity = useCallback((city: string) => {
+    const isRemoving = selectedCities.has(city);
+    setSelectedCities(prev => {
+      const newSet = new Set(prev);
+      if (isRemoving) {
+        newSet.delete(city);
+      } else {
+        newSet.add(city);
+      }
+      return newSet;
+    });
+    if (isRemoving) {
+      const cityLocalities = availablePlaces.find(group => group.city === city)?.localities ?? [];
+      setSelectedLocalities(prev => {
+        if (!cityLocalities.some(locality => prev.has(locality))) return prev;
+        const newSet = new Set(prev);
+        cityLocalities.forEach(locality => newSet.delete(locality));
+        return newSet;
+      });
+    }
+  }, [selectedCities, availablePlaces]);
+
+  /** Toggles a locality filter on/off */
+  const handleToggleLocality = useCallback((locality: string) => {
+    setSelectedLocalities(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(locality)) {
+        newSet.delete(locality);
+      } else {
+        newSet.add(locality);
+      }
+      return newSet;
+    });
+  }, []);
+
+  /** Toggles a language filter on/off */
+  const handleToggleLanguage = useCallback((language: string) => {
+    setSelectedLanguages(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(language)) {
+        newSet.delete(language);
+      } else {
+        newSet.add(language);
+      }
+      return newSet;
+    });
+  }, []);
+
+  /** Sets whether doctors must speak any or all of the selected languages */
+  const handleSetLanguageMatch = useCallback((mode: FacetMatchMode) => {
+    setLanguageMatch(mode);
+  }, []);
+
+  /** Sets the fee range filter (null ends are unbounded) */
+  const handleSetFeeRange = useCallback((range: NumericRange) => {
+    setFeeRange(replaceRange(range));
+  }, []);
+
+  /** Sets the experience range filter (null ends are unbounded) */
+  const handleSetExperienceRange = useCallback((range: NumericRange) => {
+    setExperienceRange(replaceRange(range));
+  }, []);
+
+  /** Sets the maximum distance filter in km (null removes it) */
+  const handleSetMaxDistance = useCallback((km: number | null) => {
+    setMaxDistanceKm(parseMaxDistance(km));
+  }, []);
+
+  /** Restricts results to doctors available today / this week (null removes it) */
+  const handleSetAvailableWithin = useCallback((availabilityWindow: AvailabilityWindow | null) => {
+    setAvailableWithin(availabilityWindow);
+  }, []);
+
+  /** Restricts results to the shortlisted doctors */
+  const handleSetShortlistedOnly = useCallback((isShortlistedOnly: boolean) => {
+    setShortlistedOnly(isShortlistedOnly);
+  }, []);
+
+  /** Asks the browser for the user's position and uses it as the reference point */
+  const locateUser = useCallback(() => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setReferencePointError('Location is not supported by this browser. Type a locality instead.');
+      return;
+    }
+    setIsLocating(true);
+    setReferencePointError(null);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setReferencePoint({
+          point: { lat: position.coords.latitude, lng: position.coords.longitude },
+          label: CURRENT_LOCATION_LABEL,
+          source: 'geolocation',
+        });
+        setIsLocating(false);
+      },
+      geolocationError => {
+        setReferencePointError(describeGeolocationError(geolocationError));
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  }, []);
+
+  /** Uses a typed locality or city (located from the loaded clinics) as the reference point */
+  const setReferencePlace = useCallback((place: string): boolean => {
+    const located = locatePlace(allDoctors, place);
+    if (!located) {
+      setReferencePointError(`No clinics with a known location were found in "${place.trim()}".`);
+      return false;
+    }
+    setReferencePoint({ point: located.point, label: located.label, source: 'place' });
+    setReferencePointError(null);
+    return true;
+  }, [allDoctors]);
+
+  /** Forgets the reference point (distance sorting and filtering then have no effect) */
+  const clearReferencePoint = useCallback(() => {
+    setReferencePoint(null);
+    setReferencePointError(null);
+  }, []);
+
   /** Toggles a sort criterion on/off in the sortOptions array */
-  const handleToggleSortOption = useCallback((option: SortCriterion) => {
+  const handleToggleSortOption = useCallback((criterion: SortCriterion) => {
     setSortOptions(prev => {
-      const currentIndex = prev.indexOf(option);
-      if (currentIndex > -1) {
+      if (prev.some(option => option.criterion === criterion)) {
         // If already present, remove it
-        return prev.filter(item => item !== option);
+        return prev.filter(option => option.criterion !== criterion);
       } else {
-        // If not present, add it to the end of the array
-        return [...prev, option];
+        // If not present, add it as the lowest priority, in its default direction
+        return [...prev, { criterion, direction: SORT_CRITERION_INFO[criterion].defaultDirection }];
       }
     });
   }, []);
 
+  /** Changes the direction of an active sort criterion (ignored when it isn't active) */
+  const handleSetSortDirection = useCallback((criterion: SortCriterion, direction: SortDirection) => {
+    setSortOptions(prev => {
+      const current = prev.find(option => option.criterion === criterion);
+      if (!current || current.direction === direction) return prev;
+      return prev.map(option => (option === current ? { criterion, direction } : option));
+    });
+  }, []);
+
+  /** Moves an active sort criterion up (negative offset) or down (positive offset) the priority list */
+  const handleMoveSortOption = useCallback((criterion: SortCriterion, offset: number) => {
+    setSortOptions(prev => {
+      const from = prev.findIndex(option => option.criterion === criterion);
+      const to = Math.min(Math.max(from + offset, 0), prev.length - 1);
+      if (from === -1 || to === from) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
   /** Updates the search term definitively (e.g., from suggestion click or Enter) */
   const updateSearchTermFromSuggestion = useCallback((term: string) => {
       setSearchTerm(term);
   }, []);
 
+  /**
+   * Applies a picked autocomplete suggestion: doctors and clinics become the search term,
+   * while specialties and localities are applied as filters (and the search term is cleared).
+   */
+  const selectSuggestion = useCallback((suggestion: SearchSuggestion) => {
+    switch (suggestion.category) {
+      case 'doctor':
+      case 'clinic':
+        setSearchTerm(suggestion.label);
+        break;
+      case 'specialty':
+        if (!selectedSpecialties.has(suggestion.label)) handleToggleSpecialty(suggestion.label);
+        setSearchTerm('');
+        break;
+      case 'locality':
+        if (!selectedLocalities.has(suggestion.label)) handleToggleLocality(suggestion.label);
+        setSearchTerm('');
+        break;
+    }
+  }, [selectedSpecialties, selectedLocalities, handleToggleSpecialty, handleToggleLocality]);
+
+  /**
+   * Fetches the next server page of a paged data source and appends it to the list.
+   * @param reveal - Whether to also reveal one more page of results (an explicit "load more").
+   */
+  const fetchNextPage = useCallback(async (reveal: boolean) => {
+    // A refresh replaces the list from its first page, so don't append to the old one meanwhile
+    if (!remotePagination.hasMore || pageRequestRef.current || isRefreshing) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    pageRequestRef.current = controller;
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const page = await loadDoctorPage(dataSource, {
+        page: remotePagination.nextPage,
+        limit: pageSize,
+        cursor: remotePagination.cursor,
+      }, { signal });
+      if (signal.aborted) return;
+      setAllDoctors(prev => appendUniqueDoctors(prev, page.doctors));
+      setDataQuality(prev => (prev ? mergeDataQualityReports(prev, page.report) : page.report));
+      setRemotePagination(prev => ({
+        nextPage: prev.nextPage + 1,
+        cursor: page.nextCursor ?? null,
+        hasMore: page.hasMore,
+      }));
+      if (reveal) setVisibleCount(prev => prev + pageSize);
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error("Failed to load more doctors:", e);
+      setLoadMoreError(e instanceof Error ? e.message : 'An unknown error occurred while loading more doctors.');
+    } finally {
+      pageRequestRef.current = null;
+      setIsLoadingMore(false);
+    }
+  }, [dataSource, pageSize, remotePagination, isRefreshing]);
+
+  /**
+   * Reveals the next page of results. Already-loaded matches are revealed first;
+   * once those run out, the next server page is fetched (for paged data sources).
+   */
+  const loadMore = useCallback(async () => {
+    if (visibleCount < filteredDoctors.length) {
+      setVisibleCount(prev => prev + pageSize);
+      return;
+    }
+    // Revealing more only makes sense once the revealed slice is full; short of that (a
+    // retry after the automatic fetching below failed) the fetched page just fills it
+    await fetchNextPage(filteredDoctors.length >= visibleCount);
+  }, [pageSize, visibleCount, filteredDoctors.length, fetchNextPage]);
+
+  // Effect to keep fetching server pages while the loaded doctors don't fill the revealed
+  // results. Search and filters only see loaded pages, so a narrow search may need several
+  // pages (or all of them) before it shows a full page of matches, or any at all.
+  // Stops at the last page or on a failure (the "Try Again" button resumes).
+  useEffect(() => {
+    if (isLoading || isRefreshing || isLoadingMore || loadMoreError) return;
+    if (filteredDoctors.length >= visibleCount || !remotePagination.hasMore) return;
+    fetchNextPage(false);
+  }, [isLoading, isRefreshing, isLoadingMore, loadMoreError, filteredDoctors.length, visibleCount, remotePagination.hasMore, fetchNextPage]);
+
+  /** Fetches the list again; the current list stays visible until the new one arrives */
+  const refresh = useCallback(() => {
+    setReloadCount(prev => prev + 1);
+  }, []);
+
+  /**
+   * Grows the revealed slice, in whole pages, until it includes the given doctor
+   * (e.g. one picked on the map further down the results than the list shows).
+   */
+  const revealDoctor = useCallback((doctorId: string) => {
+    const index = filteredDoctors.findIndex(doc => doc.id === doctorId);
+    if (index < 0) return;
+    setVisibleCount(prev => Math.max(prev, Math.ceil((index + 1) / pageSize) * pageSize));
+  }, [filteredDoctors, pageSize]);
+
+  /** Loads one doctor directly from the data source, e.g. for a deep-linked detail page */
+  const fetchDoctorById = useCallback(
+    (doctorId: string, signal?: AbortSignal) => loadDoctorById(dataSource, doctorId, { signal }),
+    [dataSource]
+  );
+
+  /** Adds a doctor to the comparison, or removes them when already there */
+  const toggleCompare = useCallback((doctorId: string) => {
+    setCompareIds(prev => toggleComparedDoctor(prev, doctorId));
+  }, []);
+
+  /** Removes every doctor from the comparison */
+  const clearCompare = useCallback(() => {
+    setCompareIds([]);
+  }, []);
+
   /** Resets all filters, search term, and sort options to their default states */
   const clearFilters = useCallback(() => {
     setSearchTerm('');
     setConsultationType(null);
     setSelectedSpecialties(new Set());
+    setSelectedCities(new Set());
+    setSelectedLocalities(new Set());
+    setSelectedLanguages(new Set());
+    setLanguageMatch('any');
+    setFeeRange({ min: null, max: null });
+    setExperienceRange({ min: null, max: null });
+    setMaxDistanceKm(null);
+    setAvailableWithin(null);
+    setShortlistedOnly(false);
     setSortOptions([]); // Reset sort options to an empty array
   }, []);
 
+  /** Replaces every filter, the search term and sort options at once */
+  const applyFilterState = useCallback((filters: FilterState) => {
+    setSearchTerm(filters.searchTerm);
+    setConsultationType(filters.consultationType);
+    setSelectedSpecialties(new Set(filters.specialties));
+    setSelectedCities(new Set(filters.cities));
+    setSelectedLocalities(new Set(filters.localities));
+    setSelectedLanguages(new Set(filters.languages));
+    setLanguageMatch(filters.languageMatch);
+    setFeeRange({ ...filters.feeRange });
+    setExperienceRange({ ...filters.experienceRange });
+    setMaxDistanceKm(filters.maxDistanceKm);
+    setAvailableWithin(filters.availableWithin);
+    setShortlistedOnly(filters.shortlistedOnly);
+    setSortOptions(filters.sortOptions.map(option => ({ ...option })));
+  }, []);
+
+  // Effect to restore the search of the history entry Back/Forward lands on
+  useEffect(() => {
+    const search = searchParams.toString();
+    if (navigationType !== 'POP' || search === syncedSearchRef.current) return;
+    const state = parseUrlState(searchParams);
+    syncedSearchRef.current = search;
+    syncedHistoryKeyRef.current = getUrlStateHistoryKey(state);
+    applyFilterState(state.filters);
+    setReferencePoint(state.referencePoint);
+    setCompareIds(state.compareIds);
+  }, [navigationType, searchParams, applyFilterState]);
+
   // --- Return Value ---
   // Expose state and memoized handlers
   return {
     allDoctors,
     filteredDoctors,
+    visibleDoctors,
+    hasMore,
+    isLoadingMore,
+    loadMoreError,
     availableSpecialties,
+    availablePlaces,
+    availableLanguages,
+    facetCounts,
+    feeBounds,
+    experienceBounds,
+    referencePoint,
+    isLocating,
+    referencePointError,
+    distances,
+    nextAvailableSlots,
+    referencePlaces,
     isLoading,
     error,
+    lastUpdatedAt,
+    isRefreshing,
+    refreshError,
+    hasLoadedAllDoctors: !isLoading && !isRefreshing && !error && !remotePagination.hasMore,
+    dataQuality,
     suggestions,
+    relevanceScores,
+    matchHighlights,
+    compareIds,
     // Filter/Sort State
     searchTerm,
     consultationType,
     specialties: selectedSpecialties,
+    cities: selectedCities,
+    localities: selectedLocalities,
+    languages: selectedLanguages,
+    languageMatch,
+    feeRange,
+    experienceRange,
+    maxDistanceKm,
+    availableWithin,
+    shortlistedOnly,
     sortOptions, // Expose the array of active sort options
     // Handlers
     setSearchTerm: handleSetSearchTerm,
     setConsultationType: handleSetConsultationType,
     toggleSpecialty: handleToggleSpecialty,
+    toggleCity: handleToggleCity,
+    toggleLocality: handleToggleLocality,
+    toggleLanguage: handleToggleLanguage,
+    setLanguageMatch: handleSetLanguageMatch,
+    locateUser,
+    setReferencePlace,
+    clearReferencePoint,
+    setMaxDistance: handleSetMaxDistance,
+    setAvailableWithin: handleSetAvailableWithin,
+    setShortlistedOnly: handleSetShortlistedOnly,
+    setFeeRange: handleSetFeeRange,
+    setExperienceRange: handleSetExperienceRange,
     toggleSortOption: handleToggleSortOption, // Expose the updated sort handler
+    setSortDirection: handleSetSortDirection,
+    moveSortOption: handleMoveSortOption,
     clearFilters,
+    currentFilters,
+    applyFilterState,
     updateSearchTermFromSuggestion,
+    selectSuggestion,
+    loadMore,
+    refresh,
+    revealDoctor,
+    fetchDoctorById,
+    toggleCompare,
+    clearCompare,
   };
 }
\ No newline at end of file
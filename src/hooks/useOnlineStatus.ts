@@ -0,0 +1,27 @@
+// src/hooks/useOnlineStatus.ts
+
+import { useState, useEffect } from 'react';
+
+/**
+ * Whether the browser reports a network connection. `navigator.onLine` can only be trusted
+ * when it says offline (being "online" may still mean a captive portal or a dead link), so
+ * this drives hints such as the offline banner, not whether requests are attempted.
+ * @returns False while the browser is offline.
+ */
+export function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = useState<boolean>(() => typeof navigator === 'undefined' || navigator.onLine !== false);
+
+  // Effect to follow connection changes
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+}
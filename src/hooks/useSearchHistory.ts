@@ -0,0 +1,125 @@
+// src/hooks/useSearchHistory.ts
+
+import { useState, useEffect, useCallback } from 'react';
+import { FilterState, RecentSearch, SavedSearchPreset } from '../types';
+import {
+  loadRecentSearches,
+  loadSavedPresets,
+  saveRecentSearches,
+  saveSavedPresets,
+} from '../services/searchHistoryStorage';
+import { getFilterStateKey, isFilterStateEmpty } from '../utils/filterState';
+
+const MAX_RECENT_SEARCHES = 8;
+// How long a filter combination must stay unchanged before it is recorded,
+// so ticking three checkboxes in a row produces one history entry rather than three
+const RECORD_DELAY_MS = 1500;
+
+interface UseSearchHistoryReturn {
+  /** Recently used search/filter combinations, most recent first */
+  recentSearches: RecentSearch[];
+  /** Filter combinations saved under a name */
+  savedPresets: SavedSearchPreset[];
+  /** Removes one recent search */
+  removeRecentSearch: (id: string) => void;
+  /** Removes every recent search */
+  clearRecentSearches: () => void;
+  /** Saves `filters` under `name`; a preset with the same name (case-insensitive) is replaced */
+  savePreset: (name: string, filters: FilterState) => void;
+  /** Deletes a saved preset */
+  deletePreset: (id: string) => void;
+}
+
+/** Generates a reasonably unique id without relying on crypto.randomUUID availability */
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Persisted (localStorage) history of recent searches and named filter presets.
+ * Non-empty filter combinations are recorded automatically once they have been
+ * stable for a moment; presets are only created explicitly.
+ * @param currentFilters - The filter state currently applied to the list.
+ * @returns History state and handlers.
+ */
+export function useSearchHistory(currentFilters: FilterState): UseSearchHistoryReturn {
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>(loadRecentSearches);
+  const [savedPresets, setSavedPresets] = useState<SavedSearchPreset[]>(loadSavedPresets);
+
+  // Effect to record the current filters once they settle
+  useEffect(() => {
+    if (isFilterStateEmpty(currentFilters)) return;
+    const timer = setTimeout(() => {
+      const id = getFilterStateKey(currentFilters);
+      setRecentSearches(prev => {
+        const next = [
+          { id, filters: currentFilters, lastUsedAt: Date.now() },
+          ...prev.filter(search => search.id !== id),
+        ].slice(0, MAX_RECENT_SEARCHES);
+        saveRecentSearches(next);
+        return next;
+      });
+    }, RECORD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentFilters]);
+
+  // Effect to pick up changes made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage) return;
+      setRecentSearches(loadRecentSearches());
+      setSavedPresets(loadSavedPresets());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const removeRecentSearch = useCallback((id: string) => {
+    setRecentSearches(prev => {
+      const next = prev.filter(search => search.id !== id);
+      saveRecentSearches(next);
+      return next;
+    });
+  }, []);
+
+  const clearRecentSearches = useCallback(() => {
+    setRecentSearches([]);
+    saveRecentSearches([]);
+  }, []);
+
+  const savePreset = useCallback((name: string, filters: FilterState) => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    setSavedPresets(prev => {
+      const existing = prev.find(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+      const preset: SavedSearchPreset = {
+        id: existing?.id ?? createId(),
+        name: trimmedName,
+        filters,
+        createdAt: existing?.createdAt ?? Date.now(),
+      };
+      const next = existing
+        ? prev.map(item => (item.id === existing.id ? preset : item))
+        : [...prev, preset];
+      saveSavedPresets(next);
+      return next;
+    });
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setSavedPresets(prev => {
+      const next = prev.filter(preset => preset.id !== id);
+      saveSavedPresets(next);
+      return next;
+    });
+  }, []);
+
+  return {
+    recentSearches,
+    savedPresets,
+    removeRecentSearch,
+    clearRecentSearches,
+    savePreset,
+    deletePreset,
+  };
+}
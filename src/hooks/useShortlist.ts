@@ -0,0 +1,71 @@
+// src/hooks/useShortlist.ts
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Doctor, ShortlistEntry } from '../types';
+import { loadShortlist, saveShortlist } from '../services/shortlistStorage';
+import { createShortlistEntry } from '../utils/shortlist';
+
+interface UseShortlistReturn {
+  /** Shortlisted doctors, in the order they were added */
+  entries: ShortlistEntry[];
+  /** Ids of the shortlisted doctors, for quick lookups */
+  shortlistedIds: ReadonlySet<string>;
+  /** Adds a doctor to the shortlist, or removes them when already there */
+  toggleShortlist: (doctor: Doctor) => void;
+  /** Removes one doctor (by id, so entries for doctors no longer in the data can be removed too) */
+  removeFromShortlist: (doctorId: string) => void;
+  /** Removes every doctor */
+  clearShortlist: () => void;
+}
+
+/**
+ * Persisted (localStorage) shortlist of doctors. Entries are keyed by doctor id, so they
+ * survive data refreshes and are matched against whatever data is loaded next.
+ * @returns Shortlist state and handlers.
+ */
+export function useShortlist(): UseShortlistReturn {
+  const [entries, setEntries] = useState<ShortlistEntry[]>(loadShortlist);
+
+  // Effect to pick up changes made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage) return;
+      setEntries(loadShortlist());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const shortlistedIds = useMemo(() => new Set(entries.map(entry => entry.doctorId)), [entries]);
+
+  const toggleShortlist = useCallback((doctor: Doctor) => {
+    setEntries(prev => {
+      const next = prev.some(entry => entry.doctorId === doctor.id)
+        ? prev.filter(entry => entry.doctorId !== doctor.id)
+        : [...prev, createShortlistEntry(doctor)];
+      saveShortlist(next);
+      return next;
+    });
+  }, []);
+
+  const removeFromShortlist = useCallback((doctorId: string) => {
+    setEntries(prev => {
+      const next = prev.filter(entry => entry.doctorId !== doctorId);
+      saveShortlist(next);
+      return next;
+    });
+  }, []);
+
+  const clearShortlist = useCallback(() => {
+    setEntries([]);
+    saveShortlist([]);
+  }, []);
+
+  return {
+    entries,
+    shortlistedIds,
+    toggleShortlist,
+    removeFromShortlist,
+    clearShortlist,
+  };
+}
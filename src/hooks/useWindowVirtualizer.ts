@@ -0,0 +1,198 @@
+// src/hooks/useWindowVirtualizer.ts
+
+import { useState, useMemo, useEffect, useCallback, useRef, useLayoutEffect, RefObject } from 'react';
+
+interface UseWindowVirtualizerOptions {
+  /** Number of items in the list */
+  count: number;
+  /** Stable key for the item at an index (used to remember measured heights) */
+  getKey: (index: number) => string;
+  /** Height in pixels assumed for items that have not been measured yet */
+  estimateSize: number;
+  /** Extra items rendered above and below the viewport */
+  overscan?: number;
+  /** When false, every item is rendered (virtualization disabled) */
+  enabled?: boolean;
+}
+
+/** An item that should currently be mounted, with its offset from the list top */
+export interface VirtualItem {
+  index: number;
+  key: string;
+  start: number;
+  size: number;
+}
+
+interface UseWindowVirtualizerReturn {
+  /** Attach to the element that wraps the list (used to find its position in the page) */
+  containerRef: RefObject<HTMLDivElement | null>;
+  /** Items to render, in order */
+  virtualItems: VirtualItem[];
+  /** Space in pixels to reserve before the first rendered item */
+  paddingTop: number;
+  /** Space in pixels to reserve after the last rendered item */
+  paddingBottom: number;
+  /** Ref callback for rendered items; they must carry a `data-index` attribute */
+  measureElement: (element: HTMLElement | null) => void | (() => void);
+  /**
+   * Scrolls the window so the item at `index` is in view; `offset` is extra space (in
+   * pixels) to keep free above it, e.g. for another sticky element
+   */
+  scrollToIndex: (index: number, options?: { behavior?: ScrollBehavior; offset?: number }) => void;
+}
+
+/**
+ * Windowed rendering for a list that scrolls with the page (not an inner scroll container).
+ * Only the items intersecting the viewport (plus `overscan`) are reported for rendering;
+ * item heights are measured after mount with a ResizeObserver, so cards of varying height
+ * are positioned correctly once seen and estimated until then.
+ * @param options - See UseWindowVirtualizerOptions.
+ * @returns The items to render, spacer sizes and helpers.
+ */
+export function useWindowVirtualizer({
+  count,
+  getKey,
+  estimateSize,
+  overscan = 4,
+  enabled = true,
+}: UseWindowVirtualizerOptions): UseWindowVirtualizerReturn {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  // Measured heights by item key; survives re-sorting because it is keyed, not indexed
+  const measuredSizesRef = useRef<Map<string, number>>(new Map());
+  // Bumped whenever a measurement changes so offsets are recomputed
+  const [measureVersion, setMeasureVersion] = useState(0);
+  // Visible window, in pixels relative to the top of the list container
+  const [viewport, setViewport] = useState({ top: 0, height: typeof window !== 'undefined' ? window.innerHeight : 800 });
+
+  // Effect to track the window scroll position relative to the list (rAF-throttled)
+  useLayoutEffect(() => {
+    if (!enabled) return;
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (!container) return;
+      const rect = container.getBoundingClientRect();
+      setViewport(prev => {
+        const next = { top: -rect.top, height: window.innerHeight };
+        return prev.top === next.top && prev.height === next.height ? prev : next;
+      });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [enabled]);
+
+  // Memoized start offsets for every item (O(n); fine for thousands of items)
+  const offsets = useMemo(() => {
+    const starts = new Array<number>(count);
+    const sizes = new Array<number>(count);
+    let running = 0;
+    for (let i = 0; i < count; i++) {
+      starts[i] = running;
+      sizes[i] = measuredSizesRef.current.get(getKey(i)) ?? estimateSize;
+      running += sizes[i];
+    }
+    return { starts, sizes, total: running };
+    // measureVersion is the signal that measuredSizesRef changed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [count, getKey, estimateSize, measureVersion]);
+
+  // Memoized range of items intersecting the viewport
+  const virtualItems = useMemo((): VirtualItem[] => {
+    if (count === 0) return [];
+    const toItem = (index: number): VirtualItem => ({
+      index,
+      key: getKey(index),
+      start: offsets.starts[index],
+      size: offsets.sizes[index],
+    });
+    if (!enabled) return Array.from({ length: count }, (_, index) => toItem(index));
+
+    // Binary search for the first item whose bottom edge is below the viewport top
+    const viewTop = Math.max(0, viewport.top);
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets.starts[mid] + offsets.sizes[mid] <= viewTop) low = mid + 1;
+      else high = mid;
+    }
+    const viewBottom = viewport.top + viewport.height;
+    let end = low;
+    while (end < count - 1 && offsets.starts[end + 1] < viewBottom) end++;
+
+    const first = Math.max(0, low - overscan);
+    const last = Math.min(count - 1, end + overscan);
+    const items: VirtualItem[] = [];
+    for (let i = first; i <= last; i++) items.push(toItem(i));
+    return items;
+  }, [count, enabled, getKey, offsets, overscan, viewport]);
+
+  // One shared ResizeObserver re-measures rendered items when their height changes
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
+  const getKeyRef = useRef(getKey);
+  getKeyRef.current = getKey;
+
+  const recordSize = useCallback((element: HTMLElement) => {
+    const index = Number(element.dataset.index);
+    if (Number.isNaN(index)) return;
+    const key = getKeyRef.current(index);
+    const size = element.getBoundingClientRect().height;
+    if (size > 0 && measuredSizesRef.current.get(key) !== size) {
+      measuredSizesRef.current.set(key, size);
+      setMeasureVersion(version => version + 1);
+    }
+  }, []);
+
+  // Effect to stop observing when the list unmounts
+  useEffect(() => () => {
+    resizeObserverRef.current?.disconnect();
+    resizeObserverRef.current = null;
+  }, []);
+
+  // Ref callback; the returned cleanup (React 19) stops observing unmounted items.
+  // The observer is created on first use, since ref callbacks of the first render run
+  // before any effect, and those items must be re-measured too (photos load, text wraps)
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    recordSize(element);
+    if (!resizeObserverRef.current && typeof ResizeObserver !== 'undefined') {
+      resizeObserverRef.current = new ResizeObserver(entries => {
+        entries.forEach(entry => recordSize(entry.target as HTMLElement));
+      });
+    }
+    const observer = resizeObserverRef.current;
+    observer?.observe(element);
+    return () => observer?.unobserve(element);
+  }, [recordSize]);
+
+  const scrollToIndex = useCallback((index: number, options: { behavior?: ScrollBehavior; offset?: number } = {}) => {
+    const container = containerRef.current;
+    if (!container || index < 0 || index >= count) return;
+    const containerTop = container.getBoundingClientRect().top + window.scrollY;
+    // Leave room for the sticky navbar at the top of the page
+    const navbarOffset = parseInt(getComputedStyle(document.documentElement).getPropertyValue('--navbar-height'), 10) || 80;
+    window.scrollTo({ top: containerTop + offsets.starts[index] - navbarOffset - (options.offset ?? 0), behavior: options.behavior ?? 'smooth' });
+  }, [count, offsets]);
+
+  const firstItem = virtualItems[0];
+  const lastItem = virtualItems[virtualItems.length - 1];
+
+  return {
+    containerRef,
+    virtualItems,
+    paddingTop: firstItem ? firstItem.start : 0,
+    paddingBottom: lastItem ? offsets.total - (lastItem.start + lastItem.size) : 0,
+    measureElement,
+    scrollToIndex,
+  };
+}
@@ -0,0 +1,215 @@
+// src/services/bookingService.ts
+
+import { Booking, BookingService, BookingSlot, BookingSlotRequest, DoctorAvailability, WeeklySession } from '../types';
+import { listSlotsForDay } from '../utils/availability';
+import { parseDateKey, toDateKey } from '../utils/dateTime';
+import { readStoredItems, writeStoredItems } from './localStore';
+
+const BOOKING_API_URL = import.meta.env.VITE_BOOKING_API;
+const BOOKINGS_KEY = 'doctorFinder.bookings';
+
+/**
+ * The same [start, end) hours on each of the given weekdays.
+ * @param weekdays - Days as Date.getDay() indices.
+ * @param hours - Sessions as [start hour, end hour] pairs.
+ */
+function weeklySessions(weekdays: number[], hours: [number, number][]): WeeklySession[] {
+  return weekdays.flatMap(weekday =>
+    hours.map(([start, end]) => ({ weekday, startMinutes: start * 60, endMinutes: end * 60 }))
+  );
+}
+
+// Mock hours for doctors who haven't published their own; clinics are closed on Sundays
+const FALLBACK_AVAILABILITY: DoctorAvailability = {
+  schedules: {
+    'In Clinic': { slotMinutes: 30, sessions: weeklySessions([1, 2, 3, 4, 5, 6], [[10, 13], [17, 20]]) },
+    'Video Consult': { slotMinutes: 30, sessions: weeklySessions([0, 1, 2, 3, 4, 5, 6], [[9, 12], [18, 21]]) },
+  },
+  blockedDates: [],
+};
+// Roughly this share of fallback slots is shown as already taken by other patients
+const MOCK_TAKEN_RATIO = 0.3;
+
+/** Generates a reasonably unique id without relying on crypto.randomUUID availability */
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Short human-friendly booking reference, e.g. "DF-7K2Q9" */
+function createReference(): string {
+  return `DF-${Math.random().toString(36).slice(2, 7).toUpperCase().padEnd(5, '0')}`;
+}
+
+/**
+ * Deterministic 32-bit FNV-1a hash, so the mock shows the same taken slots on every visit.
+ * @param value - Text to hash.
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Loads the appointments booked through the offline mock. */
+export function loadBookings(): Booking[] {
+  return readStoredItems(BOOKINGS_KEY).flatMap((item): Booking[] => {
+    const entry = item as Partial<Booking> | null;
+    const patient = entry?.patient;
+    if (
+      !entry || typeof entry.id !== 'string' || typeof entry.doctorId !== 'string' ||
+      typeof entry.slotStart !== 'string' || (entry.mode !== 'Video Consult' && entry.mode !== 'In Clinic') ||
+      typeof patient !== 'object' || patient === null || typeof patient.name !== 'string'
+    ) {
+      return [];
+    }
+    return [{
+      id: entry.id,
+      reference: typeof entry.reference === 'string' ? entry.reference : entry.id,
+      doctorId: entry.doctorId,
+      doctorName: typeof entry.doctorName === 'string' ? entry.doctorName : '',
+      mode: entry.mode,
+      slotStart: entry.slotStart,
+      patient: {
+        name: patient.name,
+        phone: typeof patient.phone === 'string' ? patient.phone : '',
+        email: typeof patient.email === 'string' ? patient.email : '',
+        reason: typeof patient.reason === 'string' ? patient.reason : '',
+      },
+      createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : 0,
+    }];
+  });
+}
+
+/** Persists the appointments booked through the offline mock. */
+function saveBookings(bookings: Booking[]): void {
+  writeStoredItems(BOOKINGS_KEY, bookings);
+}
+
+/**
+ * Creates a booking service that works fully offline: slots follow the doctor's published
+ * hours (or fixed fallback hours with some pseudo-randomly taken), and bookings are kept
+ * in localStorage (so a booked slot stays taken after a reload).
+ * @param options.delayMs - Artificial latency in milliseconds, so loading states are visible.
+ * @param options.now - Clock, injectable for demos and tests.
+ * @returns A BookingService backed by localStorage.
+ */
+export function createMockBookingService(
+  options: { delayMs?: number; now?: () => Date } = {}
+): BookingService {
+  const { delayMs = 300, now = () => new Date() } = options;
+  const respond = <T>(produce: () => T): Promise<T> => new Promise((resolve, reject) => {
+    setTimeout(() => {
+      try {
+        resolve(produce());
+      } catch (e) {
+        reject(e);
+      }
+    }, delayMs);
+  });
+
+  // Published hours last seen per doctor, so createBooking checks against the slots that were offered
+  const knownAvailability = new Map<string, DoctorAvailability | null>();
+
+  const listSlots = ({ doctorId, mode, date, availability }: BookingSlotRequest): BookingSlot[] => {
+    const day = parseDateKey(date);
+    if (!day) throw new Error(`Invalid date: ${date}`);
+
+    const bookedStarts = new Set(
+      loadBookings().filter(booking => booking.doctorId === doctorId).map(booking => booking.slotStart)
+    );
+    // Published hours are shown as they are, so they agree with the "Next available" time
+    // on the doctor's card; only the fallback hours get simulated bookings by others
+    return listSlotsForDay(availability ?? FALLBACK_AVAILABILITY, mode, day, now()).map(slot => {
+      const isTakenByOthers = !availability && hashString(`${doctorId}|${slot.start}`) % 100 < MOCK_TAKEN_RATIO * 100;
+      return { start: slot.start, isAvailable: slot.isAvailable && !isTakenByOthers && !bookedStarts.has(slot.start) };
+    });
+  };
+
+  return {
+    name: 'mock',
+    getSlots: (request) => {
+      knownAvailability.set(request.doctorId, request.availability ?? null);
+      return respond(() => listSlots(request));
+    },
+    createBooking: (request) => respond(() => {
+      const slot = listSlots({
+        doctorId: request.doctorId,
+        mode: request.mode,
+        date: toDateKey(new Date(request.slotStart)),
+        availability: knownAvailability.get(request.doctorId),
+      }).find(candidate => candidate.start === request.slotStart);
+      if (!slot?.isAvailable) {
+        throw new Error('This time is no longer available. Please choose another slot.');
+      }
+      const booking: Booking = { ...request, id: createId(), reference: createReference(), createdAt: Date.now() };
+      saveBookings([...loadBookings(), booking]);
+      return booking;
+    }),
+  };
+}
+
+/**
+ * Creates a booking service backed by an HTTP API:
+ * `GET {baseUrl}/doctors/{id}/slots?date=YYYY-MM-DD&mode=...` returning an array of
+ * `{ start, available }` (or `{ slots: [...] }`), and `POST {baseUrl}/bookings` with the
+ * BookingRequest as JSON, returning at least an `id` (and optionally a `reference`).
+ * @param baseUrl - The API root, without a trailing slash.
+ * @returns A BookingService backed by `fetch`.
+ */
+export function createHttpBookingService(baseUrl: string): BookingService {
+  const readError = async (response: Response, fallback: string): Promise<Error> => {
+    // APIs commonly explain rejections (e.g. a slot taken meanwhile) in a `message` field
+    const body = await response.json().catch(() => null) as { message?: unknown } | null;
+    return new Error(typeof body?.message === 'string' ? body.message : `${fallback} (status ${response.status})`);
+  };
+
+  return {
+    name: 'http',
+    getSlots: async ({ doctorId, mode, date }) => {
+      const url = new URL(`${baseUrl}/doctors/${encodeURIComponent(doctorId)}/slots`, window.location.href);
+      url.searchParams.set('date', date);
+      url.searchParams.set('mode', mode);
+      const response = await fetch(url.toString());
+      if (!response.ok) throw await readError(response, 'Could not load available times');
+      const body: unknown = await response.json();
+      const items = Array.isArray(body) ? body : (body as { slots?: unknown } | null)?.slots;
+      if (!Array.isArray(items)) return [];
+      return items.flatMap((item): BookingSlot[] => {
+        const slot = item as { start?: unknown; available?: unknown; isAvailable?: unknown } | null;
+        if (typeof slot?.start !== 'string' || Number.isNaN(Date.parse(slot.start))) return [];
+        return [{ start: slot.start, isAvailable: (slot.isAvailable ?? slot.available) !== false }];
+      });
+    },
+    createBooking: async (request) => {
+      const response = await fetch(`${baseUrl}/bookings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) throw await readError(response, 'The appointment could not be booked');
+      const body = await response.json() as Partial<Booking>;
+      const id = typeof body.id === 'string' ? body.id : String(body.id ?? createId());
+      return {
+        ...request,
+        id,
+        reference: typeof body.reference === 'string' ? body.reference : id,
+        createdAt: typeof body.createdAt === 'number' ? body.createdAt : Date.now(),
+      };
+    },
+  };
+}
+
+/**
+ * Picks the booking service for the running app: the HTTP API when `VITE_BOOKING_API`
+ * is defined, otherwise the offline mock.
+ * @returns The default BookingService.
+ */
+export function getDefaultBookingService(): BookingService {
+  if (BOOKING_API_URL) {
+    return createHttpBookingService(BOOKING_API_URL);
+  }
+  return createMockBookingService();
+}
@@ -0,0 +1,62 @@
+// src/services/doctorCache.ts
+
+import { readStoredItems, writeStoredItems } from './localStore';
+
+const DOCTOR_CACHE_KEY = 'doctorFinder.doctorCache';
+// Only the most recently used data sources are kept, to stay well within the storage quota
+const MAX_CACHED_SOURCES = 3;
+// Older copies are not shown at all: the list would be too far out of date to be useful
+export const DOCTOR_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** The last good payload of one data source, as received (before validation) */
+export interface DoctorCacheEntry {
+  /** The data source's `cacheKey` */
+  cacheKey: string;
+  /** Epoch milliseconds of the load */
+  savedAt: number;
+  /** Raw records; validated again when read, like a fresh payload */
+  items: unknown[];
+  /** Paging state after the cached pages (every page loaded so far); false for complete lists */
+  hasMore: boolean;
+  nextCursor: string | null;
+  /** The page to request after the cached ones */
+  nextPage: number;
+}
+
+/**
+ * Reads the cached payload of a data source.
+ * @param cacheKey - The data source's `cacheKey`.
+ * @param now - The current time in epoch milliseconds.
+ * @returns The entry, or null when there is none, it is malformed, or it is older than
+ *   DOCTOR_CACHE_MAX_AGE_MS.
+ */
+export function readDoctorCache(cacheKey: string, now: number = Date.now()): DoctorCacheEntry | null {
+  for (const item of readStoredItems(DOCTOR_CACHE_KEY)) {
+    const entry = item as Record<string, unknown> | null;
+    if (!entry || entry.cacheKey !== cacheKey) continue;
+    const { savedAt, items, hasMore, nextCursor, nextPage } = entry;
+    if (typeof savedAt !== 'number' || !Array.isArray(items)) return null;
+    if (typeof nextPage !== 'number' || !Number.isInteger(nextPage) || nextPage < 2) return null;
+    if (now - savedAt > DOCTOR_CACHE_MAX_AGE_MS) return null;
+    return {
+      cacheKey,
+      savedAt,
+      items,
+      hasMore: hasMore === true,
+      nextCursor: typeof nextCursor === 'string' && nextCursor ? nextCursor : null,
+      nextPage,
+    };
+  }
+  return null;
+}
+
+/**
+ * Stores the latest payload of a data source, replacing its previous copy.
+ * @param entry - The payload and its paging state.
+ */
+export function writeDoctorCache(entry: DoctorCacheEntry): void {
+  const others = readStoredItems(DOCTOR_CACHE_KEY).filter(item =>
+    typeof item === 'object' && item !== null && (item as { cacheKey?: unknown }).cacheKey !== entry.cacheKey
+  );
+  writeStoredItems(DOCTOR_CACHE_KEY, [entry, ...others].slice(0, MAX_CACHED_SOURCES));
+}
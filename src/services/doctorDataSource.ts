@@ -0,0 +1,371 @@
+// src/services/doctorDataSource.ts
+
+import {
+    CachedDoctorLoad,
+    DoctorDataSource,
+    DoctorFetchOptions,
+    DoctorLoadResult,
+    DoctorPageRequest,
+    DoctorPageResult,
+    RawDoctorData,
+    Doctor,
+    RawDoctorPage
+} from '../types';
+import { mapRawDoctors } from '../utils/doctorMapper';
+import { validateRawDoctors } from '../utils/doctorValidator';
+import { readDoctorCache, writeDoctorCache } from './doctorCache';
+import { FetchRetryOptions, fetchWithRetry } from './httpFetch';
+
+const API_URL = import.meta.env.VITE_PUBLIC_DOCTOR_API;
+// Set to "true" when the API honours `page`/`limit` (and optionally `cursor`) query params
+const API_PAGINATED = import.meta.env.VITE_DOCTOR_API_PAGINATED === 'true';
+// Optional single-doctor endpoint; "{id}" is replaced by the doctor id (e.g. "https://api.example.com/doctors/{id}")
+const API_DETAIL_URL = import.meta.env.VITE_DOCTOR_API_DETAIL;
+// Optional overrides of the per-attempt timeout (ms) and the number of retries
+const API_TIMEOUT_MS = readPositiveInteger(import.meta.env.VITE_DOCTOR_API_TIMEOUT_MS);
+const API_RETRIES = readPositiveInteger(import.meta.env.VITE_DOCTOR_API_RETRIES, { allowZero: true });
+
+/**
+ * Reads a whole number from an environment variable.
+ * @param value - The raw variable.
+ * @param options.allowZero - Whether 0 is accepted.
+ * @returns The number, or undefined when unset or invalid.
+ */
+function readPositiveInteger(value: unknown, { allowZero = false } = {}): number | undefined {
+  const parsed = Number(value);
+  if (value === undefined || value === '' || !Number.isInteger(parsed)) return undefined;
+  return parsed > 0 || (allowZero && parsed === 0) ? parsed : undefined;
+}
+
+/**
+ * Interprets a paged HTTP response. Accepts either a bare array (more pages are assumed
+ * while pages come back full) or an envelope such as
+ * `{ data: [...], total, nextCursor, hasMore }` (snake_case variants are accepted too).
+ * @param body - The parsed JSON body.
+ * @param request - The request that produced it.
+ */
+function parsePageResponse(body: unknown, request: DoctorPageRequest): RawDoctorPage {
+  if (Array.isArray(body)) {
+    return { items: body, hasMore: body.length >= request.limit };
+  }
+  if (typeof body !== 'object' || body === null) {
+    return { items: body, hasMore: false };
+  }
+
+  const envelope = body as Record<string, unknown>;
+  const items = envelope.data ?? envelope.items ?? envelope.doctors;
+  const itemCount = Array.isArray(items) ? items.length : 0;
+  const total = typeof envelope.total === 'number' ? envelope.total : undefined;
+  const rawCursor = envelope.nextCursor ?? envelope.next_cursor;
+  const nextCursor = typeof rawCursor === 'string' && rawCursor ? rawCursor : null;
+  const explicitHasMore = envelope.hasMore ?? envelope.has_more;
+
+  let hasMore: boolean;
+  if (typeof explicitHasMore === 'boolean') {
+    hasMore = explicitHasMore;
+  } else if (nextCursor) {
+    hasMore = true;
+  } else if (total !== undefined) {
+    hasMore = request.page * request.limit < total;
+  } else {
+    hasMore = itemCount >= request.limit;
+  }
+
+  return { items, hasMore, nextCursor, total };
+}
+
+/**
+ * Serves one page out of an in-memory array of records.
+ * @param records - The complete record list.
+ * @param request - The page to serve.
+ */
+function paginateRecords(records: unknown[], request: DoctorPageRequest): RawDoctorPage {
+  const start = (request.page - 1) * request.limit;
+  const items = records.slice(start, start + request.limit);
+  return { items, hasMore: start + items.length < records.length, total: records.length };
+}
+
+/**
+ * Finds a raw record by id in an in-memory array of records.
+ * @param records - The complete record list.
+ * @param id - The doctor id.
+ */
+function findRecord(records: unknown[], id: string): unknown | null {
+  return records.find(record =>
+    typeof record === 'object' && record !== null && String((record as { id?: unknown }).id) === id
+  ) ?? null;
+}
+
+/**
+ * Creates a data source that fetches the doctor list as JSON over HTTP.
+ * Every request is bounded by a timeout and retried on network errors and transient
+ * statuses (see fetchWithRetry).
+ * @param url - The endpoint returning an array of raw doctor records.
+ * @param options.paginated - When true, the source also supports paged fetching via
+ *                            `page`/`limit` (and `cursor`) query parameters.
+ * @param options.detailUrl - Optional single-doctor endpoint with an "{id}" placeholder;
+ *                            a 404 response means the doctor doesn't exist.
+ * @param options.timeoutMs - Time allowed per attempt (default 10 s).
+ * @param options.retries - Extra attempts after a transient failure (default 2).
+ * @param options.retryDelayMs - Wait before the first retry, doubled each time (default 500 ms).
+ * @returns A DoctorDataSource backed by `fetch`.
+ */
+export function createHttpDataSource(
+  url: string,
+  options: { paginated?: boolean; detailUrl?: string } & Partial<FetchRetryOptions> = {}
+): DoctorDataSource {
+  const { timeoutMs, retries, retryDelayMs } = options;
+  // The body is read inside fetchWithRetry, so a download that stalls still times out
+  const sendRequest = <T>(
+    requestUrl: string,
+    read: (response: Response) => Promise<T>,
+    { signal }: DoctorFetchOptions = {}
+  ): Promise<T> => fetchWithRetry(requestUrl, read, { timeoutMs, retries, retryDelayMs, signal });
+
+  const fetchJson = (requestUrl: string, fetchOptions?: DoctorFetchOptions): Promise<unknown> =>
+    sendRequest(requestUrl, async (response): Promise<unknown> => {
+      if (!response.ok) {
+        throw new Error(`HTTP error fetching doctor data! status: ${response.status}`);
+      }
+      return response.json();
+    }, fetchOptions);
+
+  const source: DoctorDataSource = {
+    name: 'http',
+    cacheKey: `http:${url}`,
+    fetchDoctors: (fetchOptions) => fetchJson(url, fetchOptions),
+  };
+
+  if (options.paginated) {
+    source.fetchPage = async (request, fetchOptions) => {
+      const pageUrl = new URL(url, window.location.href);
+      pageUrl.searchParams.set('limit', String(request.limit));
+      if (request.cursor) {
+        pageUrl.searchParams.set('cursor', request.cursor);
+      } else {
+        pageUrl.searchParams.set('page', String(request.page));
+      }
+      return parsePageResponse(await fetchJson(pageUrl.toString(), fetchOptions), request);
+    };
+  }
+
+  const { detailUrl } = options;
+  if (detailUrl) {
+    source.fetchDoctor = (id, fetchOptions) => sendRequest(detailUrl.replace('{id}', encodeURIComponent(id)), async (response): Promise<unknown> => {
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`HTTP error fetching doctor ${id}! status: ${response.status}`);
+      }
+      const body: unknown = await response.json();
+      // Accept the record itself or an envelope such as `{ data: {...} }`
+      if (typeof body === 'object' && body !== null && !('id' in body) && 'data' in body) {
+        return (body as { data: unknown }).data ?? null;
+      }
+      return body;
+    }, fetchOptions);
+  }
+
+  return source;
+}
+
+/**
+ * Creates a data source that serves the JSON fixture bundled with the app.
+ * The fixture is imported lazily so it only ends up in its own chunk and is never
+ * downloaded when an HTTP source is in use.
+ * @returns A DoctorDataSource that works fully offline.
+ */
+export function createStaticDataSource(): DoctorDataSource {
+  const loadFixture = async (): Promise<unknown[]> => {
+    const module = await import('../data/doctors.fixture.json');
+    return module.default;
+  };
+
+  return {
+    name: 'fixture',
+    cacheKey: 'fixture',
+    fetchDoctors: loadFixture,
+    fetchPage: async (request) => paginateRecords(await loadFixture(), request),
+    fetchDoctor: async (id) => findRecord(await loadFixture(), id),
+  };
+}
+
+/**
+ * Creates an in-memory data source, useful for tests and demos. It is never cached.
+ * @param records - The raw records to serve.
+ * @param options.delayMs - Optional artificial latency in milliseconds.
+ * @param options.error - Optional error message; when set, every fetch rejects with it.
+ * @returns A DoctorDataSource resolving to a copy of `records` (requests honour their abort signal).
+ */
+export function createMockDataSource(
+  records: RawDoctorData[],
+  options: { delayMs?: number; error?: string } = {}
+): DoctorDataSource {
+  const { delayMs = 0, error } = options;
+  const respond = <T>(produce: () => T, { signal }: DoctorFetchOptions = {}): Promise<T> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      if (error) {
+        reject(new Error(error));
+      } else {
+        resolve(produce());
+      }
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  return {
+    name: 'mock',
+    fetchDoctors: (fetchOptions) => respond(() => [...records], fetchOptions),
+    fetchPage: (request, fetchOptions) => respond(() => paginateRecords(records, request), fetchOptions),
+    fetchDoctor: (id, fetchOptions) => respond(() => findRecord(records, id), fetchOptions),
+  };
+}
+
+/**
+ * Picks the data source for the running app: the HTTP API when
+ * `VITE_PUBLIC_DOCTOR_API` is defined, otherwise the bundled fixture.
+ * @returns The default DoctorDataSource.
+ */
+export function getDefaultDataSource(): DoctorDataSource {
+  if (API_URL) {
+    return createHttpDataSource(API_URL, {
+      paginated: API_PAGINATED,
+      detailUrl: API_DETAIL_URL,
+      timeoutMs: API_TIMEOUT_MS,
+      retries: API_RETRIES,
+    });
+  }
+  console.info("VITE_PUBLIC_DOCTOR_API is not defined; using the bundled doctor fixture.");
+  return createStaticDataSource();
+}
+
+/**
+ * URLs the default HTTP data source requests doctor data from, without query strings
+ * (the single-doctor URL up to its "{id}" placeholder). Empty when the bundled fixture is used.
+ * The service worker caches responses under these prefixes for offline use.
+ */
+export function getDoctorApiUrlPrefixes(): string[] {
+  if (!API_URL) return [];
+  const prefixes = [API_URL.split('?')[0]];
+  if (API_DETAIL_URL) prefixes.push(API_DETAIL_URL.split('{id}')[0]);
+  return prefixes.map(prefix => new URL(prefix, window.location.href).href);
+}
+
+/**
+ * Fetches raw records from a data source, validates them record-by-record and
+ * normalizes the usable ones into Doctor objects.
+ * @param source - The data source to load from.
+ * @param options - Per-request options such as an abort signal.
+ * @returns The processed Doctor array and the data-quality report for this load.
+ */
+export async function loadDoctors(source: DoctorDataSource, options?: DoctorFetchOptions): Promise<DoctorLoadResult> {
+  const payload = await source.fetchDoctors(options);
+  const { records, report } = validateRawDoctors(payload);
+  if (report.warnings.length > 0) {
+    console.warn(`Doctor data from "${source.name}" had ${report.warnings.length} data-quality issue(s):`, report.warnings);
+  }
+  if (source.cacheKey) {
+    // validateRawDoctors has checked the payload is a list
+    writeDoctorCache({ cacheKey: source.cacheKey, savedAt: Date.now(), items: payload as unknown[], hasMore: false, nextCursor: null, nextPage: 2 });
+  }
+  return { doctors: mapRawDoctors(records), report };
+}
+
+/**
+ * Stores a freshly loaded page in the offline cache of a cacheable source. The first page
+ * starts a new copy; each following page is appended when it continues the cached pages,
+ * so an offline visit restores every page loaded so far along with where paging stopped.
+ */
+function cacheDoctorPage(cacheKey: string, request: DoctorPageRequest, page: RawDoctorPage): void {
+  const paging = { hasMore: page.hasMore, nextCursor: page.nextCursor ?? null, nextPage: request.page + 1 };
+  if (request.page === 1 && !request.cursor) {
+    writeDoctorCache({ cacheKey, savedAt: Date.now(), items: page.items as unknown[], ...paging });
+    return;
+  }
+  const cached = readDoctorCache(cacheKey);
+  // A page that doesn't follow on from the cached ones (e.g. after a refresh) is not stored
+  if (!cached?.hasMore || cached.nextPage !== request.page || cached.nextCursor !== (request.cursor ?? null)) return;
+  // The copy keeps the age of its first page, so it never looks fresher than it is
+  writeDoctorCache({ ...cached, items: [...cached.items, ...(page.items as unknown[])], ...paging });
+}
+
+/**
+ * Fetches a single page from a paginated data source, then validates and normalizes it
+ * exactly like `loadDoctors`. For cacheable sources the pages loaded so far are cached.
+ * @param source - A data source that implements `fetchPage`.
+ * @param request - The page to load.
+ * @param options - Per-request options such as an abort signal.
+ * @returns The processed page together with its pagination metadata.
+ */
+export async function loadDoctorPage(source: DoctorDataSource, request: DoctorPageRequest, options?: DoctorFetchOptions): Promise<DoctorPageResult> {
+  if (!source.fetchPage) {
+    throw new Error(`Data source "${source.name}" does not support paged loading.`);
+  }
+  const page = await source.fetchPage(request, options);
+  const { records, report } = validateRawDoctors(page.items);
+  if (report.warnings.length > 0) {
+    console.warn(`Doctor data page ${request.page} from "${source.name}" had ${report.warnings.length} data-quality issue(s):`, report.warnings);
+  }
+  if (source.cacheKey) {
+    cacheDoctorPage(source.cacheKey, request, page);
+  }
+  return {
+    doctors: mapRawDoctors(records),
+    report,
+    hasMore: page.hasMore,
+    nextCursor: page.nextCursor,
+    total: page.total,
+  };
+}
+
+/**
+ * Loads one doctor by id, validated and normalized like the list. Uses the source's
+ * `fetchDoctor` when it has one, otherwise loads the full list and picks the doctor from it.
+ * @param source - The data source to load from.
+ * @param id - The doctor id.
+ * @param options - Per-request options such as an abort signal.
+ * @returns The doctor, or null when no (valid) doctor has that id.
+ */
+export async function loadDoctorById(source: DoctorDataSource, id: string, options?: DoctorFetchOptions): Promise<Doctor | null> {
+  if (!source.fetchDoctor) {
+    const { doctors } = await loadDoctors(source, options);
+    return doctors.find(doc => doc.id === id) ?? null;
+  }
+  const record = await source.fetchDoctor(id, options);
+  if (record === null || record === undefined) return null;
+  const { records, report } = validateRawDoctors([record]);
+  if (report.warnings.length > 0) {
+    console.warn(`Doctor ${id} from "${source.name}" had ${report.warnings.length} data-quality issue(s):`, report.warnings);
+  }
+  return mapRawDoctors(records)[0] ?? null;
+}
+
+/**
+ * Restores the last good list of a data source from the offline cache, validated and
+ * normalized like a fresh load.
+ * @param source - The data source.
+ * @returns The cached list, or null when the source isn't cacheable, nothing usable is
+ *   cached, or the copy is too old.
+ */
+export function loadCachedDoctors(source: DoctorDataSource): CachedDoctorLoad | null {
+  if (!source.cacheKey) return null;
+  const entry = readDoctorCache(source.cacheKey);
+  if (!entry) return null;
+  const { records, report } = validateRawDoctors(entry.items);
+  return {
+    doctors: mapRawDoctors(records),
+    report,
+    hasMore: entry.hasMore,
+    nextCursor: entry.nextCursor,
+    nextPage: entry.nextPage,
+    savedAt: entry.savedAt,
+  };
+}
@@ -0,0 +1,21 @@
+// src/services/fileDownload.ts
+
+/**
+ * Saves text as a file through the browser's download mechanism (a temporary object URL
+ * on a clicked link), so exports work offline and without a server.
+ * @param fileName - Suggested file name.
+ * @param content - The file's text.
+ * @param mimeType - Content type, e.g. "text/csv;charset=utf-8".
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick: some browsers start reading the URL only after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,152 @@
+// src/services/httpFetch.ts
+
+/** How a request is bounded and retried */
+export interface FetchRetryOptions {
+  /** Time allowed for each attempt before it is abandoned (ms) */
+  timeoutMs: number;
+  /** Extra attempts after the first one fails transiently */
+  retries: number;
+  /** Wait before the first retry (ms); doubled for every further retry */
+  retryDelayMs: number;
+}
+
+export const DEFAULT_FETCH_RETRY_OPTIONS: FetchRetryOptions = {
+  timeoutMs: 10_000,
+  retries: 2,
+  retryDelayMs: 500,
+};
+
+// Statuses worth retrying: the same request may well succeed a moment later
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+// Longest wait honoured from a Retry-After header, so a server can't stall the page
+const MAX_RETRY_AFTER_MS = 10_000;
+
+/** Outcome of one attempt: the value read from the body, or a transient response to retry */
+type AttemptResult<T> = { value: T } | { transientResponse: Response };
+
+/**
+ * Waits for `ms`, rejecting early with the signal's reason if it is aborted.
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay before retry number `retry` (0-based): exponential backoff with a little jitter,
+ * or the server's Retry-After (in seconds) when it asks for longer.
+ */
+function getRetryDelay(retry: number, baseDelayMs: number, response?: Response): number {
+  const backoff = baseDelayMs * 2 ** retry * (0.8 + Math.random() * 0.4);
+  const retryAfterSeconds = Number(response?.headers.get('Retry-After'));
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.max(backoff, Math.min(retryAfterSeconds * 1000, MAX_RETRY_AFTER_MS));
+  }
+  return backoff;
+}
+
+/**
+ * Whether a failed attempt is worth repeating: a timeout, or a network error (which fetch
+ * and body reads report as a TypeError). Errors raised while interpreting the body, such
+ * as invalid JSON or an unexpected status, would only fail again.
+ */
+function isRetryableError(error: unknown): boolean {
+  return error instanceof TypeError || (error instanceof DOMException && error.name === 'TimeoutError');
+}
+
+/**
+ * Performs one fetch attempt, including reading its body, that is abandoned after
+ * `timeoutMs` or when `signal` aborts. A body that stalls after the headers arrive is
+ * cut off by the same timeout.
+ * @param read - Reads the response (e.g. parses its JSON); runs under the timeout.
+ * @returns What `read` returns; rejects with a TimeoutError, the signal's reason, a network
+ *   error, or whatever `read` throws.
+ */
+async function fetchWithTimeout<T>(
+  url: string,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await read(await fetch(url, { signal: controller.signal }));
+  } catch (error) {
+    if (timedOut) {
+      const limit = timeoutMs >= 1000 ? `${Math.round(timeoutMs / 1000)} seconds` : `${timeoutMs} ms`;
+      throw new DOMException(`The request timed out after ${limit}.`, 'TimeoutError');
+    }
+    throw error;
+  } finally {
+    window.clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * GETs `url` and reads the response with `read`, giving each attempt (headers and body)
+ * `timeoutMs` and retrying network failures, timeouts and transient statuses (408, 425,
+ * 429, 5xx gateway errors) with exponential backoff.
+ * Other responses, including errors such as 404, are passed to `read` to interpret; what
+ * it throws is not retried. Aborting `signal` stops immediately (also during a backoff
+ * wait or while the body downloads) and is never retried.
+ * @param url - The URL to fetch.
+ * @param read - Reads the first non-transient response, or the last one once retries run out.
+ * @param options - Timeout and retry settings, plus an optional abort signal.
+ * @returns What `read` returns.
+ */
+export async function fetchWithRetry<T>(
+  url: string,
+  read: (response: Response) => Promise<T>,
+  options: Partial<FetchRetryOptions> & { signal?: AbortSignal } = {}
+): Promise<T> {
+  // Options left undefined (e.g. an unset environment variable) keep their default
+  const {
+    timeoutMs = DEFAULT_FETCH_RETRY_OPTIONS.timeoutMs,
+    retries = DEFAULT_FETCH_RETRY_OPTIONS.retries,
+    retryDelayMs = DEFAULT_FETCH_RETRY_OPTIONS.retryDelayMs,
+    signal,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < retries;
+    let result: AttemptResult<T>;
+    try {
+      result = await fetchWithTimeout(url, timeoutMs, signal, async (response): Promise<AttemptResult<T>> => (
+        TRANSIENT_STATUSES.has(response.status) && canRetry
+          ? { transientResponse: response }
+          : { value: await read(response) }
+      ));
+    } catch (error) {
+      // The caller gave up, or the response itself was bad; a network failure or timeout is retried
+      if (signal?.aborted || !canRetry || !isRetryableError(error)) throw error;
+      console.warn(`Request to ${url} failed (attempt ${attempt + 1} of ${retries + 1}); retrying.`, error);
+      await wait(getRetryDelay(attempt, retryDelayMs), signal);
+      continue;
+    }
+    if ('value' in result) return result.value;
+    const response = result.transientResponse;
+    console.warn(`Request to ${url} returned status ${response.status} (attempt ${attempt + 1} of ${retries + 1}); retrying.`);
+    await wait(getRetryDelay(attempt, retryDelayMs, response), signal);
+  }
+}
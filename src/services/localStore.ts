@@ -0,0 +1,58 @@
+// src/services/localStore.ts
+
+// Default shape version of stored lists; bump per key when its shape changes incompatibly
+const DEFAULT_STORAGE_VERSION = 1;
+
+interface StoredEnvelope {
+  version: number;
+  items: unknown[];
+}
+
+/**
+ * Returns localStorage when it is usable (it can be missing, or throw in private modes).
+ */
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the item list stored under `key`, or an empty list when missing, corrupt or outdated.
+ * Items are untrusted; callers validate each one.
+ * @param key - The localStorage key.
+ * @param version - The expected envelope version; other versions are ignored.
+ */
+export function readStoredItems(key: string, version = DEFAULT_STORAGE_VERSION): unknown[] {
+  const storage = getStorage();
+  if (!storage) return [];
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as Partial<StoredEnvelope>;
+    return parsed?.version === version && Array.isArray(parsed.items) ? parsed.items : [];
+  } catch (error) {
+    console.warn(`Ignoring unreadable saved data under "${key}":`, error);
+    return [];
+  }
+}
+
+/**
+ * Writes the item list under `key`. Failures (e.g. quota exceeded) are logged, not thrown:
+ * locally saved data is a convenience and must never break the page.
+ * @param key - The localStorage key.
+ * @param items - JSON-serializable items.
+ * @param version - The envelope version to store.
+ */
+export function writeStoredItems(key: string, items: unknown[], version = DEFAULT_STORAGE_VERSION): void {
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    const envelope: StoredEnvelope = { version, items };
+    storage.setItem(key, JSON.stringify(envelope));
+  } catch (error) {
+    console.warn(`Could not save data under "${key}":`, error);
+  }
+}
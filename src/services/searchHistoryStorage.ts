@@ -0,0 +1,49 @@
+// src/services/searchHistoryStorage.ts
+
+import { RecentSearch, SavedSearchPreset } from '../types';
+import { deserializeFilterState, serializeFilterState } from '../utils/filterState';
+import { readStoredItems, writeStoredItems } from './localStore';
+
+const RECENT_SEARCHES_KEY = 'doctorFinder.recentSearches';
+const SAVED_PRESETS_KEY = 'doctorFinder.savedPresets';
+
+/** Loads the recent searches, most recent first. */
+export function loadRecentSearches(): RecentSearch[] {
+  return readStoredItems(RECENT_SEARCHES_KEY).flatMap((item): RecentSearch[] => {
+    const entry = item as Record<string, unknown> | null;
+    const filters = deserializeFilterState(entry?.filters);
+    if (!entry || !filters || typeof entry.id !== 'string' || typeof entry.lastUsedAt !== 'number') return [];
+    return [{ id: entry.id, filters, lastUsedAt: entry.lastUsedAt }];
+  });
+}
+
+/** Persists the recent searches. */
+export function saveRecentSearches(searches: RecentSearch[]): void {
+  writeStoredItems(RECENT_SEARCHES_KEY, searches.map(search => ({
+    ...search,
+    filters: serializeFilterState(search.filters),
+  })));
+}
+
+/** Loads the saved presets, in the order they were created. */
+export function loadSavedPresets(): SavedSearchPreset[] {
+  return readStoredItems(SAVED_PRESETS_KEY).flatMap((item): SavedSearchPreset[] => {
+    const entry = item as Record<string, unknown> | null;
+    const filters = deserializeFilterState(entry?.filters);
+    if (!entry || !filters || typeof entry.id !== 'string' || typeof entry.name !== 'string') return [];
+    return [{
+      id: entry.id,
+      name: entry.name,
+      filters,
+      createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : 0,
+    }];
+  });
+}
+
+/** Persists the saved presets. */
+export function saveSavedPresets(presets: SavedSearchPreset[]): void {
+  writeStoredItems(SAVED_PRESETS_KEY, presets.map(preset => ({
+    ...preset,
+    filters: serializeFilterState(preset.filters),
+  })));
+}
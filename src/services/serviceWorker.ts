@@ -0,0 +1,24 @@
+// src/services/serviceWorker.ts
+
+import { getDoctorApiUrlPrefixes } from './doctorDataSource';
+
+/**
+ * Registers public/sw.js, which precaches the app shell and chunks of this build and
+ * caches doctor data and photos for offline use. Only production builds register it:
+ * in development it would serve stale modules. Failures are logged, not thrown; the
+ * app works without it, just not offline.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  const scriptUrl = new URL('/sw.js', window.location.href);
+  scriptUrl.searchParams.set('v', import.meta.env.VITE_BUILD_ID ?? 'dev');
+  getDoctorApiUrlPrefixes().forEach(prefix => scriptUrl.searchParams.append('data', prefix));
+
+  // Registering after load keeps precaching from competing with the first render
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(scriptUrl.pathname + scriptUrl.search).catch(error => {
+      console.warn('Service worker registration failed; offline mode is unavailable:', error);
+    });
+  });
+}
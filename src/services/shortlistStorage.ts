@@ -0,0 +1,29 @@
+// src/services/shortlistStorage.ts
+
+import { ShortlistEntry } from '../types';
+import { readStoredItems, writeStoredItems } from './localStore';
+
+const SHORTLIST_KEY = 'doctorFinder.shortlist';
+
+/** Loads the shortlist, in the order doctors were added. */
+export function loadShortlist(): ShortlistEntry[] {
+  const seenIds = new Set<string>();
+  return readStoredItems(SHORTLIST_KEY).flatMap((item): ShortlistEntry[] => {
+    const entry = item as Record<string, unknown> | null;
+    if (!entry || typeof entry.doctorId !== 'string' || !entry.doctorId || seenIds.has(entry.doctorId)) return [];
+    seenIds.add(entry.doctorId);
+    return [{
+      doctorId: entry.doctorId,
+      name: typeof entry.name === 'string' ? entry.name : '',
+      specialityNames: Array.isArray(entry.specialityNames)
+        ? entry.specialityNames.filter((name): name is string => typeof name === 'string')
+        : [],
+      addedAt: typeof entry.addedAt === 'number' ? entry.addedAt : 0,
+    }];
+  });
+}
+
+/** Persists the shortlist. */
+export function saveShortlist(entries: ShortlistEntry[]): void {
+  writeStoredItems(SHORTLIST_KEY, entries);
+}
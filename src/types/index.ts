@@ -24,8 +24,99 @@ export interface RawDoctorData {
   };
   video_consult: boolean;
   in_clinic: boolean;
+  availability?: RawAvailability;
 }
 
+/**
+* Raw consulting hours for one consultation mode. `weekly` maps a day ("mon" … "sun")
+* to "HH:MM-HH:MM" sessions in the clinic's local time, e.g. `{ "mon": ["10:00-13:00"] }`.
+*/
+export interface RawModeSchedule {
+  slot_minutes?: number;
+  weekly?: Record<string, string[]>;
+}
+
+/**
+* Raw availability as sent by the API: consulting hours per mode and days off ("YYYY-MM-DD").
+*/
+export interface RawAvailability {
+  video_consult?: RawModeSchedule;
+  in_clinic?: RawModeSchedule;
+  blocked_dates?: string[];
+}
+
+/**
+* A position on the map, in decimal degrees.
+*/
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+* The point distances are measured from: the user's position or a typed locality.
+*/
+export interface ReferencePoint {
+  point: GeoPoint;
+  /** Shown in the UI, e.g. "Current location" or "Indiranagar" */
+  label: string;
+  source: 'geolocation' | 'place';
+}
+
+/**
+* The ways a doctor can be consulted.
+*/
+export type ConsultationMode = 'Video Consult' | 'In Clinic';
+
+/**
+* One recurring consulting session, e.g. Mondays 10:00–13:00 (local time).
+*/
+export interface WeeklySession {
+  /** Day of the week, 0 = Sunday … 6 = Saturday (as returned by Date.getDay) */
+  weekday: number;
+  /** Minutes after midnight */
+  startMinutes: number;
+  /** Minutes after midnight; the last slot ends by then */
+  endMinutes: number;
+}
+
+/**
+* When one consultation mode can be booked and how long each appointment takes.
+*/
+export interface ModeSchedule {
+  sessions: WeeklySession[];
+  slotMinutes: number;
+}
+
+/**
+* A doctor's bookable hours: a weekly schedule per consultation mode, minus days off.
+*/
+export interface DoctorAvailability {
+  /** Schedule per offered mode; a mode without one has no bookable slots */
+  schedules: Partial<Record<ConsultationMode, ModeSchedule>>;
+  /** Days ("YYYY-MM-DD") without any slots, e.g. holidays or leave */
+  blockedDates: string[];
+}
+
+/**
+* The earliest bookable slot of a doctor.
+*/
+export interface NextAvailableSlot {
+  /** Epoch milliseconds of the slot start */
+  start: number;
+  mode: ConsultationMode;
+}
+
+/**
+* The earliest bookable slot of a doctor in each mode that has one.
+*/
+export type NextSlotsByMode = Partial<Record<ConsultationMode, NextAvailableSlot>>;
+
+/**
+* Restricts results to doctors with a free slot today, or within the next 7 days.
+*/
+export type AvailabilityWindow = 'today' | 'week';
+
 /**
 * Represents the processed and augmented structure of a doctor object
 * used within the application components and hooks for easier handling.
@@ -39,10 +130,12 @@ export interface Doctor {
   specialityNames: string[];
   parsedFees: number;
   parsedExperience: number;
-  consultationModes: ('Video Consult' | 'In Clinic')[];
+  consultationModes: ConsultationMode[];
   video_consult: boolean;
   in_clinic: boolean;
   languages?: string[];
+  /** Bookable hours, or null when the doctor hasn't published any */
+  availability: DoctorAvailability | null;
   // --- New Fields ---
   clinicName?: string; // Optional clinic name
   address?: {          // Optional address object
@@ -50,37 +143,630 @@ export interface Doctor {
       city?: string;
       addressLine1?: string;
       logoUrl?: string; // Add clinic logo URL
-      // Add location (lat/long string) if needed later
+      coordinates?: GeoPoint; // Parsed from the raw "lat,lng" location string
   };
   // --- End New Fields ---
 }
 
+/**
+* Contract for anything that can supply raw doctor records to useDoctorFinder.
+* Implementations (HTTP, bundled fixture, in-memory mock) only fetch raw data;
+* normalization into `Doctor` is shared and happens in the data layer.
+*/
+export interface DoctorDataSource {
+  /** Short identifier used in logs and error messages (e.g. "http", "fixture") */
+  name: string;
+  /**
+   * Identifies this source's data in the offline cache (e.g. the endpoint URL). Sources
+   * with one have their last good list shown immediately on the next visit, and kept
+   * on screen when a reload fails; sources without one are never cached.
+   */
+  cacheKey?: string;
+  /**
+   * Loads the complete list of raw doctor records. The payload is untrusted and is
+   * validated record-by-record before normalization.
+   */
+  fetchDoctors: (options?: DoctorFetchOptions) => Promise<unknown>;
+  /**
+   * Optional paged loader. When present, useDoctorFinder loads the dataset incrementally
+   * (page/limit, or cursor when the server returns one) instead of all at once.
+   */
+  fetchPage?: (request: DoctorPageRequest, options?: DoctorFetchOptions) => Promise<RawDoctorPage>;
+  /**
+   * Optional single-record loader, used for doctor detail pages whose doctor isn't in the
+   * loaded list. Resolves to the raw record, or null when no doctor has that id.
+   */
+  fetchDoctor?: (id: string, options?: DoctorFetchOptions) => Promise<unknown | null>;
+}
+
+/**
+* Per-request options passed to a DoctorDataSource.
+*/
+export interface DoctorFetchOptions {
+  /** Aborts the request (e.g. when the page that wanted it unmounts); the promise then rejects */
+  signal?: AbortSignal;
+}
+
+/**
+* Parameters for requesting one page of doctors. `page` is 1-based.
+*/
+export interface DoctorPageRequest {
+  page: number;
+  limit: number;
+  /** Opaque cursor returned by the previous page, for cursor-based APIs */
+  cursor?: string | null;
+}
+
+/**
+* One page of raw (untrusted) doctor records as returned by a data source.
+*/
+export interface RawDoctorPage {
+  items: unknown;
+  /** Whether the server has more records after this page */
+  hasMore: boolean;
+  /** Cursor for the next page, when the API is cursor-based */
+  nextCursor?: string | null;
+  /** Total number of records on the server, when reported */
+  total?: number;
+}
+
+/**
+* Machine-readable codes for problems found while validating raw doctor records.
+*/
+export type DataQualityIssueCode =
+  | 'invalid_record'
+  | 'missing_id'
+  | 'duplicate_id'
+  | 'missing_name'
+  | 'missing_specialities'
+  | 'invalid_speciality'
+  | 'missing_fees'
+  | 'unparseable_fees'
+  | 'unparseable_experience'
+  | 'null_photo'
+  | 'invalid_languages'
+  | 'invalid_clinic'
+  | 'invalid_location'
+  | 'invalid_consultation_flags'
+  | 'invalid_availability';
+
+/**
+* A single structured warning produced during validation.
+*/
+export interface DataQualityWarning {
+  /** Position of the record in the raw payload */
+  recordIndex: number;
+  /** The record's id, when one could be read */
+  recordId?: string;
+  /** The raw field the warning relates to (e.g. "fees", "clinic.address") */
+  field: string;
+  code: DataQualityIssueCode;
+  /** Human-readable description of the problem */
+  message: string;
+  /** Whether the record was repaired and kept, or dropped entirely */
+  action: 'repaired' | 'skipped';
+}
+
+/**
+* Summary of data quality for one load of the doctor dataset.
+*/
+export interface DataQualityReport {
+  totalRecords: number;
+  /** Records kept (including repaired ones) */
+  validRecords: number;
+  /** Records kept after at least one repair */
+  repairedRecords: number;
+  /** Records dropped because they could not be repaired */
+  skippedRecords: number;
+  warnings: DataQualityWarning[];
+}
+
+/**
+* Outcome of loading the dataset through a DoctorDataSource.
+*/
+export interface DoctorLoadResult {
+  doctors: Doctor[];
+  report: DataQualityReport;
+}
+
+/**
+* Outcome of loading a single page through a DoctorDataSource.
+*/
+export interface DoctorPageResult extends DoctorLoadResult {
+  hasMore: boolean;
+  nextCursor?: string | null;
+  total?: number;
+}
+
+/**
+* The last good list of a data source restored from the offline cache (the complete
+* list, or every page loaded so far for paged sources).
+*/
+export interface CachedDoctorLoad extends DoctorPageResult {
+  /** Epoch milliseconds of the load that was cached (of its first page, for paged sources) */
+  savedAt: number;
+  /** The page to request after the cached ones (paged sources) */
+  nextPage: number;
+}
+
+/**
+* Options accepted by the useDoctorFinder hook.
+*/
+export interface UseDoctorFinderOptions {
+  /** Where doctor records come from. Defaults to the HTTP API or the bundled fixture. */
+  dataSource?: DoctorDataSource;
+  /** Number of doctors fetched per server page and revealed per "Load more". Defaults to 20. */
+  pageSize?: number;
+  /** Ids of the shortlisted doctors, used by the "Shortlisted only" filter */
+  shortlistedIds?: ReadonlySet<string>;
+}
+
+/**
+* Doctor fields covered by free-text search.
+*/
+export type SearchField = 'name' | 'specialty' | 'clinic' | 'locality' | 'city' | 'language';
+
+/**
+* A half-open character range `[start, end)` within a displayed string.
+*/
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+* The parts of one field value that matched the search query, for highlighting.
+*/
+export interface SearchHighlight {
+  field: SearchField;
+  /** The original (un-normalized) field value the ranges refer to, e.g. one specialty name */
+  value: string;
+  /** Sorted, non-overlapping ranges within `value` */
+  ranges: MatchRange[];
+}
+
+/**
+* One ranked hit returned by the search engine.
+*/
+export interface DoctorSearchResult {
+  doctor: Doctor;
+  /** Relevance score; higher is better. Only comparable within the same query. */
+  score: number;
+  /** Fields in which the query tokens were found */
+  matchedFields: SearchField[];
+  /** Every matched fragment across all searchable fields */
+  highlights: SearchHighlight[];
+}
+
+/**
+* Groups shown in the Navbar autocomplete dropdown, in display order.
+*/
+export type SuggestionCategory = 'doctor' | 'specialty' | 'clinic' | 'locality';
+
+/**
+* A doctor suggestion: selecting it searches for the doctor's name.
+*/
+export interface DoctorSuggestion {
+  category: 'doctor';
+  /** Unique within the suggestion list */
+  key: string;
+  label: string;
+  result: DoctorSearchResult;
+}
+
+/**
+* A facet-value suggestion (specialty, clinic or locality) aggregated across doctors.
+* Selecting a specialty or locality applies it as a filter; a clinic searches for it.
+*/
+export interface FacetSuggestion {
+  category: Exclude<SuggestionCategory, 'doctor'>;
+  /** Unique within the suggestion list */
+  key: string;
+  /** The value as it appears in the data (e.g. "Dentist") */
+  label: string;
+  /** Matched fragments of `label` */
+  ranges: MatchRange[];
+  /** Number of loaded doctors with this value */
+  count: number;
+}
+
+export type SearchSuggestion = DoctorSuggestion | FacetSuggestion;
+
 /**
 * Represents the current state of applied filters and sorting.
 */
-export type SortCriterion = 'fees' | 'experience';
+export type SortCriterion = 'fees' | 'experience' | 'relevance' | 'distance' | 'availability' | 'name' | 'languages' | 'videoConsult';
+
+/**
+* Direction of one sort level. Each criterion is ordered by a value (fee, years, name…)
+* and 'asc' puts the smallest value first; for 'videoConsult' the value is whether
+* video consultations are offered, so 'desc' puts those doctors first.
+*/
+export type SortDirection = 'asc' | 'desc';
+
+/**
+* One level of the multi-level sort. In `FilterState.sortOptions` earlier levels take
+* priority; later ones only break ties.
+*/
+export interface SortOption {
+  criterion: SortCriterion;
+  direction: SortDirection;
+}
+/**
+* An inclusive numeric range filter; a null end is unbounded on that side.
+*/
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+/**
+* Smallest and largest value present in the loaded data (used as slider limits).
+*/
+export interface NumericBounds {
+  min: number;
+  max: number;
+}
+
+/**
+* How a multi-select facet combines its selected values:
+* 'any' keeps doctors matching at least one, 'all' keeps doctors matching every one.
+*/
+export type FacetMatchMode = 'any' | 'all';
+
 export interface FilterState {
   searchTerm: string;
   consultationType: 'Video Consult' | 'In Clinic' | null;
   specialties: Set<string>;
-  sortOptions: SortCriterion[]; 
+  /** Cities to restrict results to (match any) */
+  cities: Set<string>;
+  /**
+   * Clinic localities to restrict results to (match any). A selected locality narrows its
+   * city: once any locality of a selected city is ticked, only those localities are kept.
+   */
+  localities: Set<string>;
+  /** Spoken languages to restrict results to */
+  languages: Set<string>;
+  /** Whether doctors must speak any or all of the selected languages */
+  languageMatch: FacetMatchMode;
+  /** Consultation fee range; doctors with unknown (Infinity) fees are excluded while it is set */
+  feeRange: NumericRange;
+  /** Years of experience range */
+  experienceRange: NumericRange;
+  /** Maximum distance in km from the reference point (ignored while none is set) */
+  maxDistanceKm: number | null;
+  /** Only doctors with a free slot in this window (in the selected consultation mode, if any) */
+  availableWithin: AvailabilityWindow | null;
+  /** Only doctors on the user's shortlist */
+  shortlistedOnly: boolean;
+  /** Sort levels, highest priority first (each criterion appears at most once) */
+  sortOptions: SortOption[];
+}
+
+/**
+* A city and the clinic localities within it, as offered by the location filter.
+*/
+export interface PlaceGroup {
+  city: string;
+  /** Sorted alphabetically */
+  localities: string[];
+}
+
+/**
+* Number of doctors each filter option would yield, given all other active filters.
+*/
+export interface FacetCounts {
+  consultationTypes: Record<NonNullable<FilterState['consultationType']>, number>;
+  specialties: ReadonlyMap<string, number>;
+  cities: ReadonlyMap<string, number>;
+  localities: ReadonlyMap<string, number>;
+  languages: ReadonlyMap<string, number>;
+  /** Doctors with a free slot today / within the next 7 days */
+  availability: Record<AvailabilityWindow, number>;
+  /** Doctors on the shortlist */
+  shortlisted: number;
+}
+
+/**
+* Everything the results page keeps in its URL, so a link reproduces the view.
+*/
+export interface UrlState {
+  filters: FilterState;
+  /** Where distances are measured from */
+  referencePoint: ReferencePoint | null;
+  /** Doctors picked for comparison, in the order they were picked */
+  compareIds: string[];
+}
+
+/**
+* JSON-friendly form of FilterState (Sets become arrays), used for persistence.
+*/
+export interface SerializedFilterState {
+  searchTerm: string;
+  consultationType: FilterState['consultationType'];
+  specialties: string[];
+  cities: string[];
+  localities: string[];
+  languages: string[];
+  languageMatch: FacetMatchMode;
+  feeRange: NumericRange;
+  experienceRange: NumericRange;
+  maxDistanceKm: number | null;
+  availableWithin: AvailabilityWindow | null;
+  shortlistedOnly: boolean;
+  /** Sort levels encoded as "criterion:direction" (see formatSortOption) */
+  sortOptions: string[];
+}
+
+/**
+* A doctor the user shortlisted. Name and specialties are copied at the time of adding,
+* so the entry can still be shown if the doctor later disappears from the data.
+*/
+export interface ShortlistEntry {
+  doctorId: string;
+  name: string;
+  specialityNames: string[];
+  /** Epoch milliseconds of when the doctor was shortlisted */
+  addedAt: number;
+}
+
+/**
+* A shortlist entry matched against the latest data. `doctor` is null when the doctor is not
+* among the loaded doctors; `isStale` is only set once everything has been loaded, since a
+* paged data source may simply not have delivered the doctor yet.
+*/
+export interface ShortlistItem {
+  entry: ShortlistEntry;
+  doctor: Doctor | null;
+  isStale: boolean;
+}
+
+/**
+* An automatically recorded search (term and/or filter combination).
+*/
+export interface RecentSearch {
+  /** Stable identity of the filter combination (see getFilterStateKey) */
+  id: string;
+  filters: FilterState;
+  /** Epoch milliseconds of the last time this combination was used */
+  lastUsedAt: number;
+}
+
+/**
+* A filter combination the user explicitly saved under a name.
+*/
+export interface SavedSearchPreset {
+  id: string;
+  name: string;
+  filters: FilterState;
+  createdAt: number;
 }
 
 /**
 * Return value type for the useDoctorFinder hook, exposing state and handlers.
 */
-export interface UseDoctorFinderReturn extends Omit<FilterState, 'sortOption'> { 
-  sortOptions: SortCriterion[];
+export interface UseDoctorFinderReturn extends FilterState {
   allDoctors: Doctor[];
   filteredDoctors: Doctor[];
+  /** The leading slice of `filteredDoctors` currently revealed in the list */
+  visibleDoctors: Doctor[];
+  /** True when more doctors can be revealed locally or fetched from the server */
+  hasMore: boolean;
+  /** True while a further page is being fetched from the server */
+  isLoadingMore: boolean;
+  /** Error from the last failed "load more" request, or null */
+  loadMoreError: string | null;
   availableSpecialties: string[];
+  /** Cities (sorted) with their localities, derived from the loaded clinics */
+  availablePlaces: PlaceGroup[];
+  /** Unique languages spoken by the loaded doctors, sorted alphabetically */
+  availableLanguages: string[];
+  /** Live counts for every filter option, reflecting the other active filters and search */
+  facetCounts: FacetCounts;
+  /** The point distances are measured from, or null when the user hasn't supplied one */
+  referencePoint: ReferencePoint | null;
+  /** True while the browser is determining the user's position */
+  isLocating: boolean;
+  /** Why the last attempt to set a reference point failed, or null */
+  referencePointError: string | null;
+  /** Distance in km from the reference point per doctor id (doctors without coordinates are absent) */
+  distances: ReadonlyMap<string, number>;
+  /**
+   * Earliest bookable slot per doctor id, in the selected consultation mode (any mode when
+   * none is selected). Doctors without a slot in the next 14 days are absent.
+   */
+  nextAvailableSlots: ReadonlyMap<string, NextAvailableSlot>;
+  /** Localities and cities that can be typed as a reference point */
+  referencePlaces: string[];
+  /** Lowest/highest known fee among loaded doctors, or null when none is known */
+  feeBounds: NumericBounds | null;
+  /** Lowest/highest experience among loaded doctors, or null before data arrives */
+  experienceBounds: NumericBounds | null;
+  /** True while there is no list to show yet (no cached copy either) */
   isLoading: boolean;
+  /** Why loading failed when there is no list to show, or null */
   error: string | null;
-  suggestions: Doctor[];
+  /** Epoch milliseconds of the load the shown list comes from (possibly a cached one), or null */
+  lastUpdatedAt: number | null;
+  /** True while a newer list is fetched in the background (the current one stays visible) */
+  isRefreshing: boolean;
+  /** Why the last background refresh failed (the older list is still shown), or null */
+  refreshError: string | null;
+  /** True once every doctor has been loaded (no error, no refresh under way, and no further server page) */
+  hasLoadedAllDoctors: boolean;
+  /** Validation summary of the last successful load, or null before any data arrives */
+  dataQuality: DataQualityReport | null;
+  /** Grouped autocomplete suggestions (doctors, specialties, clinics, localities), in display order */
+  suggestions: SearchSuggestion[];
+  /** Relevance score per doctor id for the current search term (empty when not searching) */
+  relevanceScores: ReadonlyMap<string, number>;
+  /** Matched fragments per doctor id for the current search term (empty when not searching) */
+  matchHighlights: ReadonlyMap<string, SearchHighlight[]>;
+  /** Ids of the doctors picked for side-by-side comparison, in the order they were picked */
+  compareIds: string[];
   setSearchTerm: (term: string) => void;
   setConsultationType: (type: 'Video Consult' | 'In Clinic' | null) => void;
   toggleSpecialty: (specialty: string) => void;
-  toggleSortOption: (option: SortCriterion) => void; // Renamed for clarity
+  /** Toggles a city filter; removing a city also removes its selected localities */
+  toggleCity: (city: string) => void;
+  toggleLocality: (locality: string) => void;
+  toggleLanguage: (language: string) => void;
+  setLanguageMatch: (mode: FacetMatchMode) => void;
+  /** Uses the browser's geolocation as the reference point */
+  locateUser: () => void;
+  /** Uses a typed locality or city as the reference point; returns false if it is unknown */
+  setReferencePlace: (place: string) => boolean;
+  clearReferencePoint: () => void;
+  setMaxDistance: (km: number | null) => void;
+  /** Restricts results to doctors available today / this week (null removes it) */
+  setAvailableWithin: (availabilityWindow: AvailabilityWindow | null) => void;
+  /** Restricts results to shortlisted doctors */
+  setShortlistedOnly: (shortlistedOnly: boolean) => void;
+  setFeeRange: (range: NumericRange) => void;
+  setExperienceRange: (range: NumericRange) => void;
+  /** Adds a sort criterion as the lowest-priority level (in its default direction), or removes it */
+  toggleSortOption: (criterion: SortCriterion) => void;
+  /** Changes the direction of an active sort criterion */
+  setSortDirection: (criterion: SortCriterion, direction: SortDirection) => void;
+  /** Moves an active sort criterion up (-1) or down (+1) the priority list */
+  moveSortOption: (criterion: SortCriterion, offset: number) => void;
   clearFilters: () => void;
+  /** The complete current filter state, as one object (stable while nothing changes) */
+  currentFilters: FilterState;
+  /** Replaces the search term, filters and sort options in one go (e.g. from a saved preset) */
+  applyFilterState: (filters: FilterState) => void;
   updateSearchTermFromSuggestion: (term: string) => void;
-}
\ No newline at end of file
+  /** Applies a picked autocomplete suggestion according to its category */
+  selectSuggestion: (suggestion: SearchSuggestion) => void;
+  /** Reveals the next page of results, fetching from the server when needed */
+  loadMore: () => void;
+  /** Fetches the list again in the background, keeping the current one visible meanwhile */
+  refresh: () => void;
+  /** Reveals enough already-loaded results for the given doctor to be in `visibleDoctors` */
+  revealDoctor: (doctorId: string) => void;
+  /** Fetches a single doctor from the data source (bypassing the loaded list); null when unknown */
+  fetchDoctorById: (doctorId: string, signal?: AbortSignal) => Promise<Doctor | null>;
+  /** Adds a doctor to the comparison or removes them (adding is ignored once the limit is reached) */
+  toggleCompare: (doctorId: string) => void;
+  /** Empties the comparison */
+  clearCompare: () => void;
+}
+
+/**
+* A bookable time for one consultation mode. `start` is an ISO 8601 timestamp.
+*/
+export interface BookingSlot {
+  start: string;
+  /** False when the slot is already taken (still listed so the day's schedule reads naturally) */
+  isAvailable: boolean;
+}
+
+/**
+* Parameters for listing a doctor's slots on one day. `date` is a local "YYYY-MM-DD" date.
+*/
+export interface BookingSlotRequest {
+  doctorId: string;
+  mode: 'Video Consult' | 'In Clinic';
+  date: string;
+  /**
+   * The doctor's published hours, when known. Services without schedule data of their own
+   * (the offline mock) build the slots from it; an API can ignore it.
+   */
+  availability?: DoctorAvailability | null;
+}
+
+/**
+* Patient details entered in the booking form (email and reason are optional and may be empty).
+*/
+export interface PatientDetails {
+  name: string;
+  phone: string;
+  email: string;
+  reason: string;
+}
+
+/**
+* Validation messages per patient field; fields without a problem are absent.
+*/
+export type PatientDetailsErrors = Partial<Record<keyof PatientDetails, string>>;
+
+/**
+* Everything needed to book an appointment.
+*/
+export interface BookingRequest {
+  doctorId: string;
+  doctorName: string;
+  mode: 'Video Consult' | 'In Clinic';
+  /** ISO 8601 start time of the chosen slot */
+  slotStart: string;
+  patient: PatientDetails;
+}
+
+/**
+* A confirmed appointment as returned by a BookingService.
+*/
+export interface Booking extends BookingRequest {
+  id: string;
+  /** Short code shown to the patient, e.g. "DF-7K2Q9" */
+  reference: string;
+  createdAt: number;
+}
+
+/**
+* Contract for anything that can list slots and book appointments (a booking API, or the
+* local mock used offline). Failures are reported by rejecting with an Error whose
+* message can be shown to the user.
+*/
+export interface BookingService {
+  /** Short identifier used in logs (e.g. "http", "mock") */
+  name: string;
+  getSlots: (request: BookingSlotRequest) => Promise<BookingSlot[]>;
+  createBooking: (request: BookingRequest) => Promise<Booking>;
+}
+
+/**
+* QR code error correction level: the share of the symbol that can be damaged and still
+* read (L ≈ 7%, M ≈ 15%, Q ≈ 25%, H ≈ 30%). Higher levels need a larger symbol.
+*/
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+/**
+* An encoded QR code symbol. `modules[y][x]` is true for a dark module; the quiet zone
+* around the symbol is not included.
+*/
+export interface QrCode {
+  /** Modules per side (21 for version 1, up to 177 for version 40) */
+  size: number;
+  version: number;
+  modules: boolean[][];
+}
+
+/** Formats the filtered results can be exported in ('print' opens a printable page) */
+export type ExportFormat = 'csv' | 'json' | 'print';
+
+/**
+* One exported doctor: the fields a DoctorCard shows, flattened to plain values.
+* Unknown values are null.
+*/
+export interface DoctorExportRow {
+  id: string;
+  name: string;
+  specialties: string[];
+  experienceYears: number;
+  /** Consultation fee in rupees */
+  fee: number | null;
+  clinic: string | null;
+  address: string | null;
+  locality: string | null;
+  city: string | null;
+  /** Straight-line distance from the reference point, when one is set */
+  distanceKm: number | null;
+  consultationModes: ConsultationMode[];
+  languages: string[];
+  /** ISO 8601 start of the earliest free slot */
+  nextAvailable: string | null;
+  nextAvailableMode: ConsultationMode | null;
+  introduction: string | null;
+  /** Absolute link to the doctor's profile page */
+  profileUrl: string;
+}
@@ -0,0 +1,200 @@
+// src/utils/availability.ts
+
+import {
+    AvailabilityWindow,
+    BookingSlot,
+    ConsultationMode,
+    DoctorAvailability,
+    ModeSchedule,
+    NextAvailableSlot,
+    NextSlotsByMode,
+    RawModeSchedule,
+    WeeklySession
+} from '../types';
+import { addDays, calendarDaysBetween, toDateKey } from './dateTime';
+
+/** Appointment length used when the data doesn't give one */
+export const DEFAULT_SLOT_MINUTES = 30;
+/** Slots starting sooner than this can no longer be booked */
+export const BOOKING_NOTICE_MINUTES = 30;
+/** How many days ahead (including today) the next free slot is looked for */
+export const AVAILABILITY_HORIZON_DAYS = 14;
+/** Length of the "this week" availability window, in days including today */
+export const AVAILABILITY_WEEK_DAYS = 7;
+
+// Plausible appointment lengths; anything outside is treated as a data error
+const MIN_SLOT_MINUTES = 5;
+const MAX_SLOT_MINUTES = 240;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Indexed like Date.getDay()
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Parses a day name ("mon", "Monday", "THU") into a Date.getDay() index.
+ * @param value - The raw day name.
+ * @returns 0 (Sunday) … 6 (Saturday), or null when it isn't a day name.
+ */
+export function parseWeekday(value: string): number | null {
+  const name = value.trim().toLowerCase();
+  if (name.length < 3) return null;
+  const index = WEEKDAY_NAMES.findIndex(day => name.startsWith(day));
+  // Reject lookalikes such as "monsoon": only "mon" or the full "monday" are accepted
+  if (index < 0 || (name.length > 3 && !/^[a-z]+day$/.test(name))) return null;
+  return index;
+}
+
+/**
+ * Parses a 24-hour "HH:MM" time into minutes after midnight ("24:00" is end of day).
+ * @param value - The raw time.
+ * @returns The minutes, or null when the time is malformed.
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= MINUTES_PER_DAY ? minutes : null;
+}
+
+/**
+ * Parses a "HH:MM-HH:MM" session; the end must come after the start.
+ * @param value - The raw session, e.g. "10:00-13:00".
+ * @returns Start and end in minutes after midnight, or null when invalid.
+ */
+export function parseSessionRange(value: string): { startMinutes: number; endMinutes: number } | null {
+  const [start, end, ...rest] = value.split('-');
+  if (end === undefined || rest.length > 0) return null;
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  return startMinutes !== null && endMinutes !== null && endMinutes > startMinutes ? { startMinutes, endMinutes } : null;
+}
+
+/**
+ * Reads an appointment length in minutes, accepting whole numbers within a plausible range.
+ * @param value - The raw value.
+ * @returns The length, or null when it is missing or implausible.
+ */
+export function parseSlotMinutes(value: unknown): number | null {
+  const minutes = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof minutes === 'number' && Number.isInteger(minutes) && minutes >= MIN_SLOT_MINUTES && minutes <= MAX_SLOT_MINUTES
+    ? minutes
+    : null;
+}
+
+/**
+ * Converts one mode's raw consulting hours into weekly sessions. Unreadable days and
+ * sessions are skipped (the validator reports them).
+ * @param raw - The raw schedule of one consultation mode.
+ * @returns The schedule, or null when it has no usable session.
+ */
+export function mapModeSchedule(raw: RawModeSchedule | undefined): ModeSchedule | null {
+  if (!raw?.weekly) return null;
+  const sessions: WeeklySession[] = [];
+  Object.entries(raw.weekly).forEach(([day, ranges]) => {
+    const weekday = parseWeekday(day);
+    if (weekday === null || !Array.isArray(ranges)) return;
+    ranges.forEach(range => {
+      const session = typeof range === 'string' ? parseSessionRange(range) : null;
+      if (session) sessions.push({ weekday, ...session });
+    });
+  });
+  if (sessions.length === 0) return null;
+  sessions.sort((a, b) => a.weekday - b.weekday || a.startMinutes - b.startMinutes);
+  return { sessions, slotMinutes: parseSlotMinutes(raw.slot_minutes) ?? DEFAULT_SLOT_MINUTES };
+}
+
+/**
+ * Lists a doctor's slots on one day in one mode. Slots inside the booking notice period
+ * (or already past) are listed as unavailable; blocked days have no slots at all.
+ * Existing bookings are not known here, so every other slot is listed as available.
+ * @param availability - The doctor's availability.
+ * @param mode - The consultation mode.
+ * @param day - Any moment on the day (local time).
+ * @param now - The current moment.
+ * @returns The slots in chronological order.
+ */
+export function listSlotsForDay(availability: DoctorAvailability, mode: ConsultationMode, day: Date, now: Date): BookingSlot[] {
+  const schedule = availability.schedules[mode];
+  if (!schedule || availability.blockedDates.includes(toDateKey(day))) return [];
+
+  const earliestStart = now.getTime() + BOOKING_NOTICE_MINUTES * 60 * 1000;
+  // Keyed by start so overlapping sessions don't produce duplicate slots
+  const slots = new Map<number, BookingSlot>();
+  schedule.sessions
+    .filter(session => session.weekday === day.getDay())
+    .forEach(session => {
+      for (let minutes = session.startMinutes; minutes + schedule.slotMinutes <= session.endMinutes; minutes += schedule.slotMinutes) {
+        const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+        slots.set(start.getTime(), { start: start.toISOString(), isAvailable: start.getTime() >= earliestStart });
+      }
+    });
+  return Array.from(slots.entries()).sort(([a], [b]) => a - b).map(([, slot]) => slot);
+}
+
+/**
+ * Finds the earliest bookable slot across the given modes.
+ * @param availability - The doctor's availability.
+ * @param modes - Modes to consider (e.g. the doctor's modes, or just the filtered one).
+ * @param now - The current moment.
+ * @param horizonDays - How many days ahead (including today) to look.
+ * @returns The slot, or null when there is none within the horizon.
+ */
+export function findNextAvailableSlot(
+  availability: DoctorAvailability,
+  modes: ConsultationMode[],
+  now: Date,
+  horizonDays = AVAILABILITY_HORIZON_DAYS
+): NextAvailableSlot | null {
+  for (let offset = 0; offset < horizonDays; offset++) {
+    const day = addDays(now, offset);
+    let earliest: NextAvailableSlot | null = null;
+    for (const mode of modes) {
+      const slot = listSlotsForDay(availability, mode, day, now).find(candidate => candidate.isAvailable);
+      const start = slot ? Date.parse(slot.start) : Infinity;
+      if (start < (earliest?.start ?? Infinity)) earliest = { start, mode };
+    }
+    if (earliest) return earliest;
+  }
+  return null;
+}
+
+/**
+ * Finds the earliest bookable slot in each of the doctor's modes.
+ * @param availability - The doctor's availability.
+ * @param now - The current moment.
+ */
+export function findNextSlotsByMode(availability: DoctorAvailability, now: Date): NextSlotsByMode {
+  const result: NextSlotsByMode = {};
+  (Object.keys(availability.schedules) as ConsultationMode[]).forEach(mode => {
+    const slot = findNextAvailableSlot(availability, [mode], now);
+    if (slot) result[mode] = slot;
+  });
+  return result;
+}
+
+/**
+ * Picks the earliest slot among the allowed modes.
+ * @param slots - A doctor's next slot per mode.
+ * @param mode - The only mode to consider, or null for any mode.
+ */
+export function pickNextSlot(slots: NextSlotsByMode | undefined, mode: ConsultationMode | null): NextAvailableSlot | undefined {
+  if (!slots) return undefined;
+  if (mode) return slots[mode];
+  return Object.values(slots).reduce<NextAvailableSlot | undefined>(
+    (earliest, slot) => (slot && (!earliest || slot.start < earliest.start) ? slot : earliest),
+    undefined
+  );
+}
+
+/**
+ * Whether a next free slot falls inside an availability window: today, or within the
+ * next 7 days (today included).
+ * @param slot - The doctor's next free slot, if any.
+ * @param window - The window to test.
+ * @param now - The current moment.
+ */
+export function isSlotWithinWindow(slot: NextAvailableSlot | undefined, window: AvailabilityWindow, now: Date): boolean {
+  if (!slot) return false;
+  const days = calendarDaysBetween(now, new Date(slot.start));
+  return window === 'today' ? days === 0 : days < AVAILABILITY_WEEK_DAYS;
+}
@@ -0,0 +1,56 @@
+// src/utils/bookingValidation.ts
+
+import { PatientDetails, PatientDetailsErrors } from '../types';
+
+export const EMPTY_PATIENT_DETAILS: PatientDetails = { name: '', phone: '', email: '', reason: '' };
+
+// Keeps the reason short enough for a booking note
+export const MAX_REASON_LENGTH = 300;
+
+/**
+ * Reduces an Indian mobile number to its 10 digits, accepting spaces, dashes and a
+ * "+91"/"91"/"0" prefix ("+91 98765-43210" -> "9876543210").
+ * @param phone - The number as typed.
+ * @returns The 10-digit number, or null when it isn't a valid mobile number.
+ */
+export function normalizePhoneNumber(phone: string): string | null {
+  const digits = phone.replace(/[\s\-()]/g, '').replace(/^(\+91|91|0)(?=\d{10}$)/, '');
+  return /^[6-9]\d{9}$/.test(digits) ? digits : null;
+}
+
+/**
+ * Checks the booking form. Name and phone are required; email is optional but must
+ * look like an address when given.
+ * @param details - The patient details as entered.
+ * @returns Messages per invalid field (empty when everything is valid).
+ */
+export function validatePatientDetails(details: PatientDetails): PatientDetailsErrors {
+  const errors: PatientDetailsErrors = {};
+  const name = details.name.trim();
+  if (!name) errors.name = 'Please enter the patient\'s name.';
+  else if (name.length < 2) errors.name = 'The name looks too short.';
+  else if (!/^[\p{L}][\p{L}\s.'-]*$/u.test(name)) errors.name = 'Use letters only (spaces, dots, hyphens and apostrophes are fine).';
+
+  if (!details.phone.trim()) errors.phone = 'Please enter a mobile number.';
+  else if (!normalizePhoneNumber(details.phone)) errors.phone = 'Enter a 10-digit Indian mobile number.';
+
+  const email = details.email.trim();
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(email)) errors.email = 'Enter a valid email address, or leave it empty.';
+
+  if (details.reason.length > MAX_REASON_LENGTH) errors.reason = `Keep the reason under ${MAX_REASON_LENGTH} characters.`;
+  return errors;
+}
+
+/**
+ * Tidies the details before they are sent: trimmed text and a normalized phone number.
+ * Call only after validatePatientDetails reported no errors.
+ * @param details - The validated patient details.
+ */
+export function cleanPatientDetails(details: PatientDetails): PatientDetails {
+  return {
+    name: details.name.trim().replace(/\s+/g, ' '),
+    phone: normalizePhoneNumber(details.phone) ?? details.phone.trim(),
+    email: details.email.trim(),
+    reason: details.reason.trim(),
+  };
+}
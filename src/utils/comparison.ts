@@ -0,0 +1,56 @@
+// src/utils/comparison.ts
+
+import { Doctor } from '../types';
+
+/** How many doctors can be compared side by side */
+export const MAX_COMPARED_DOCTORS = 4;
+
+/**
+ * Reads the compared doctor ids from untrusted input (e.g. repeated `compare` URL params).
+ * Blank entries and duplicates are dropped and the list is capped at MAX_COMPARED_DOCTORS.
+ * @param values - The raw ids, in selection order.
+ * @returns The usable ids, in the same order.
+ */
+export function parseComparedDoctorIds(values: string[]): string[] {
+  const ids: string[] = [];
+  values.forEach(value => {
+    const id = value.trim();
+    if (id && !ids.includes(id) && ids.length < MAX_COMPARED_DOCTORS) ids.push(id);
+  });
+  return ids;
+}
+
+/**
+ * Adds a doctor to the comparison, or removes them when already there.
+ * Adding is ignored once MAX_COMPARED_DOCTORS are selected.
+ * @param ids - The current selection.
+ * @param doctorId - The doctor to toggle.
+ * @returns The new selection (the same array when nothing changed).
+ */
+export function toggleComparedDoctor(ids: string[], doctorId: string): string[] {
+  if (ids.includes(doctorId)) return ids.filter(id => id !== doctorId);
+  return ids.length < MAX_COMPARED_DOCTORS ? [...ids, doctorId] : ids;
+}
+
+/** The best value of each comparable figure; null when it doesn't tell the doctors apart */
+export interface ComparisonHighlights {
+  lowestFee: number | null;
+  mostExperience: number | null;
+}
+
+/**
+ * Finds the values worth highlighting in a comparison: the lowest known fee and the
+ * most experience. A value is only reported when the doctors actually differ in it.
+ * @param doctors - The compared doctors.
+ */
+export function getComparisonHighlights(doctors: Doctor[]): ComparisonHighlights {
+  const fees = doctors.map(doc => doc.parsedFees).filter(Number.isFinite);
+  const experience = doctors.map(doc => doc.parsedExperience);
+  const lowestFee = fees.length > 0 ? Math.min(...fees) : null;
+  const mostExperience = experience.length > 0 ? Math.max(...experience) : null;
+  return {
+    // Unknown fees count as different from any known fee
+    lowestFee: lowestFee !== null && doctors.some(doc => doc.parsedFees !== lowestFee) ? lowestFee : null,
+    mostExperience: mostExperience !== null && experience.some(years => years !== mostExperience) ? mostExperience : null,
+  };
+}
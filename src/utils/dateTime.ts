@@ -0,0 +1,92 @@
+// src/utils/dateTime.ts
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Local calendar date as "YYYY-MM-DD" (not UTC, so late-evening dates don't shift a day).
+ * @param date - The moment.
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses a "YYYY-MM-DD" date key into local midnight of that day.
+ * @param key - The date key.
+ * @returns The date, or null when the key is malformed or not a real date.
+ */
+export function parseDateKey(key: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = new Date(year, month, day);
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+/**
+ * Adds whole calendar days (safe across daylight-saving changes).
+ * @param date - The starting date.
+ * @param days - Number of days to add (may be negative).
+ */
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/**
+ * Whole calendar days from `from` to `to` (0 for the same day, 1 for the next, ...).
+ * @param from - The reference moment.
+ * @param to - The later (or earlier) moment.
+ */
+export function calendarDaysBetween(from: Date, to: Date): number {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Time of day for display, e.g. "4:30 PM".
+ * @param date - The moment.
+ */
+export function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', hour12: true }).toUpperCase();
+}
+
+/**
+ * Day for display relative to `now`: "Today", "Tomorrow", or e.g. "Mon, 21 Oct".
+ * @param date - The day to describe.
+ * @param now - The current moment.
+ */
+export function formatDayLabel(date: Date, now: Date = new Date()): string {
+  const days = calendarDaysBetween(now, date);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return date.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+/**
+ * Day and time for display, e.g. "Today 4:30 PM" or "Mon, 21 Oct 10:00 AM".
+ * @param date - The moment.
+ * @param now - The current moment.
+ */
+export function formatDayAndTime(date: Date, now: Date = new Date()): string {
+  return `${formatDayLabel(date, now)} ${formatTime(date)}`;
+}
+
+/**
+ * How long ago a moment was, for display: "just now", "5 min ago", "2 hr ago",
+ * or the day and time for anything older than a day.
+ * @param date - The past moment.
+ * @param now - The current moment.
+ */
+export function formatTimeAgo(date: Date, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hr ago`;
+  return formatDayAndTime(date, now);
+}
@@ -0,0 +1,116 @@
+// src/utils/doctorExport.ts
+
+import { Doctor, DoctorExportRow, NextAvailableSlot } from '../types';
+import { toDateKey } from './dateTime';
+
+/** Per-doctor values that aren't part of the Doctor record (same maps the cards use) */
+export interface DoctorExportContext {
+  distances?: ReadonlyMap<string, number>;
+  nextAvailableSlots?: ReadonlyMap<string, NextAvailableSlot>;
+  /** Absolute URL of the app's root, used to build profile links */
+  baseUrl: string;
+}
+
+// CSV columns, in order: header and how each row's value is written
+const CSV_COLUMNS: { header: string; value: (row: DoctorExportRow) => string | number | null }[] = [
+  { header: 'Name', value: row => row.name },
+  { header: 'Specialties', value: row => row.specialties.join('; ') },
+  { header: 'Experience (years)', value: row => row.experienceYears },
+  { header: 'Fee (INR)', value: row => row.fee },
+  { header: 'Clinic', value: row => row.clinic },
+  { header: 'Address', value: row => row.address },
+  { header: 'Locality', value: row => row.locality },
+  { header: 'City', value: row => row.city },
+  { header: 'Distance (km)', value: row => (row.distanceKm === null ? null : Math.round(row.distanceKm * 10) / 10) },
+  { header: 'Consultation modes', value: row => row.consultationModes.join('; ') },
+  { header: 'Languages', value: row => row.languages.join('; ') },
+  { header: 'Next available', value: row => row.nextAvailable },
+  { header: 'Next available mode', value: row => row.nextAvailableMode },
+  { header: 'About', value: row => row.introduction },
+  { header: 'Profile', value: row => row.profileUrl },
+];
+
+/**
+ * Flattens doctors into export rows holding the fields a DoctorCard shows.
+ * @param doctors - The doctors, in the order they should be exported.
+ * @param context - Distances, next free slots and the app URL.
+ */
+export function toDoctorExportRows(doctors: Doctor[], { distances, nextAvailableSlots, baseUrl }: DoctorExportContext): DoctorExportRow[] {
+  return doctors.map(doctor => {
+    const nextSlot = nextAvailableSlots?.get(doctor.id);
+    return {
+      id: doctor.id,
+      name: doctor.name,
+      specialties: doctor.specialityNames,
+      experienceYears: doctor.parsedExperience,
+      // Unknown fees are stored as Infinity so they sort last; exported as null (blank in CSV)
+      fee: Number.isFinite(doctor.parsedFees) ? doctor.parsedFees : null,
+      clinic: doctor.clinicName || null,
+      address: doctor.address?.addressLine1 || null,
+      locality: doctor.address?.locality || null,
+      city: doctor.address?.city || null,
+      distanceKm: distances?.get(doctor.id) ?? null,
+      consultationModes: doctor.consultationModes,
+      languages: doctor.languages ?? [],
+      nextAvailable: nextSlot ? new Date(nextSlot.start).toISOString() : null,
+      nextAvailableMode: nextSlot?.mode ?? null,
+      introduction: doctor.introduction || null,
+      profileUrl: new URL(`doctors/${encodeURIComponent(doctor.id)}`, baseUrl).toString(),
+    };
+  });
+}
+
+/**
+ * Writes one CSV field: quoted when needed, and prefixed with `'` when it would otherwise be
+ * read as a formula by a spreadsheet (text starting with =, +, -, @ or a control character).
+ */
+function formatCsvField(value: string | number | null): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats export rows as CSV (RFC 4180: comma-separated, CRLF line breaks, header row).
+ * List values (specialties, languages…) are joined with "; ".
+ * @param rows - The rows to write.
+ */
+export function formatDoctorsCsv(rows: DoctorExportRow[]): string {
+  const lines = [
+    CSV_COLUMNS.map(column => formatCsvField(column.header)).join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => formatCsvField(column.value(row))).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Formats export rows as JSON, with what they are and when they were exported.
+ * @param rows - The rows to write.
+ * @param meta - The filters in words, the link that reproduces them, and whether the list
+ *   is complete (false while a paged source hasn't loaded every page).
+ * @param exportedAt - The moment of the export.
+ */
+export function formatDoctorsJson(
+  rows: DoctorExportRow[],
+  meta: { filters: string; shareUrl: string; isComplete: boolean },
+  exportedAt: Date = new Date()
+): string {
+  return JSON.stringify({
+    exportedAt: exportedAt.toISOString(),
+    filters: meta.filters,
+    shareUrl: meta.shareUrl,
+    isComplete: meta.isComplete,
+    count: rows.length,
+    doctors: rows,
+  }, null, 2);
+}
+
+/**
+ * File name for an export, e.g. "doctors-2025-05-01.csv".
+ * @param extension - File extension without the dot.
+ * @param date - The export date.
+ */
+export function getExportFileName(extension: string, date: Date = new Date()): string {
+  return `doctors-${toDateKey(date)}.${extension}`;
+}
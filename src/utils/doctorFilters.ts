@@ -0,0 +1,175 @@
+// src/utils/doctorFilters.ts
+
+import { Doctor, FacetCounts, FilterState, NextSlotsByMode, PlaceGroup } from '../types';
+import { isSlotWithinWindow, pickNextSlot } from './availability';
+import { AVAILABILITY_WINDOWS, CONSULTATION_TYPES, isRangeActive, isWithinRange } from './filterState';
+
+/** The independent filter dimensions applied on top of the search results */
+export type FilterDimension = 'consultation' | 'specialties' | 'places' | 'languages' | 'fee' | 'experience' | 'distance' | 'availability' | 'shortlist';
+
+type DoctorPredicate = (doctor: Doctor) => boolean;
+
+/** One predicate per active dimension; inactive dimensions are omitted */
+export type FilterPredicates = Partial<Record<FilterDimension, DoctorPredicate>>;
+
+/**
+ * Languages a doctor speaks, trimmed and de-duplicated.
+ * @param doctor - The doctor.
+ */
+export function getDoctorLanguages(doctor: Doctor): Set<string> {
+  return new Set(doctor.languages?.map(language => language.trim()).filter(Boolean));
+}
+
+/** Derived data some filters need besides the FilterState itself */
+export interface FilterContext {
+  /** Distance in km from the reference point per doctor id; absent when no reference point is set */
+  distances?: ReadonlyMap<string, number>;
+  /** City → locality hierarchy of the loaded clinics; lets a ticked locality narrow its city */
+  places?: PlaceGroup[];
+  /** Next free slot per mode per doctor id; doctors without one are absent */
+  nextSlots?: ReadonlyMap<string, NextSlotsByMode>;
+  /** The moment `nextSlots` was computed for (defaults to now) */
+  now?: Date;
+  /** Ids of the shortlisted doctors (none when absent) */
+  shortlistedIds?: ReadonlySet<string>;
+}
+
+/**
+ * Builds the predicate for every active filter dimension (search is handled separately,
+ * since it also ranks the results).
+ * @param filters - The current filter state.
+ * @param context - Derived data such as distances (see FilterContext).
+ */
+export function buildFilterPredicates(filters: FilterState, context: FilterContext = {}): FilterPredicates {
+  const predicates: FilterPredicates = {};
+  const { consultationType, specialties, cities, localities, languages, languageMatch, feeRange, experienceRange } = filters;
+
+  if (consultationType) {
+    predicates.consultation = doc => doc.consultationModes.includes(consultationType);
+  }
+  if (specialties.size > 0) {
+    predicates.specialties = doc => doc.specialityNames.some(name => specialties.has(name));
+  }
+  if (cities.size > 0 || localities.size > 0) {
+    // Selected cities with at least one of their own localities ticked are narrowed to those localities
+    const narrowedCities = new Set(
+      (context.places ?? [])
+        .filter(group => cities.has(group.city) && group.localities.some(locality => localities.has(locality)))
+        .map(group => group.city)
+    );
+    predicates.places = doc => {
+      const { city, locality } = doc.address ?? {};
+      if (locality !== undefined && localities.has(locality)) return true;
+      return city !== undefined && cities.has(city) && !narrowedCities.has(city);
+    };
+  }
+  if (languages.size > 0) {
+    const wanted = Array.from(languages);
+    predicates.languages = doc => {
+      const spoken = getDoctorLanguages(doc);
+      return languageMatch === 'all'
+        ? wanted.every(language => spoken.has(language))
+        : wanted.some(language => spoken.has(language));
+    };
+  }
+  if (isRangeActive(feeRange)) {
+    predicates.fee = doc => isWithinRange(doc.parsedFees, feeRange);
+  }
+  if (isRangeActive(experienceRange)) {
+    predicates.experience = doc => isWithinRange(doc.parsedExperience, experienceRange);
+  }
+  // The distance limit only applies once there is a reference point to measure from;
+  // clinics without coordinates cannot be shown to be close enough, so they are excluded
+  const { distances } = context;
+  if (filters.maxDistanceKm !== null && distances) {
+    const maxDistanceKm = filters.maxDistanceKm;
+    predicates.distance = doc => (distances.get(doc.id) ?? Infinity) <= maxDistanceKm;
+  }
+  // Availability is judged in the selected consultation mode, or any mode when none is selected
+  const { availableWithin } = filters;
+  if (availableWithin && context.nextSlots) {
+    const { nextSlots, now = new Date() } = context;
+    predicates.availability = doc =>
+      isSlotWithinWindow(pickNextSlot(nextSlots.get(doc.id), consultationType), availableWithin, now);
+  }
+  if (filters.shortlistedOnly) {
+    const shortlistedIds = context.shortlistedIds ?? new Set<string>();
+    predicates.shortlist = doc => shortlistedIds.has(doc.id);
+  }
+  return predicates;
+}
+
+/**
+ * Keeps the doctors that satisfy every predicate, optionally ignoring one dimension.
+ * Preserves the input order (search results arrive ranked).
+ * @param doctors - The doctors to filter.
+ * @param predicates - Predicates from buildFilterPredicates.
+ * @param except - A dimension to leave out (used for facet counts).
+ */
+export function applyFilterPredicates(doctors: Doctor[], predicates: FilterPredicates, except?: FilterDimension): Doctor[] {
+  const active = (Object.keys(predicates) as FilterDimension[])
+    .filter(dimension => dimension !== except)
+    .map(dimension => predicates[dimension] as DoctorPredicate);
+  if (active.length === 0) return doctors;
+  return doctors.filter(doc => active.every(predicate => predicate(doc)));
+}
+
+/**
+ * Counts, per value, the doctors that have it.
+ * @param doctors - The doctors to count.
+ * @param getValues - Values of one doctor (each counted once per doctor).
+ */
+function countValues(doctors: Doctor[], getValues: (doctor: Doctor) => Iterable<string>): Map<string, number> {
+  const counts = new Map<string, number>();
+  doctors.forEach(doc => {
+    new Set(getValues(doc)).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  });
+  return counts;
+}
+
+/**
+ * Computes how many doctors each filter option would yield, given every *other* active
+ * filter (including the search). For "match any" facets the facet's own selection is
+ * ignored, since ticking another option widens the results; for the language facet in
+ * "match all" mode it is kept, since ticking another language narrows them.
+ * @param doctors - The search results (or all doctors when not searching).
+ * @param filters - The current filter state.
+ * @param context - Derived data such as distances (see FilterContext).
+ * @returns Counts per consultation mode, specialty, city, locality, language, availability window
+ *   and for the shortlist.
+ */
+export function computeFacetCounts(doctors: Doctor[], filters: FilterState, context: FilterContext = {}): FacetCounts {
+  const predicates = buildFilterPredicates(filters, context);
+
+  // Each mode is counted as if it were selected, since the availability filter depends on the mode
+  const consultationTypes = Object.fromEntries(
+    CONSULTATION_TYPES.map(type => [
+      type,
+      applyFilterPredicates(doctors, buildFilterPredicates({ ...filters, consultationType: type }, context)).length,
+    ])
+  ) as FacetCounts['consultationTypes'];
+
+  const specialtyPool = applyFilterPredicates(doctors, predicates, 'specialties');
+  const placePool = applyFilterPredicates(doctors, predicates, 'places');
+  const languagePool = applyFilterPredicates(doctors, predicates, filters.languageMatch === 'all' ? undefined : 'languages');
+  const availabilityPool = applyFilterPredicates(doctors, predicates, 'availability');
+  const shortlistPool = applyFilterPredicates(doctors, predicates, 'shortlist');
+  const now = context.now ?? new Date();
+
+  return {
+    consultationTypes,
+    specialties: countValues(specialtyPool, doc => doc.specialityNames),
+    cities: countValues(placePool, doc => (doc.address?.city ? [doc.address.city] : [])),
+    localities: countValues(placePool, doc => (doc.address?.locality ? [doc.address.locality] : [])),
+    languages: countValues(languagePool, getDoctorLanguages),
+    availability: Object.fromEntries(
+      AVAILABILITY_WINDOWS.map(({ value }) => [
+        value,
+        availabilityPool.filter(doc =>
+          isSlotWithinWindow(pickNextSlot(context.nextSlots?.get(doc.id), filters.consultationType), value, now)
+        ).length,
+      ])
+    ) as FacetCounts['availability'],
+    shortlisted: shortlistPool.filter(doc => context.shortlistedIds?.has(doc.id)).length,
+  };
+}
@@ -0,0 +1,106 @@
+// src/utils/doctorMapper.ts
+
+import { ConsultationMode, Doctor, DoctorAvailability, RawAvailability, RawDoctorData } from '../types';
+import { mapModeSchedule } from './availability';
+import { parseDateKey } from './dateTime';
+import { parseCoordinates } from './geo';
+import { normalizeCityName, normalizeLocalityName } from './placeNames';
+
+/**
+ * Parses the fee string (e.g., "₹ 500") into a number.
+ * Returns Infinity if parsing fails or string is empty, ensuring these items sort last.
+ * @param feeString - The fee string from the API.
+ * @returns The numeric fee or Infinity.
+ */
+export function parseFee(feeString: string): number {
+  if (!feeString) return Infinity;
+  // Remove currency symbols, commas, etc., keeping only digits and decimal point
+  const numberString = feeString.replace(/[^0-9.]/g, '');
+  const fee = parseInt(numberString, 10);
+  return isNaN(fee) ? Infinity : fee;
+}
+
+/**
+ * Parses the experience string (e.g., "13 Years of experience") into a number.
+ * Returns 0 if parsing fails or string is empty.
+ * @param expString - The experience string from the API.
+ * @returns The numeric experience in years or 0.
+ */
+export function parseExperience(expString: string): number {
+  if (!expString) return 0;
+  // Find the first sequence of digits
+  const match = expString.match(/\d+/);
+  const exp = match ? parseInt(match[0], 10) : 0;
+  return isNaN(exp) ? 0 : exp;
+}
+
+/**
+ * Converts raw availability into per-mode weekly schedules. Only the modes the doctor
+ * offers are kept, so a schedule can't make an unoffered mode bookable.
+ * @param raw - The raw availability, if the record has one.
+ * @param modes - The doctor's consultation modes.
+ * @returns The availability, or null when no offered mode has usable hours.
+ */
+export function mapRawAvailability(raw: RawAvailability | undefined, modes: ConsultationMode[]): DoctorAvailability | null {
+  if (!raw) return null;
+  const schedules: DoctorAvailability['schedules'] = {};
+  const video = modes.includes('Video Consult') ? mapModeSchedule(raw.video_consult) : null;
+  const clinic = modes.includes('In Clinic') ? mapModeSchedule(raw.in_clinic) : null;
+  if (video) schedules['Video Consult'] = video;
+  if (clinic) schedules['In Clinic'] = clinic;
+  if (!video && !clinic) return null;
+  return {
+    schedules,
+    blockedDates: (raw.blocked_dates ?? []).filter(date => parseDateKey(date) !== null),
+  };
+}
+
+/**
+ * Normalizes a single raw API record into the Doctor shape used across the app.
+ * Pure function shared by every DoctorDataSource, so it can be unit tested in isolation.
+ * @param rawDoc - The raw doctor record as returned by a data source.
+ * @returns The processed Doctor object.
+ */
+export function mapRawDoctor(rawDoc: RawDoctorData): Doctor {
+  const modes: ConsultationMode[] = [];
+  if (rawDoc.video_consult) modes.push('Video Consult');
+  if (rawDoc.in_clinic) modes.push('In Clinic');
+
+  // Extract Clinic/Address Data including logoUrl
+  const clinicName = rawDoc.clinic?.name;
+  const address = rawDoc.clinic?.address ? {
+      // Casing/spelling variants are unified so each area is a single filter option
+      locality: normalizeLocalityName(rawDoc.clinic.address.locality),
+      city: normalizeCityName(rawDoc.clinic.address.city),
+      addressLine1: rawDoc.clinic.address.address_line1,
+      logoUrl: rawDoc.clinic.address.logo_url, // Extract logo URL
+      coordinates: parseCoordinates(rawDoc.clinic.address.location) ?? undefined,
+  } : undefined;
+
+  return {
+    id: rawDoc.id,
+    name: rawDoc.name,
+    initials: rawDoc.name_initials,
+    photo: rawDoc.photo,
+    introduction: rawDoc.doctor_introduction,
+    specialityNames: rawDoc.specialities.map(spec => spec.name),
+    parsedFees: parseFee(rawDoc.fees),
+    parsedExperience: parseExperience(rawDoc.experience),
+    consultationModes: modes,
+    video_consult: rawDoc.video_consult,
+    in_clinic: rawDoc.in_clinic,
+    languages: rawDoc.languages,
+    clinicName: clinicName,
+    address: address,
+    availability: mapRawAvailability(rawDoc.availability, modes),
+  };
+}
+
+/**
+ * Normalizes a list of raw API records into Doctor objects.
+ * @param rawData - Raw records from a data source.
+ * @returns The processed Doctor array, in the same order.
+ */
+export function mapRawDoctors(rawData: RawDoctorData[]): Doctor[] {
+  return rawData.map(mapRawDoctor);
+}
@@ -0,0 +1,388 @@
+// src/utils/doctorSearch.ts
+
+import {
+    Doctor,
+    DoctorSearchResult,
+    FacetSuggestion,
+    MatchRange,
+    SearchField,
+    SearchHighlight
+} from '../types';
+
+/**
+ * Relative importance of each searchable field. A match in the doctor's name
+ * outranks the same match in their clinic's city, and so on.
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  specialty: 6,
+  clinic: 4,
+  locality: 3,
+  city: 3,
+  language: 2,
+};
+
+// Quality multipliers for the different ways a query token can match a word
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.85;
+const SUBSTRING_MATCH = 0.6;
+const FUZZY_MATCH = 0.45;
+// Extra credit when the whole query appears verbatim in the doctor's name
+const NAME_PHRASE_BONUS = 5;
+
+// Honorifics and filler words that should never affect matching
+const IGNORED_TOKENS = new Set(['dr', 'doctor']);
+
+/** A normalized word together with its position in the original field value */
+interface IndexedWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/** A searchable field of one doctor, pre-normalized */
+interface IndexedField {
+  field: SearchField;
+  /** The original field value, as displayed */
+  value: string;
+  /** Normalized full text of the field */
+  text: string;
+  /** Normalized words of the field, with offsets into `value` */
+  words: IndexedWord[];
+}
+
+/** How a query token matched a word: quality plus the matched span within the normalized word */
+interface WordMatch {
+  quality: number;
+  start: number;
+  end: number;
+}
+
+/** Pre-computed search data for one doctor */
+export interface IndexedDoctor {
+  doctor: Doctor;
+  fields: IndexedField[];
+}
+
+/**
+ * Normalizes a single word: lower-cases and strips accents.
+ */
+function normalizeWord(word: string): string {
+  return word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Normalizes text for comparison: lower-cases, strips accents and punctuation,
+ * and removes a leading "Dr." so "Dr. Sharma" and "sharma" compare equal.
+ * @param text - Any user or data text.
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop combining accents
+    .toLowerCase()
+    // Letters, marks and digits of any script are kept (Latin accents are gone by now)
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(dr|doctor)\s+/, '');
+}
+
+/**
+ * Splits a query into normalized tokens, ignoring honorifics such as "Dr.".
+ * @param query - The raw search term.
+ */
+export function tokenizeQuery(query: string): string[] {
+  return normalizeSearchText(query)
+    .split(' ')
+    .filter(token => token && !IGNORED_TOKENS.has(token));
+}
+
+/**
+ * Whether a query has anything to search for. A blank query, or one made only of
+ * honorifics ("Dr.", "Doctor"), means "not searching": every doctor is listed.
+ * @param query - The raw search term.
+ */
+export function hasSearchTokens(query: string): boolean {
+  return tokenizeQuery(query).length > 0;
+}
+
+/**
+ * Optimal-string-alignment edit distance (Levenshtein plus adjacent transpositions),
+ * abandoned early once it is known to exceed `maxDistance`.
+ * @returns The distance, or `maxDistance + 1` if it is larger than allowed.
+ */
+function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Number of typos tolerated for a token of the given length.
+ * Very short tokens must match exactly (or as a prefix) to avoid noise.
+ */
+function allowedTypos(tokenLength: number): number {
+  if (tokenLength < 4) return 0;
+  if (tokenLength < 8) return 1;
+  return 2;
+}
+
+/**
+ * Matches one query token against one normalized word.
+ * @returns The match quality and the matched span within the word, or null.
+ */
+function matchTokenInWord(token: string, word: string): WordMatch | null {
+  if (word === token) return { quality: EXACT_MATCH, start: 0, end: word.length };
+  if (word.startsWith(token)) return { quality: PREFIX_MATCH, start: 0, end: token.length };
+  if (token.length >= 3) {
+    const position = word.indexOf(token);
+    if (position > -1) return { quality: SUBSTRING_MATCH, start: position, end: position + token.length };
+  }
+  const typos = allowedTypos(token.length);
+  if (typos > 0) {
+    // Compare against the word, or its prefix of the same length for partially typed words
+    const candidate = word.length > token.length + typos ? word.slice(0, token.length) : word;
+    const distance = boundedEditDistance(token, candidate, typos);
+    if (distance <= typos) {
+      return { quality: FUZZY_MATCH * (1 - distance / (token.length + 1)), start: 0, end: candidate.length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Scores how well one query token matches one field (0 when it does not match).
+ */
+function scoreTokenInField(token: string, field: IndexedField): number {
+  let best = 0;
+  for (const { word } of field.words) {
+    const match = matchTokenInWord(token, word);
+    if (match && match.quality > best) {
+      best = match.quality;
+      if (best === EXACT_MATCH) break;
+    }
+  }
+  return best;
+}
+
+/**
+ * Merges overlapping or touching ranges into a sorted, non-overlapping list.
+ * @param ranges - Ranges in any order.
+ */
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Finds the spans of a field's original value that any of the query tokens matched.
+ * Spans are mapped back from the normalized word to the original text; when accent
+ * stripping changed a word's length the whole word is highlighted instead.
+ */
+function findFieldRanges(tokens: string[], field: IndexedField): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  for (const indexed of field.words) {
+    for (const token of tokens) {
+      const match = matchTokenInWord(token, indexed.word);
+      if (!match) continue;
+      if (indexed.end - indexed.start === indexed.word.length) {
+        ranges.push({ start: indexed.start + match.start, end: indexed.start + match.end });
+      } else {
+        ranges.push({ start: indexed.start, end: indexed.end });
+      }
+    }
+  }
+  return mergeRanges(ranges);
+}
+
+/**
+ * Builds the per-doctor search index. Run once per dataset, not per keystroke.
+ * @param doctors - All loaded doctors.
+ */
+export function buildSearchIndex(doctors: Doctor[]): IndexedDoctor[] {
+  return doctors.map(doctor => {
+    const fields: IndexedField[] = [];
+    const addField = (field: SearchField, value: string | undefined) => {
+      if (!value) return;
+      const words: IndexedWord[] = [];
+      for (const match of value.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+        const start = match.index ?? 0;
+        words.push({ word: normalizeWord(match[0]), start, end: start + match[0].length });
+      }
+      if (words.length > 0) fields.push({ field, value, text: normalizeSearchText(value), words });
+    };
+    addField('name', doctor.name);
+    doctor.specialityNames.forEach(name => addField('specialty', name));
+    addField('clinic', doctor.clinicName);
+    addField('locality', doctor.address?.locality);
+    addField('city', doctor.address?.city);
+    doctor.languages?.forEach(language => addField('language', language));
+    return { doctor, fields };
+  });
+}
+
+/**
+ * Searches the index for a free-text query across name, specialties, clinic,
+ * locality, city and languages. Every query token must match some field
+ * (exactly, as a prefix, as a substring or within a small number of typos).
+ * @param index - The index from `buildSearchIndex`.
+ * @param query - The raw search term.
+ * @returns Matching doctors ordered by descending relevance score.
+ */
+export function searchDoctors(index: IndexedDoctor[], query: string): DoctorSearchResult[] {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) return [];
+  const phrase = tokens.join(' ');
+
+  const results: DoctorSearchResult[] = [];
+  for (const entry of index) {
+    let score = 0;
+    const matchedFields = new Set<SearchField>();
+    let allTokensMatched = true;
+
+    for (const token of tokens) {
+      let bestTokenScore = 0;
+      let bestField: SearchField | null = null;
+      for (const field of entry.fields) {
+        const weighted = scoreTokenInField(token, field) * FIELD_WEIGHTS[field.field];
+        if (weighted > bestTokenScore) {
+          bestTokenScore = weighted;
+          bestField = field.field;
+        }
+      }
+      if (!bestField) {
+        allTokensMatched = false;
+        break;
+      }
+      score += bestTokenScore;
+      matchedFields.add(bestField);
+    }
+    if (!allTokensMatched) continue;
+
+    const nameField = entry.fields.find(field => field.field === 'name');
+    if (nameField?.text.includes(phrase)) score += NAME_PHRASE_BONUS;
+
+    // Highlight every fragment the query hit, not just the best-scoring field per token
+    const highlights: SearchHighlight[] = [];
+    for (const field of entry.fields) {
+      const ranges = findFieldRanges(tokens, field);
+      if (ranges.length > 0) highlights.push({ field: field.field, value: field.value, ranges });
+    }
+
+    results.push({
+      doctor: entry.doctor,
+      score: Math.round(score * 100) / 100,
+      matchedFields: [...matchedFields],
+      highlights,
+    });
+  }
+
+  // Stable sort keeps the original data order among equally relevant doctors
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Looks up the highlight ranges for one displayed field value.
+ * @param highlights - The highlights of a search result (may be undefined when not searching).
+ * @param field - The field being displayed.
+ * @param value - The exact value being displayed (e.g. one specialty name).
+ * @returns The ranges to highlight, or undefined when nothing matched.
+ */
+export function getHighlightRanges(
+  highlights: SearchHighlight[] | undefined,
+  field: SearchField,
+  value: string | undefined
+): MatchRange[] | undefined {
+  if (!highlights || value === undefined) return undefined;
+  return highlights.find(highlight => highlight.field === field && highlight.value === value)?.ranges;
+}
+
+/**
+ * Suggests distinct values of one field (e.g. specialties) that match the query.
+ * Every query token must match a word of the value. Values that differ only in
+ * casing/spacing are merged; the first spelling seen is displayed.
+ * @param index - The index from `buildSearchIndex`.
+ * @param query - The raw search term.
+ * @param category - Which field to suggest values from.
+ * @param limit - Maximum number of suggestions.
+ * @returns Matching values ordered by match quality, then by number of doctors.
+ */
+export function suggestFieldValues(
+  index: IndexedDoctor[],
+  query: string,
+  category: FacetSuggestion['category'],
+  limit: number
+): FacetSuggestion[] {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) return [];
+
+  const byValue = new Map<string, { suggestion: FacetSuggestion; quality: number }>();
+  for (const entry of index) {
+    // Count each value once per doctor even if it appears in several fields
+    const seenForDoctor = new Set<string>();
+    for (const field of entry.fields) {
+      if (field.field !== category || seenForDoctor.has(field.text)) continue;
+
+      let quality = 0;
+      for (const token of tokens) {
+        const tokenQuality = scoreTokenInField(token, field);
+        if (tokenQuality === 0) {
+          quality = 0;
+          break;
+        }
+        quality += tokenQuality;
+      }
+      if (quality === 0) continue;
+      seenForDoctor.add(field.text);
+
+      const existing = byValue.get(field.text);
+      if (existing) {
+        existing.suggestion.count++;
+      } else {
+        byValue.set(field.text, {
+          suggestion: {
+            category,
+            key: `${category}:${field.text}`,
+            label: field.value,
+            ranges: findFieldRanges(tokens, field),
+            count: 1,
+          },
+          quality,
+        });
+      }
+    }
+  }
+
+  return [...byValue.values()]
+    .sort((a, b) => b.quality - a.quality || b.suggestion.count - a.suggestion.count)
+    .slice(0, limit)
+    .map(entry => entry.suggestion);
+}
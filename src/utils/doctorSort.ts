@@ -0,0 +1,86 @@
+// src/utils/doctorSort.ts
+
+import { Doctor, NextAvailableSlot, SortCriterion, SortOption } from '../types';
+import { getDoctorLanguages } from './doctorFilters';
+import { normalizeSearchText } from './doctorSearch';
+
+/** Derived data some sort criteria need besides the doctor itself */
+export interface SortContext {
+  /** Search relevance score per doctor id; doctors absent from it score 0 */
+  relevanceScores?: ReadonlyMap<string, number>;
+  /** Distance in km from the reference point per doctor id */
+  distances?: ReadonlyMap<string, number>;
+  /** Next free slot per doctor id; doctors without one are absent */
+  nextAvailableSlots?: ReadonlyMap<string, NextAvailableSlot>;
+}
+
+/** Value a doctor is ordered by for one criterion; null when it is unknown */
+type SortKey = number | string | null;
+
+/**
+ * Reads the value a doctor is ordered by for a criterion.
+ * @param doctor - The doctor.
+ * @param criterion - The sort criterion.
+ * @param context - Derived data (see SortContext).
+ */
+function getSortKey(doctor: Doctor, criterion: SortCriterion, context: SortContext): SortKey {
+  switch (criterion) {
+    case 'fees':
+      return Number.isFinite(doctor.parsedFees) ? doctor.parsedFees : null;
+    case 'experience':
+      return doctor.parsedExperience;
+    case 'relevance':
+      return context.relevanceScores?.get(doctor.id) ?? 0;
+    case 'distance':
+      return context.distances?.get(doctor.id) ?? null;
+    case 'availability':
+      return context.nextAvailableSlots?.get(doctor.id)?.start ?? null;
+    case 'name':
+      // Ignore honorifics and accents so "Dr. Ávila" sorts with the A's
+      return normalizeSearchText(doctor.name) || null;
+    case 'languages':
+      return getDoctorLanguages(doctor).size;
+    case 'videoConsult':
+      return doctor.consultationModes.includes('Video Consult') ? 1 : 0;
+  }
+}
+
+/**
+ * Compares two keys of the same criterion in ascending order. Unknown values (a fee that
+ * isn't listed, a clinic without coordinates, no free slot) always come last, whichever
+ * direction is picked, since they cannot be shown to be better or worse.
+ */
+function compareKeys(a: SortKey, b: SortKey, direction: SortOption['direction']): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const ascending = typeof a === 'string' && typeof b === 'string'
+    ? a.localeCompare(b)
+    : (a < b ? -1 : 1);
+  return direction === 'asc' ? ascending : -ascending;
+}
+
+/**
+ * Sorts doctors by a priority list of sort levels; later levels only break ties of the
+ * earlier ones, and doctors that tie on every level keep their input order.
+ * @param doctors - The doctors to sort (not modified).
+ * @param options - Sort levels, highest priority first.
+ * @param context - Derived data (see SortContext).
+ * @returns A new sorted array (the input array itself when there is nothing to sort by).
+ */
+export function sortDoctors(doctors: Doctor[], options: SortOption[], context: SortContext = {}): Doctor[] {
+  if (options.length === 0) return doctors;
+  // Compute each doctor's keys once rather than on every comparison
+  const decorated = doctors.map(doctor => ({
+    doctor,
+    keys: options.map(option => getSortKey(doctor, option.criterion, context)),
+  }));
+  decorated.sort((a, b) => {
+    for (let level = 0; level < options.length; level++) {
+      const comparison = compareKeys(a.keys[level], b.keys[level], options[level].direction);
+      if (comparison !== 0) return comparison;
+    }
+    return 0;
+  });
+  return decorated.map(({ doctor }) => doctor);
+}
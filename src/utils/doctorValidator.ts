@@ -0,0 +1,319 @@
+// src/utils/doctorValidator.ts
+
+import {
+    DataQualityIssueCode,
+    DataQualityReport,
+    DataQualityWarning,
+    RawAvailability,
+    RawDoctorData,
+    RawModeSchedule
+} from '../types';
+import { parseSessionRange, parseSlotMinutes, parseWeekday } from './availability';
+import { parseDateKey } from './dateTime';
+import { parseFee } from './doctorMapper';
+import { parseCoordinates } from './geo';
+
+type UnknownRecord = Record<string, unknown>;
+
+// Photo values (trimmed, lowercased) that mean "no photo" rather than a URL
+const MISSING_PHOTO_VALUES = new Set(['', 'null', 'undefined']);
+
+/** Result of validating a single raw record */
+interface RecordValidationResult {
+  /** The repaired record, or null if it had to be skipped */
+  record: RawDoctorData | null;
+  warnings: DataQualityWarning[];
+}
+
+const isObject = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Reads an optional string field, accepting numbers (converted to strings).
+ * Any other type is treated as absent.
+ */
+const readOptionalString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+};
+
+/**
+ * Validates one raw doctor record, repairing what can be repaired.
+ * Records without a usable id or name are skipped; everything else is coerced into
+ * the RawDoctorData shape with a warning per repair.
+ * @param value - The untrusted record from the payload.
+ * @param recordIndex - Position of the record in the payload (for reporting).
+ * @returns The repaired record (or null) and the warnings collected.
+ */
+export function validateRawDoctor(value: unknown, recordIndex: number): RecordValidationResult {
+  const warnings: DataQualityWarning[] = [];
+
+  if (!isObject(value)) {
+    warnings.push({ recordIndex, field: 'record', code: 'invalid_record', message: 'Record is not an object.', action: 'skipped' });
+    return { record: null, warnings };
+  }
+
+  // --- Required identity fields (cannot be repaired) ---
+  const recordId = readOptionalString(value.id)?.trim() || undefined;
+
+  const warn = (field: string, code: DataQualityIssueCode, message: string, action: 'repaired' | 'skipped' = 'repaired') => {
+    warnings.push({ recordIndex, recordId, field, code, message, action });
+  };
+
+  if (!recordId) {
+    warn('id', 'missing_id', 'Record has no id.', 'skipped');
+    return { record: null, warnings };
+  }
+  if (!isNonEmptyString(value.name)) {
+    warn('name', 'missing_name', 'Record has no doctor name.', 'skipped');
+    return { record: null, warnings };
+  }
+
+  // --- Specialities: repair to an array of { name } objects ---
+  let specialities: { name: string }[] = [];
+  if (!Array.isArray(value.specialities)) {
+    warn('specialities', 'missing_specialities', 'Specialities missing; treated as none.');
+  } else {
+    specialities = value.specialities
+      .filter((spec): spec is { name: string } => isObject(spec) && isNonEmptyString(spec.name))
+      .map(spec => ({ name: spec.name.trim() }));
+    if (specialities.length !== value.specialities.length) {
+      warn('specialities', 'invalid_speciality', 'Dropped speciality entries without a name.');
+    }
+  }
+
+  // --- Fees: keep the raw string, flag when it cannot be parsed ---
+  let fees = readOptionalString(value.fees) ?? '';
+  if (!fees.trim()) {
+    warn('fees', 'missing_fees', 'Fees missing; shown as not available.');
+    fees = '';
+  } else if (parseFee(fees) === Infinity) {
+    warn('fees', 'unparseable_fees', `Could not parse fees "${fees}"; shown as not available.`);
+    fees = '';
+  }
+
+  // --- Experience: flag strings without any digits ---
+  let experience = readOptionalString(value.experience) ?? '';
+  if (!/\d/.test(experience)) {
+    warn('experience', 'unparseable_experience', `Could not parse experience "${experience}"; treated as 0 years.`);
+    experience = '';
+  }
+
+  // --- Photo: the API sometimes sends placeholder strings ("null", "NULL ", "undefined", "") ---
+  let photo: string | null = null;
+  if (typeof value.photo === 'string') {
+    const trimmedPhoto = value.photo.trim();
+    if (MISSING_PHOTO_VALUES.has(trimmedPhoto.toLowerCase())) {
+      warn('photo', 'null_photo', `Photo was ${trimmedPhoto ? `the string "${value.photo}"` : 'empty'}; placeholder used.`);
+    } else {
+      photo = trimmedPhoto;
+    }
+  }
+
+  // --- Languages: keep only string entries ---
+  let languages: string[] | undefined;
+  if (Array.isArray(value.languages)) {
+    languages = value.languages.filter(isNonEmptyString);
+    if (languages.length !== value.languages.length) {
+      warn('languages', 'invalid_languages', 'Dropped non-text language entries.');
+    }
+  } else if (value.languages !== undefined && value.languages !== null) {
+    warn('languages', 'invalid_languages', 'Languages was not a list; ignored.');
+  }
+
+  // --- Clinic: optional, but must be an object when present ---
+  let clinic: RawDoctorData['clinic'];
+  if (isObject(value.clinic)) {
+    const rawAddress = value.clinic.address;
+    if (rawAddress !== undefined && !isObject(rawAddress)) {
+      warn('clinic.address', 'invalid_clinic', 'Clinic address was not an object; ignored.');
+    }
+    // Locations must be a parseable "lat,lng" pair; anything else is dropped
+    let location = isObject(rawAddress) ? readOptionalString(rawAddress.location) : undefined;
+    if (location && !parseCoordinates(location)) {
+      warn('clinic.address.location', 'invalid_location', `Clinic location "${location}" is not a valid "lat,lng" pair; ignored.`);
+      location = undefined;
+    }
+    clinic = {
+      name: readOptionalString(value.clinic.name)?.trim() ?? '',
+      address: isObject(rawAddress) ? {
+        locality: readOptionalString(rawAddress.locality),
+        city: readOptionalString(rawAddress.city),
+        address_line1: readOptionalString(rawAddress.address_line1),
+        location,
+        logo_url: readOptionalString(rawAddress.logo_url),
+      } : undefined,
+    };
+  } else if (value.clinic !== undefined && value.clinic !== null) {
+    warn('clinic', 'invalid_clinic', 'Clinic was not an object; ignored.');
+  }
+
+  // --- Availability: optional; unreadable days, sessions and dates are dropped ---
+  let availability: RawAvailability | undefined;
+  if (isObject(value.availability)) {
+    const rawAvailability = value.availability;
+    const parsed: RawAvailability = {};
+    (['video_consult', 'in_clinic'] as const).forEach(modeKey => {
+      const rawSchedule = rawAvailability[modeKey];
+      if (rawSchedule === undefined || rawSchedule === null) return;
+      const field = `availability.${modeKey}`;
+      if (!isObject(rawSchedule) || !isObject(rawSchedule.weekly)) {
+        warn(field, 'invalid_availability', 'Schedule has no readable weekly hours; ignored.');
+        return;
+      }
+      const weekly: Record<string, string[]> = {};
+      const schedule: RawModeSchedule = { weekly };
+      let droppedSessions = 0;
+      Object.entries(rawSchedule.weekly).forEach(([day, ranges]) => {
+        const sessions = Array.isArray(ranges)
+          ? ranges.filter((range): range is string => typeof range === 'string' && parseSessionRange(range) !== null)
+          : [];
+        droppedSessions += (Array.isArray(ranges) ? ranges.length : 1) - sessions.length;
+        if (parseWeekday(day) === null) {
+          droppedSessions += sessions.length;
+        } else if (sessions.length > 0) {
+          weekly[day] = sessions;
+        }
+      });
+      if (droppedSessions > 0) {
+        warn(`${field}.weekly`, 'invalid_availability', `Dropped ${droppedSessions} unreadable session${droppedSessions === 1 ? '' : 's'} (expected e.g. "mon": ["10:00-13:00"]).`);
+      }
+      if (rawSchedule.slot_minutes !== undefined && rawSchedule.slot_minutes !== null) {
+        const slotMinutes = parseSlotMinutes(rawSchedule.slot_minutes);
+        if (slotMinutes === null) {
+          warn(`${field}.slot_minutes`, 'invalid_availability', `Slot length "${String(rawSchedule.slot_minutes)}" is not usable; default used.`);
+        } else {
+          schedule.slot_minutes = slotMinutes;
+        }
+      }
+      parsed[modeKey] = schedule;
+    });
+    if (Array.isArray(rawAvailability.blocked_dates)) {
+      const blockedDates = rawAvailability.blocked_dates.filter(
+        (date): date is string => typeof date === 'string' && parseDateKey(date) !== null
+      );
+      if (blockedDates.length !== rawAvailability.blocked_dates.length) {
+        warn('availability.blocked_dates', 'invalid_availability', 'Dropped blocked dates not in "YYYY-MM-DD" form.');
+      }
+      parsed.blocked_dates = blockedDates;
+    } else if (rawAvailability.blocked_dates !== undefined && rawAvailability.blocked_dates !== null) {
+      warn('availability.blocked_dates', 'invalid_availability', 'Blocked dates was not a list; ignored.');
+    }
+    availability = parsed;
+  } else if (value.availability !== undefined && value.availability !== null) {
+    warn('availability', 'invalid_availability', 'Availability was not an object; ignored.');
+  }
+
+  // --- Consultation flags: coerce to booleans ---
+  if (typeof value.video_consult !== 'boolean' || typeof value.in_clinic !== 'boolean') {
+    warn('video_consult', 'invalid_consultation_flags', 'Consultation flags were not booleans; coerced.');
+  }
+
+  return {
+    record: {
+      id: recordId,
+      name: value.name.trim(),
+      name_initials: readOptionalString(value.name_initials),
+      photo,
+      doctor_introduction: readOptionalString(value.doctor_introduction),
+      specialities,
+      fees,
+      experience,
+      languages,
+      clinic,
+      video_consult: Boolean(value.video_consult),
+      in_clinic: Boolean(value.in_clinic),
+      availability,
+    },
+    warnings,
+  };
+}
+
+/**
+ * Validates a whole payload of raw doctor records.
+ * Only a payload that is not an array at all is treated as fatal; individual bad
+ * records are repaired or skipped and reported instead of failing the page.
+ * @param payload - The untrusted value returned by a data source.
+ * @returns The usable records together with a data-quality report.
+ */
+export function validateRawDoctors(payload: unknown): { records: RawDoctorData[]; report: DataQualityReport } {
+  if (!Array.isArray(payload)) {
+    throw new Error('Unexpected doctor data format: expected a list of doctors.');
+  }
+
+  const records: RawDoctorData[] = [];
+  const warnings: DataQualityWarning[] = [];
+  const seenIds = new Set<string>();
+  let repairedRecords = 0;
+
+  payload.forEach((value, index) => {
+    const result = validateRawDoctor(value, index);
+    if (result.record && seenIds.has(result.record.id)) {
+      warnings.push({
+        recordIndex: index,
+        recordId: result.record.id,
+        field: 'id',
+        code: 'duplicate_id',
+        message: `Duplicate id "${result.record.id}"; later record skipped.`,
+        action: 'skipped',
+      });
+      return;
+    }
+    warnings.push(...result.warnings);
+    if (result.record) {
+      seenIds.add(result.record.id);
+      records.push(result.record);
+      if (result.warnings.length > 0) repairedRecords++;
+    }
+  });
+
+  return {
+    records,
+    report: {
+      totalRecords: payload.length,
+      validRecords: records.length,
+      repairedRecords,
+      skippedRecords: payload.length - records.length,
+      warnings,
+    },
+  };
+}
+
+/**
+ * Builds a short, human-readable summary of a data-quality report,
+ * e.g. "3 records skipped, 2 repaired". Returns null when there is nothing to report.
+ * @param report - The report to summarise.
+ */
+export function summarizeDataQuality(report: DataQualityReport): string | null {
+  const parts: string[] = [];
+  if (report.skippedRecords > 0) {
+    parts.push(`${report.skippedRecords} record${report.skippedRecords === 1 ? '' : 's'} skipped`);
+  }
+  if (report.repairedRecords > 0) {
+    parts.push(`${report.repairedRecords} repaired`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Combines the reports of two loads (e.g. consecutive pages) into one.
+ * Record indices in the second report are offset so they stay unique.
+ * @param first - The report accumulated so far.
+ * @param second - The report of the newly loaded batch.
+ */
+export function mergeDataQualityReports(first: DataQualityReport, second: DataQualityReport): DataQualityReport {
+  return {
+    totalRecords: first.totalRecords + second.totalRecords,
+    validRecords: first.validRecords + second.validRecords,
+    repairedRecords: first.repairedRecords + second.repairedRecords,
+    skippedRecords: first.skippedRecords + second.skippedRecords,
+    warnings: [
+      ...first.warnings,
+      ...second.warnings.map(warning => ({ ...warning, recordIndex: warning.recordIndex + first.totalRecords })),
+    ],
+  };
+}
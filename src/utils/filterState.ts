@@ -0,0 +1,287 @@
+// src/utils/filterState.ts
+
+import { AvailabilityWindow, FilterState, NumericBounds, NumericRange, SerializedFilterState, SortCriterion, SortDirection, SortOption } from '../types';
+
+/** Every supported sort criterion, in the order they are offered in the UI */
+export const SORT_CRITERIA: SortCriterion[] = ['fees', 'experience', 'relevance', 'distance', 'availability', 'name', 'languages', 'videoConsult'];
+
+/** Display details of a sort criterion */
+interface SortCriterionInfo {
+  label: string;
+  /** Direction used when the criterion is first picked */
+  defaultDirection: SortDirection;
+  /** What each direction means for this criterion, e.g. "Low to High" */
+  directionLabels: Record<SortDirection, string>;
+}
+
+/** Label, default direction and direction wording per sort criterion */
+export const SORT_CRITERION_INFO: Record<SortCriterion, SortCriterionInfo> = {
+  fees: { label: 'Fees', defaultDirection: 'asc', directionLabels: { asc: 'Low to High', desc: 'High to Low' } },
+  experience: { label: 'Experience', defaultDirection: 'desc', directionLabels: { asc: 'Low to High', desc: 'High to Low' } },
+  relevance: { label: 'Relevance', defaultDirection: 'desc', directionLabels: { asc: 'Best match last', desc: 'Best match first' } },
+  distance: { label: 'Distance', defaultDirection: 'asc', directionLabels: { asc: 'Nearest first', desc: 'Farthest first' } },
+  availability: { label: 'Availability', defaultDirection: 'asc', directionLabels: { asc: 'Soonest first', desc: 'Latest first' } },
+  name: { label: 'Name', defaultDirection: 'asc', directionLabels: { asc: 'A to Z', desc: 'Z to A' } },
+  languages: { label: 'Languages spoken', defaultDirection: 'desc', directionLabels: { asc: 'Fewest first', desc: 'Most first' } },
+  videoConsult: { label: 'Video consult', defaultDirection: 'desc', directionLabels: { asc: 'Offered last', desc: 'Offered first' } },
+};
+
+/**
+ * Encodes a sort level for URLs and storage, e.g. `fees:asc`.
+ * @param option - The sort level.
+ */
+export function formatSortOption(option: SortOption): string {
+  return `${option.criterion}:${option.direction}`;
+}
+
+/**
+ * Reads a sort level from untrusted input. Accepts `criterion:direction` as well as a bare
+ * criterion (the format used before directions existed), which gets its default direction.
+ * @param value - The raw value.
+ * @returns The sort level, or null if it names no known criterion or direction.
+ */
+export function parseSortOption(value: unknown): SortOption | null {
+  if (typeof value !== 'string') return null;
+  const [criterion, direction, ...rest] = value.trim().split(':');
+  if (rest.length > 0 || !SORT_CRITERIA.includes(criterion as SortCriterion)) return null;
+  const info = SORT_CRITERION_INFO[criterion as SortCriterion];
+  if (direction === undefined) return { criterion: criterion as SortCriterion, direction: info.defaultDirection };
+  if (direction !== 'asc' && direction !== 'desc') return null;
+  return { criterion: criterion as SortCriterion, direction };
+}
+
+/**
+ * Reads a sort priority list from untrusted input, dropping invalid levels and
+ * any repeat of a criterion (the first occurrence wins).
+ * @param values - The raw values, highest priority first.
+ */
+export function parseSortOptions(values: Iterable<unknown>): SortOption[] {
+  const options: SortOption[] = [];
+  for (const value of values) {
+    const option = parseSortOption(value);
+    if (option && !options.some(existing => existing.criterion === option.criterion)) options.push(option);
+  }
+  return options;
+}
+
+/**
+ * Describes a sort level, e.g. `Fees (Low to High)`.
+ * @param option - The sort level.
+ */
+export function describeSortOption(option: SortOption): string {
+  const info = SORT_CRITERION_INFO[option.criterion];
+  return `${info.label} (${info.directionLabels[option.direction]})`;
+}
+
+/** Consultation modes that can be used as a filter */
+export const CONSULTATION_TYPES: NonNullable<FilterState['consultationType']>[] = ['Video Consult', 'In Clinic'];
+
+/** Availability windows offered by the availability filter, with their labels */
+export const AVAILABILITY_WINDOWS: { value: AvailabilityWindow; label: string }[] = [
+  { value: 'today', label: 'Available today' },
+  { value: 'week', label: 'Available this week' },
+];
+
+/**
+ * Reads an availability window from untrusted input (e.g. a URL parameter).
+ * @param value - The raw value.
+ */
+export function parseAvailabilityWindow(value: unknown): AvailabilityWindow | null {
+  return AVAILABILITY_WINDOWS.find(option => option.value === value)?.value ?? null;
+}
+
+/** A range with neither end set */
+export const UNBOUNDED_RANGE: NumericRange = { min: null, max: null };
+
+/**
+ * Whether either end of the range is set.
+ * @param range - The range to check.
+ */
+export function isRangeActive(range: NumericRange): boolean {
+  return range.min !== null || range.max !== null;
+}
+
+/**
+ * Whether `value` lies inside the inclusive range. Non-finite values (e.g. an unknown
+ * fee parsed as Infinity) pass only when the range is unbounded on both sides, since
+ * they cannot be shown to satisfy a limit.
+ * @param value - The value to test.
+ * @param range - The range to test against.
+ */
+export function isWithinRange(value: number, range: NumericRange): boolean {
+  if (!isRangeActive(range)) return true;
+  if (!Number.isFinite(value)) return false;
+  return (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+}
+
+/**
+ * Smallest and largest finite value (rounded outwards to whole numbers).
+ * @param values - The values to scan.
+ * @returns The bounds, or null when there is no finite value.
+ */
+export function getNumericBounds(values: Iterable<number>): NumericBounds | null {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min <= max ? { min: Math.floor(min), max: Math.ceil(max) } : null;
+}
+
+/**
+ * Reads a range from untrusted input: non-numeric or negative ends become null,
+ * and swapped ends are put back in order.
+ * @param min - The raw lower end (e.g. a URL parameter or a JSON value).
+ * @param max - The raw upper end.
+ */
+export function parseNumericRange(min: unknown, max: unknown): NumericRange {
+  const toNumber = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = typeof value === 'number' ? value : Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+  const low = toNumber(min);
+  const high = toNumber(max);
+  return low !== null && high !== null && low > high ? { min: high, max: low } : { min: low, max: high };
+}
+
+/**
+ * Reads a maximum-distance value from untrusted input; only positive numbers are kept.
+ * @param value - The raw value (e.g. a URL parameter or a JSON value).
+ */
+export function parseMaxDistance(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Converts a FilterState into a plain JSON-friendly object (Sets become sorted arrays).
+ * @param filters - The filter state to serialize.
+ */
+export function serializeFilterState(filters: FilterState): SerializedFilterState {
+  return {
+    searchTerm: filters.searchTerm.trim(),
+    consultationType: filters.consultationType,
+    specialties: Array.from(filters.specialties).sort(),
+    cities: Array.from(filters.cities).sort(),
+    localities: Array.from(filters.localities).sort(),
+    languages: Array.from(filters.languages).sort(),
+    languageMatch: filters.languageMatch,
+    feeRange: { ...filters.feeRange },
+    experienceRange: { ...filters.experienceRange },
+    maxDistanceKm: filters.maxDistanceKm,
+    availableWithin: filters.availableWithin,
+    shortlistedOnly: filters.shortlistedOnly,
+    sortOptions: filters.sortOptions.map(formatSortOption),
+  };
+}
+
+/**
+ * Rebuilds a FilterState from untrusted serialized data (e.g. localStorage),
+ * dropping anything that is not a valid value.
+ * @param value - The parsed JSON value.
+ * @returns The filter state, or null if `value` is not an object.
+ */
+export function deserializeFilterState(value: unknown): FilterState | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  const stringList = (list: unknown): string[] =>
+    Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+  const range = (rawRange: unknown): NumericRange => {
+    if (typeof rawRange !== 'object' || rawRange === null) return UNBOUNDED_RANGE;
+    const { min, max } = rawRange as Record<string, unknown>;
+    return parseNumericRange(min, max);
+  };
+
+  return {
+    searchTerm: typeof raw.searchTerm === 'string' ? raw.searchTerm : '',
+    consultationType: CONSULTATION_TYPES.find(type => type === raw.consultationType) ?? null,
+    specialties: new Set(stringList(raw.specialties)),
+    cities: new Set(stringList(raw.cities)),
+    localities: new Set(stringList(raw.localities)),
+    languages: new Set(stringList(raw.languages)),
+    languageMatch: raw.languageMatch === 'all' ? 'all' : 'any',
+    feeRange: range(raw.feeRange),
+    experienceRange: range(raw.experienceRange),
+    maxDistanceKm: parseMaxDistance(raw.maxDistanceKm),
+    availableWithin: parseAvailabilityWindow(raw.availableWithin),
+    shortlistedOnly: raw.shortlistedOnly === true,
+    sortOptions: parseSortOptions(stringList(raw.sortOptions)),
+  };
+}
+
+/**
+ * Stable identity for a filter combination, used to de-duplicate history entries.
+ * Sort order matters (it is a priority list) but set membership order does not.
+ * @param filters - The filter state.
+ */
+export function getFilterStateKey(filters: FilterState): string {
+  const serialized = serializeFilterState(filters);
+  return JSON.stringify({ ...serialized, searchTerm: serialized.searchTerm.toLowerCase() });
+}
+
+/**
+ * Whether no search, filter or sort is applied.
+ * @param filters - The filter state.
+ */
+export function isFilterStateEmpty(filters: FilterState): boolean {
+  return !filters.searchTerm.trim()
+    && !filters.consultationType
+    && filters.specialties.size === 0
+    && filters.cities.size === 0
+    && filters.localities.size === 0
+    && filters.languages.size === 0
+    && !isRangeActive(filters.feeRange)
+    && !isRangeActive(filters.experienceRange)
+    && filters.maxDistanceKm === null
+    && filters.availableWithin === null
+    && !filters.shortlistedOnly
+    && filters.sortOptions.length === 0;
+}
+
+/**
+ * Describes a range, e.g. `₹200–₹800`, `≥ 5 yrs` or `≤ ₹500`.
+ * @param range - The range (should be active).
+ * @param format - Formats one end of the range.
+ */
+export function describeRange(range: NumericRange, format: (value: number) => string): string {
+  if (range.min !== null && range.max !== null) return `${format(range.min)}–${format(range.max)}`;
+  if (range.min !== null) return `≥ ${format(range.min)}`;
+  if (range.max !== null) return `≤ ${format(range.max)}`;
+  return 'Any';
+}
+
+/** Formats a fee amount in rupees */
+export const formatFee = (value: number): string => `₹${value}`;
+
+/** Formats a number of years of experience */
+export const formatExperience = (value: number): string => `${value} yr${value === 1 ? '' : 's'}`;
+
+/**
+ * Builds a short human-readable description of a filter combination,
+ * e.g. `"sharma" · Video Consult · Dentist, ENT · Sort: Fees (Low to High)`.
+ * @param filters - The filter state.
+ */
+export function describeFilterState(filters: FilterState): string {
+  const parts: string[] = [];
+  if (filters.searchTerm.trim()) parts.push(`"${filters.searchTerm.trim()}"`);
+  if (filters.consultationType) parts.push(filters.consultationType);
+  if (filters.specialties.size > 0) parts.push(Array.from(filters.specialties).join(', '));
+  const places = [...Array.from(filters.localities), ...Array.from(filters.cities)];
+  if (places.length > 0) parts.push(`in ${places.join(', ')}`);
+  if (filters.languages.size > 0) {
+    const joiner = filters.languageMatch === 'all' ? ' & ' : ' or ';
+    parts.push(`Speaks ${Array.from(filters.languages).join(joiner)}`);
+  }
+  if (isRangeActive(filters.feeRange)) parts.push(`Fee ${describeRange(filters.feeRange, formatFee)}`);
+  if (isRangeActive(filters.experienceRange)) parts.push(`Exp ${describeRange(filters.experienceRange, formatExperience)}`);
+  if (filters.maxDistanceKm !== null) parts.push(`Within ${filters.maxDistanceKm} km`);
+  const availability = AVAILABILITY_WINDOWS.find(option => option.value === filters.availableWithin);
+  if (availability) parts.push(availability.label);
+  if (filters.shortlistedOnly) parts.push('Shortlisted only');
+  if (filters.sortOptions.length > 0) parts.push(`Sort: ${filters.sortOptions.map(describeSortOption).join(' > ')}`);
+  return parts.length > 0 ? parts.join(' · ') : 'All doctors';
+}
@@ -0,0 +1,91 @@
+// src/utils/geo.ts
+
+import { Doctor, GeoPoint } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Whether a latitude/longitude pair is within the valid ranges.
+ * @param lat - Latitude in degrees.
+ * @param lng - Longitude in degrees.
+ */
+function isValidLatLng(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/**
+ * Parses a clinic location string such as "19.2437,73.1305" (latitude first).
+ * Some records list longitude first; when the first number cannot be a latitude
+ * but the second can, the pair is swapped. (0,0) is treated as "unknown", a common
+ * placeholder in scraped data.
+ * @param location - The raw location string.
+ * @returns The coordinates, or null when the string is not a usable pair.
+ */
+export function parseCoordinates(location: string | null | undefined): GeoPoint | null {
+  if (!location) return null;
+  const parts = location.split(/[,;\s]+/).filter(Boolean);
+  if (parts.length !== 2) return null;
+  const [first, second] = parts.map(Number);
+
+  let point: GeoPoint | null = null;
+  if (isValidLatLng(first, second)) point = { lat: first, lng: second };
+  else if (isValidLatLng(second, first)) point = { lat: second, lng: first };
+  if (!point || (point.lat === 0 && point.lng === 0)) return null;
+  return point;
+}
+
+/**
+ * Great-circle distance between two points (haversine formula).
+ * @param a - First point.
+ * @param b - Second point.
+ * @returns Distance in kilometres.
+ */
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Average position of a set of points (adequate for the small areas of a city).
+ * @param points - The points.
+ * @returns The centroid, or null when there are no points.
+ */
+export function getCentroid(points: GeoPoint[]): GeoPoint | null {
+  if (points.length === 0) return null;
+  const sum = points.reduce((acc, point) => ({ lat: acc.lat + point.lat, lng: acc.lng + point.lng }), { lat: 0, lng: 0 });
+  return { lat: sum.lat / points.length, lng: sum.lng / points.length };
+}
+
+/**
+ * Finds an approximate position for a typed place name by averaging the coordinates
+ * of clinics whose locality (or, failing that, city) matches it case-insensitively.
+ * Works offline against the loaded doctors rather than calling a geocoding service.
+ * @param doctors - The loaded doctors.
+ * @param place - The typed locality or city name.
+ * @returns The position and the matched place name as written in the data, or null.
+ */
+export function locatePlace(doctors: Doctor[], place: string): { point: GeoPoint; label: string } | null {
+  const wanted = place.trim().toLowerCase();
+  if (!wanted) return null;
+  for (const field of ['locality', 'city'] as const) {
+    const matches = doctors.filter(doc =>
+      doc.address?.coordinates && doc.address[field]?.trim().toLowerCase() === wanted
+    );
+    const centroid = getCentroid(matches.map(doc => doc.address!.coordinates!));
+    if (centroid) return { point: centroid, label: matches[0].address![field]!.trim() };
+  }
+  return null;
+}
+
+/**
+ * Formats a distance for display, e.g. "850 m" or "3.2 km".
+ * @param km - Distance in kilometres.
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.max(10, Math.round((km * 1000) / 10) * 10)} m`;
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
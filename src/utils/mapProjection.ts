@@ -0,0 +1,165 @@
+// src/utils/mapProjection.ts
+
+import { Doctor, GeoPoint } from '../types';
+
+/** A position in Web Mercator "world" units: x and y both run from 0 to 1 */
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+/** What part of the world the map shows: its centre and pixels per world unit */
+export interface MapViewport {
+  center: WorldPoint;
+  scale: number;
+}
+
+/** All doctors practising at one clinic position */
+export interface ClinicLocation {
+  key: string;
+  point: GeoPoint;
+  world: WorldPoint;
+  doctors: Doctor[];
+}
+
+/** Clinics drawn as a single marker at the current zoom level */
+export interface MarkerCluster {
+  key: string;
+  /** Position in screen pixels */
+  x: number;
+  y: number;
+  clinics: ClinicLocation[];
+  doctorCount: number;
+}
+
+// Zoom limits: the whole world in ~1000px, down to roughly street level
+export const MIN_SCALE = 1024;
+export const MAX_SCALE = 2 ** 24;
+
+/**
+ * Projects a coordinate with the Web Mercator projection (as used by web map tiles).
+ * @param point - Latitude/longitude in degrees.
+ */
+export function projectToWorld(point: GeoPoint): WorldPoint {
+  // Clamp to the latitudes Web Mercator can represent
+  const lat = Math.max(-85.05112878, Math.min(85.05112878, point.lat));
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: (point.lng + 180) / 360,
+    y: 0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI),
+  };
+}
+
+/**
+ * Inverse of projectToWorld.
+ * @param world - A world position.
+ */
+export function unprojectFromWorld(world: WorldPoint): GeoPoint {
+  return {
+    lat: (Math.atan(Math.sinh(Math.PI * (1 - 2 * world.y))) * 180) / Math.PI,
+    lng: world.x * 360 - 180,
+  };
+}
+
+/**
+ * Converts a world position to screen pixels for a viewport of the given size.
+ * @param world - The world position.
+ * @param viewport - The current viewport.
+ * @param width - Map width in pixels.
+ * @param height - Map height in pixels.
+ */
+export function worldToScreen(world: WorldPoint, viewport: MapViewport, width: number, height: number): { x: number; y: number } {
+  return {
+    x: (world.x - viewport.center.x) * viewport.scale + width / 2,
+    y: (world.y - viewport.center.y) * viewport.scale + height / 2,
+  };
+}
+
+/**
+ * Converts screen pixels back to a world position (inverse of worldToScreen).
+ * @param screen - Position in pixels from the map's top-left corner.
+ * @param viewport - The current viewport.
+ * @param width - Map width in pixels.
+ * @param height - Map height in pixels.
+ */
+export function screenToWorld(screen: { x: number; y: number }, viewport: MapViewport, width: number, height: number): WorldPoint {
+  return {
+    x: viewport.center.x + (screen.x - width / 2) / viewport.scale,
+    y: viewport.center.y + (screen.y - height / 2) / viewport.scale,
+  };
+}
+
+/**
+ * Groups doctors by the exact position of their clinic; doctors without coordinates are left out.
+ * @param doctors - The doctors to plot.
+ */
+export function groupDoctorsByClinic(doctors: Doctor[]): ClinicLocation[] {
+  const byKey = new Map<string, ClinicLocation>();
+  doctors.forEach(doc => {
+    const point = doc.address?.coordinates;
+    if (!point) return;
+    const key = `${point.lat.toFixed(5)},${point.lng.toFixed(5)}`;
+    const existing = byKey.get(key);
+    if (existing) existing.doctors.push(doc);
+    else byKey.set(key, { key, point, world: projectToWorld(point), doctors: [doc] });
+  });
+  return Array.from(byKey.values());
+}
+
+/**
+ * Computes the viewport that fits every given world point, with some padding.
+ * @param points - The points to fit.
+ * @param width - Map width in pixels.
+ * @param height - Map height in pixels.
+ * @param padding - Margin in pixels kept free around the points.
+ */
+export function fitViewport(points: WorldPoint[], width: number, height: number, padding = 40): MapViewport {
+  if (points.length === 0) return { center: { x: 0.5, y: 0.5 }, scale: MIN_SCALE };
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const spanX = maxX - minX;
+  const spanY = maxY - minY;
+  const scale = Math.min(
+    spanX > 0 ? (width - padding * 2) / spanX : MAX_SCALE,
+    spanY > 0 ? (height - padding * 2) / spanY : MAX_SCALE,
+    // A single clinic gets a neighbourhood-level zoom rather than the maximum
+    2 ** 18,
+  );
+  return {
+    center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+    scale: Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale)),
+  };
+}
+
+/**
+ * Greedy screen-space clustering: each clinic joins the first cluster whose first clinic
+ * lies within `radius` pixels, otherwise it starts a new one. Clinics are visited from
+ * busiest to quietest so clusters form around the clinics with the most doctors.
+ * @param clinics - The clinics to cluster.
+ * @param viewport - The current viewport.
+ * @param width - Map width in pixels.
+ * @param height - Map height in pixels.
+ * @param radius - Clustering distance in pixels.
+ */
+export function clusterClinics(
+  clinics: ClinicLocation[],
+  viewport: MapViewport,
+  width: number,
+  height: number,
+  radius = 36,
+): MarkerCluster[] {
+  const clusters: MarkerCluster[] = [];
+  const ordered = [...clinics].sort((a, b) => b.doctors.length - a.doctors.length);
+  ordered.forEach(clinic => {
+    const screen = worldToScreen(clinic.world, viewport, width, height);
+    const cluster = clusters.find(candidate => Math.hypot(candidate.x - screen.x, candidate.y - screen.y) <= radius);
+    if (cluster) {
+      cluster.clinics.push(clinic);
+      cluster.doctorCount += clinic.doctors.length;
+    } else {
+      clusters.push({ key: clinic.key, x: screen.x, y: screen.y, clinics: [clinic], doctorCount: clinic.doctors.length });
+    }
+  });
+  return clusters;
+}
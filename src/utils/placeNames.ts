@@ -0,0 +1,66 @@
+// src/utils/placeNames.ts
+
+// Alternative city spellings seen in clinic data, mapped to the name used in the app
+// (keys are lower-case, whitespace-collapsed)
+const CITY_ALIASES: Record<string, string> = {
+  'bombay': 'Mumbai',
+  'navi mumbai': 'Navi Mumbai',
+  'bengaluru': 'Bangalore',
+  'bengalooru': 'Bangalore',
+  'new delhi': 'Delhi',
+  'gurgaon': 'Gurugram',
+  'poona': 'Pune',
+  'madras': 'Chennai',
+  'calcutta': 'Kolkata',
+};
+
+// Abbreviated compass suffixes, e.g. "Andheri (W)" or "Andheri W." -> "Andheri West"
+const DIRECTION_SUFFIXES: Record<string, string> = {
+  n: 'North',
+  s: 'South',
+  e: 'East',
+  w: 'West',
+};
+
+/**
+ * Capitalizes each word ("andheri west" -> "Andheri West"), keeping short all-caps
+ * tokens such as "HSR" or "JP" as they are.
+ * @param value - Whitespace-collapsed text.
+ */
+function toTitleCase(value: string): string {
+  return value
+    .split(' ')
+    .map(word => (/^[A-Z]{2,4}$/.test(word) ? word : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()))
+    .join(' ');
+}
+
+/**
+ * Normalizes a locality name so the same area written differently in the raw data
+ * ("andheri west", "Andheri (W)", " Andheri  West ") becomes one filter option.
+ * @param name - The raw locality name.
+ * @returns The normalized name, or undefined when blank.
+ */
+export function normalizeLocalityName(name: string | null | undefined): string | undefined {
+  if (!name) return undefined;
+  let value = name.replace(/\s+/g, ' ').trim();
+  if (!value) return undefined;
+  // "Andheri (W)" or "Andheri W." -> "Andheri West" (a bare trailing letter, as in "Block E", is left alone)
+  value = value.replace(/\s*(?:\(([NSEW])\)|\s([NSEW])\.)$/i, (_, inParens?: string, withDot?: string) =>
+    ` ${DIRECTION_SUFFIXES[(inParens ?? withDot ?? '').toLowerCase()]}`);
+  // "Andheri-West" -> "Andheri West"
+  value = value.replace(/-(North|South|East|West)$/i, ' $1');
+  return toTitleCase(value);
+}
+
+/**
+ * Normalizes a city name: tidies casing/whitespace and maps known alternative
+ * spellings (e.g. "Bengaluru", "Bombay") to a single name.
+ * @param name - The raw city name.
+ * @returns The normalized name, or undefined when blank.
+ */
+export function normalizeCityName(name: string | null | undefined): string | undefined {
+  if (!name) return undefined;
+  const collapsed = name.replace(/\s+/g, ' ').trim();
+  if (!collapsed) return undefined;
+  return CITY_ALIASES[collapsed.toLowerCase()] ?? toTitleCase(collapsed);
+}
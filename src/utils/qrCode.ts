@@ -0,0 +1,389 @@
+// src/utils/qrCode.ts
+
+import { QrCode, QrErrorCorrectionLevel } from '../types';
+
+/*
+ * A small QR code encoder (ISO/IEC 18004), enough to turn a share link into a symbol
+ * without a dependency: byte mode only (UTF-8), versions 1–40, all four error
+ * correction levels, and the mask with the lowest penalty score.
+ */
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Error correction codewords per block, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// Error correction blocks, indexed by version (index 0 unused)
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// Level indicator written into the format information
+const FORMAT_LEVEL_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Data mask conditions; a module at column x, row y is flipped when its mask returns true
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Dark/light sequences that look like a finder pattern (penalty rule 3)
+const FINDER_LIKE_PATTERNS = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/** Modules available for data and error correction codewords in a symbol of this version */
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+/** Data codewords a symbol of this version and level holds */
+function getDataCodewords(version: number, level: QrErrorCorrectionLevel): number {
+  return Math.floor(getRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+}
+
+/** Centre coordinates (on both axes) of the alignment patterns */
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+/** Multiplies two elements of GF(2^8) with the QR code polynomial 0x11D */
+function multiplyGf(a: number, b: number): number {
+  let result = 0;
+  for (let bit = 7; bit >= 0; bit--) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d);
+    result ^= ((b >>> bit) & 1) * a;
+  }
+  return result;
+}
+
+/** Reed–Solomon generator polynomial of the given degree (leading coefficient omitted) */
+function getReedSolomonDivisor(degree: number): number[] {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = multiplyGf(divisor[j], root);
+      if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+    }
+    root = multiplyGf(root, 0x02);
+  }
+  return divisor;
+}
+
+/**
+ * Reed–Solomon error correction codewords for one block.
+ * @param data - The block's data codewords.
+ * @param degree - How many error correction codewords to compute.
+ */
+function computeReedSolomon(data: number[], degree: number): number[] {
+  const divisor = getReedSolomonDivisor(degree);
+  const remainder = new Array<number>(degree).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => { remainder[i] ^= multiplyGf(coefficient, factor); });
+  });
+  return remainder;
+}
+
+/** Builds the data codewords: byte-mode header, the bytes, terminator and padding */
+function buildDataCodewords(bytes: Uint8Array, version: number, capacity: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+}
+
+/** Splits the data into blocks, adds their error correction and interleaves everything */
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrectionLevel): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  // Later blocks hold one data codeword more than the first `shortBlockCount`
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortDataLength = Math.floor(rawCodewords / blockCount) - eccLength;
+
+  const dataBlocks: number[][] = [];
+  const eccBlocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortDataLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    dataBlocks.push(block);
+    eccBlocks.push(computeReedSolomon(block, eccLength));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortDataLength; i++) {
+    dataBlocks.forEach(block => { if (i < block.length) result.push(block[i]); });
+  }
+  for (let i = 0; i < eccLength; i++) {
+    eccBlocks.forEach(block => result.push(block[i]));
+  }
+  return result;
+}
+
+/** 15-bit format information (level and mask, BCH-protected) */
+function getFormatBits(level: QrErrorCorrectionLevel, mask: number): number {
+  const data = (FORMAT_LEVEL_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+/** 18-bit version information (versions 7 and up) */
+function getVersionBits(version: number): number {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  return (version << 12) | remainder;
+}
+
+/** The module grid while it is being drawn */
+interface QrMatrix {
+  version: number;
+  size: number;
+  modules: boolean[][];
+  /** Modules that belong to function patterns (never masked or used for data) */
+  reserved: boolean[][];
+}
+
+function setFunctionModule(matrix: QrMatrix, x: number, y: number, isDark: boolean): void {
+  matrix.modules[y][x] = isDark;
+  matrix.reserved[y][x] = true;
+}
+
+/** Draws a finder pattern (with its light separator) centred on the given module */
+function drawFinder(matrix: QrMatrix, centerX: number, centerY: number): void {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const x = centerX + dx;
+      const y = centerY + dy;
+      if (x < 0 || x >= matrix.size || y < 0 || y >= matrix.size) continue;
+      const distance = Math.max(Math.abs(dx), Math.abs(dy));
+      setFunctionModule(matrix, x, y, distance !== 2 && distance !== 4);
+    }
+  }
+}
+
+function drawAlignment(matrix: QrMatrix, centerX: number, centerY: number): void {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      setFunctionModule(matrix, centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+}
+
+/** Draws both copies of the format information */
+function drawFormatBits(matrix: QrMatrix, bits: number): void {
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  const { size } = matrix;
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunctionModule(matrix, 8, i, bit(i));
+  setFunctionModule(matrix, 8, 7, bit(6));
+  setFunctionModule(matrix, 8, 8, bit(7));
+  setFunctionModule(matrix, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunctionModule(matrix, 14 - i, 8, bit(i));
+  // Split between the other two finders, plus the always-dark module
+  for (let i = 0; i < 8; i++) setFunctionModule(matrix, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunctionModule(matrix, 8, size - 15 + i, bit(i));
+  setFunctionModule(matrix, 8, size - 8, true);
+}
+
+/** Draws both copies of the version information (versions 7 and up) */
+function drawVersionBits(matrix: QrMatrix): void {
+  if (matrix.version < 7) return;
+  const bits = getVersionBits(matrix.version);
+  for (let i = 0; i < 18; i++) {
+    const isDark = ((bits >>> i) & 1) === 1;
+    const a = matrix.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(matrix, a, b, isDark);
+    setFunctionModule(matrix, b, a, isDark);
+  }
+}
+
+/** Creates the grid with its timing, finder, alignment and version patterns drawn */
+function createMatrix(version: number): QrMatrix {
+  const size = version * 4 + 17;
+  const matrix: QrMatrix = {
+    version,
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    reserved: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(matrix, 6, i, i % 2 === 0);
+    setFunctionModule(matrix, i, 6, i % 2 === 0);
+  }
+  drawFinder(matrix, 3, 3);
+  drawFinder(matrix, size - 4, 3);
+  drawFinder(matrix, 3, size - 4);
+
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((y, i) => positions.forEach((x, j) => {
+    // The three corners are taken by finder patterns
+    const isFinderCorner = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+    if (!isFinderCorner) drawAlignment(matrix, x, y);
+  }));
+
+  drawFormatBits(matrix, 0); // Reserves the area; the real bits are drawn once a mask is picked
+  drawVersionBits(matrix);
+  return matrix;
+}
+
+/** Places the codewords in the two-column zigzag, bottom-right first */
+function drawCodewords(matrix: QrMatrix, codewords: number[]): void {
+  const { size, modules, reserved } = matrix;
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // Skip the vertical timing pattern
+    const isUpward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const y = isUpward ? size - 1 - step : step;
+      for (let column = 0; column < 2; column++) {
+        const x = right - column;
+        if (reserved[y][x] || bitIndex >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+        bitIndex++;
+      }
+    }
+  }
+}
+
+/** Flips the data modules selected by a mask; applying it twice undoes it */
+function applyMask(matrix: QrMatrix, mask: number): void {
+  for (let y = 0; y < matrix.size; y++) {
+    for (let x = 0; x < matrix.size; x++) {
+      if (!matrix.reserved[y][x] && MASKS[mask](x, y)) matrix.modules[y][x] = !matrix.modules[y][x];
+    }
+  }
+}
+
+/** Penalty score of the modules (lower scans more reliably) */
+function getPenalty({ size, modules }: QrMatrix): number {
+  let penalty = 0;
+  const lines: boolean[][] = [
+    ...modules,
+    ...modules.map((_row, x) => modules.map(row => row[x])),
+  ];
+
+  lines.forEach(line => {
+    // Rule 1: runs of five or more modules of one colour
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) penalty += runLength - 2;
+        runLength = 1;
+      }
+    }
+    // Rule 3: finder-like patterns
+    for (let i = 0; i + 11 <= line.length; i++) {
+      if (FINDER_LIKE_PATTERNS.some(pattern => pattern.every((isDark, j) => line[i + j] === isDark))) penalty += 40;
+    }
+  });
+
+  // Rule 2: 2×2 blocks of one colour
+  let darkCount = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) darkCount++;
+      if (x + 1 < size && y + 1 < size) {
+        const color = modules[y][x];
+        if (modules[y][x + 1] === color && modules[y + 1][x] === color && modules[y + 1][x + 1] === color) penalty += 3;
+      }
+    }
+  }
+
+  // Rule 4: balance of dark and light modules
+  const darkPercent = (darkCount * 100) / (size * size);
+  penalty += Math.floor(Math.abs(darkPercent - 50) / 5) * 10;
+  return penalty;
+}
+
+/**
+ * Encodes text (as UTF-8 bytes) into the smallest QR code that holds it.
+ * @param text - The text to encode, typically a URL.
+ * @param level - Error correction level (defaults to 'M', the usual choice for links).
+ * @param mask - Forces a mask pattern (0–7); by default the one with the lowest penalty is used.
+ * @returns The symbol's modules.
+ * @throws Error when the text is too long for a version 40 symbol.
+ */
+export function encodeQrCode(text: string, level: QrErrorCorrectionLevel = 'M', mask?: number): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  let version = MIN_VERSION;
+  for (; version <= MAX_VERSION; version++) {
+    const neededBits = 4 + (version < 10 ? 8 : 16) + bytes.length * 8;
+    if (neededBits <= getDataCodewords(version, level) * 8) break;
+  }
+  if (version > MAX_VERSION) throw new Error('The text is too long for a QR code.');
+
+  const data = buildDataCodewords(bytes, version, getDataCodewords(version, level));
+  const matrix = createMatrix(version);
+  drawCodewords(matrix, addErrorCorrection(data, version, level));
+
+  let bestMask = mask ?? 0;
+  if (mask === undefined) {
+    let lowestPenalty = Infinity;
+    MASKS.forEach((_condition, candidate) => {
+      applyMask(matrix, candidate);
+      drawFormatBits(matrix, getFormatBits(level, candidate));
+      const penalty = getPenalty(matrix);
+      if (penalty < lowestPenalty) {
+        lowestPenalty = penalty;
+        bestMask = candidate;
+      }
+      applyMask(matrix, candidate);
+    });
+  }
+  applyMask(matrix, bestMask);
+  drawFormatBits(matrix, getFormatBits(level, bestMask));
+  return { size: matrix.size, version, modules: matrix.modules };
+}
@@ -0,0 +1,33 @@
+// src/utils/shortlist.ts
+
+import { Doctor, ShortlistEntry, ShortlistItem } from '../types';
+
+/**
+ * Creates a shortlist entry for a doctor, copying what is needed to show it later on.
+ * @param doctor - The doctor being shortlisted.
+ * @param addedAt - Epoch milliseconds of the moment it was added.
+ */
+export function createShortlistEntry(doctor: Doctor, addedAt = Date.now()): ShortlistEntry {
+  return {
+    doctorId: doctor.id,
+    name: doctor.name,
+    specialityNames: [...doctor.specialityNames],
+    addedAt,
+  };
+}
+
+/**
+ * Matches shortlist entries against the latest doctors by id. Entries whose doctor is
+ * missing are only flagged as stale once every doctor has been loaded.
+ * @param entries - The stored shortlist.
+ * @param doctors - The doctors loaded so far.
+ * @param hasLoadedAllDoctors - Whether `doctors` is the complete data set.
+ * @returns One item per entry, in the same order.
+ */
+export function resolveShortlist(entries: ShortlistEntry[], doctors: Doctor[], hasLoadedAllDoctors: boolean): ShortlistItem[] {
+  const doctorsById = new Map(doctors.map(doc => [doc.id, doc]));
+  return entries.map(entry => {
+    const doctor = doctorsById.get(entry.doctorId) ?? null;
+    return { entry, doctor, isStale: !doctor && hasLoadedAllDoctors };
+  });
+}
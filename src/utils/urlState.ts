@@ -0,0 +1,229 @@
+// src/utils/urlState.ts
+
+import { ConsultationMode, ReferencePoint, UrlState } from '../types';
+import { parseComparedDoctorIds } from './comparison';
+import {
+  CONSULTATION_TYPES,
+  formatSortOption,
+  parseAvailabilityWindow,
+  parseMaxDistance,
+  parseNumericRange,
+  parseSortOptions,
+} from './filterState';
+import { parseCoordinates } from './geo';
+import { normalizeCityName, normalizeLocalityName } from './placeNames';
+
+/**
+ * Encoding written by serializeUrlState (the `v` param). Links without `v` use the
+ * original long-form params (version 1) and are still read.
+ */
+export const URL_STATE_VERSION = 2;
+
+export const CURRENT_LOCATION_LABEL = 'Current location';
+
+// Limits that keep a tampered or absurdly long link from bloating state
+const MAX_SEARCH_LENGTH = 200;
+const MAX_LABEL_LENGTH = 100;
+const MAX_LIST_VALUES = 50;
+
+// Short codes for the consultation modes in the compact encoding
+const CONSULTATION_CODES: Record<ConsultationMode, string> = {
+  'Video Consult': 'video',
+  'In Clinic': 'clinic',
+};
+
+/** URL values as read, before validation; both encodings are decoded into this shape */
+interface RawUrlState {
+  searchTerm: string | null;
+  consultationType: string | null;
+  specialties: string[];
+  cities: string[];
+  localities: string[];
+  languages: string[];
+  languageMatch: string | null;
+  fee: [string | null, string | null];
+  experience: [string | null, string | null];
+  maxDistanceKm: string | null;
+  near: string | null;
+  nearLabel: string | null;
+  availableWithin: string | null;
+  shortlistedOnly: string | null;
+  sortOptions: string[];
+  compareIds: string[];
+}
+
+/**
+ * Reads the original (version 1) params, e.g.
+ * `?search=sharma&consultation=Video+Consult&feeMin=200&sort=fees:asc&compare=12`.
+ */
+function decodeVersion1(params: URLSearchParams): RawUrlState {
+  return {
+    searchTerm: params.get('search'),
+    consultationType: params.get('consultation'),
+    specialties: params.getAll('specialty'),
+    cities: params.getAll('city'),
+    localities: params.getAll('locality'),
+    languages: params.getAll('language'),
+    languageMatch: params.get('languageMatch'),
+    fee: [params.get('feeMin'), params.get('feeMax')],
+    experience: [params.get('expMin'), params.get('expMax')],
+    maxDistanceKm: params.get('maxKm'),
+    near: params.get('near'),
+    nearLabel: params.get('nearLabel'),
+    availableWithin: params.get('available'),
+    shortlistedOnly: params.get('shortlisted'),
+    sortOptions: params.getAll('sort'),
+    compareIds: params.getAll('compare'),
+  };
+}
+
+/**
+ * Reads a compact range such as `200-800`, `200-` or `-800`.
+ */
+function decodeRange(value: string | null): [string | null, string | null] {
+  if (!value) return [null, null];
+  const [min = null, max = null, ...rest] = value.split('-');
+  return rest.length > 0 ? [null, null] : [min, max];
+}
+
+/**
+ * Reads the compact (version 2) params, e.g.
+ * `?v=2&q=sharma&mode=video&fee=200-&sort=fees:asc,name:desc&cmp=12`.
+ */
+function decodeVersion2(params: URLSearchParams): RawUrlState {
+  const mode = params.get('mode');
+  return {
+    searchTerm: params.get('q'),
+    consultationType: CONSULTATION_TYPES.find(type => CONSULTATION_CODES[type] === mode) ?? null,
+    specialties: params.getAll('sp'),
+    cities: params.getAll('city'),
+    localities: params.getAll('loc'),
+    languages: params.getAll('lang'),
+    languageMatch: params.get('lm'),
+    fee: decodeRange(params.get('fee')),
+    experience: decodeRange(params.get('exp')),
+    maxDistanceKm: params.get('km'),
+    near: params.get('near'),
+    nearLabel: params.get('nl'),
+    availableWithin: params.get('av'),
+    shortlistedOnly: params.get('sl'),
+    sortOptions: (params.get('sort') ?? '').split(','),
+    compareIds: params.getAll('cmp'),
+  };
+}
+
+/**
+ * Trims, drops blanks and duplicates, normalizes, and caps a repeated param.
+ * @param values - The raw values, in URL order.
+ * @param normalize - Optional normalization (e.g. place-name casing); undefined drops the value.
+ */
+function cleanList(values: string[], normalize: (value: string) => string | undefined = value => value): string[] {
+  const cleaned: string[] = [];
+  values.forEach(raw => {
+    const value = normalize(raw.replace(/\s+/g, ' ').trim());
+    if (value && !cleaned.includes(value) && cleaned.length < MAX_LIST_VALUES) cleaned.push(value);
+  });
+  return cleaned;
+}
+
+/**
+ * Rebuilds the reference point; the label says whether it is the user's own position.
+ */
+function readReferencePoint(near: string | null, nearLabel: string | null): ReferencePoint | null {
+  const point = parseCoordinates(near);
+  if (!point) return null;
+  const label = nearLabel?.trim().slice(0, MAX_LABEL_LENGTH) || CURRENT_LOCATION_LABEL;
+  return { point, label, source: label === CURRENT_LOCATION_LABEL ? 'geolocation' : 'place' };
+}
+
+/**
+ * Reads the results-page state from URL params. Every value is validated: unknown
+ * modes, sort criteria or windows, non-numeric ranges, bad coordinates, blanks and
+ * duplicates are dropped, and place names are normalized like the data.
+ * Links without a `v` param are read as version 1; any other version as the current one.
+ * @param params - The URL's search params.
+ * @returns A complete, valid state (defaults where the URL says nothing usable).
+ */
+export function parseUrlState(params: URLSearchParams): UrlState {
+  const raw = params.has('v') ? decodeVersion2(params) : decodeVersion1(params);
+  return {
+    filters: {
+      searchTerm: (raw.searchTerm ?? '').slice(0, MAX_SEARCH_LENGTH),
+      consultationType: CONSULTATION_TYPES.find(type => type === raw.consultationType) ?? null,
+      specialties: new Set(cleanList(raw.specialties)),
+      cities: new Set(cleanList(raw.cities, normalizeCityName)),
+      localities: new Set(cleanList(raw.localities, normalizeLocalityName)),
+      languages: new Set(cleanList(raw.languages)),
+      languageMatch: raw.languageMatch === 'all' ? 'all' : 'any',
+      feeRange: parseNumericRange(...raw.fee),
+      experienceRange: parseNumericRange(...raw.experience),
+      maxDistanceKm: parseMaxDistance(raw.maxDistanceKm),
+      availableWithin: parseAvailabilityWindow(raw.availableWithin),
+      shortlistedOnly: raw.shortlistedOnly === '1',
+      sortOptions: parseSortOptions(raw.sortOptions),
+    },
+    referencePoint: readReferencePoint(raw.near, raw.nearLabel),
+    compareIds: parseComparedDoctorIds(raw.compareIds),
+  };
+}
+
+/**
+ * Writes the results-page state as compact (current version) URL params. Defaults are
+ * left out, so an untouched page has a clean URL.
+ * @param state - The state to encode.
+ */
+export function serializeUrlState({ filters, referencePoint, compareIds }: UrlState): URLSearchParams {
+  const params = new URLSearchParams({ v: String(URL_STATE_VERSION) });
+  const setRange = (name: string, { min, max }: { min: number | null; max: number | null }) => {
+    if (min !== null || max !== null) params.set(name, `${min ?? ''}-${max ?? ''}`);
+  };
+
+  if (filters.searchTerm) params.set('q', filters.searchTerm);
+  if (filters.consultationType) params.set('mode', CONSULTATION_CODES[filters.consultationType]);
+  filters.specialties.forEach(specialty => params.append('sp', specialty));
+  filters.cities.forEach(city => params.append('city', city));
+  filters.localities.forEach(locality => params.append('loc', locality));
+  filters.languages.forEach(language => params.append('lang', language));
+  // 'any' is the default, so only the non-default mode is written
+  if (filters.languageMatch === 'all') params.set('lm', 'all');
+  setRange('fee', filters.feeRange);
+  setRange('exp', filters.experienceRange);
+  if (filters.maxDistanceKm !== null) params.set('km', String(filters.maxDistanceKm));
+  if (filters.availableWithin) params.set('av', filters.availableWithin);
+  if (filters.shortlistedOnly) params.set('sl', '1');
+  if (referencePoint) {
+    // ~100 m precision is plenty for sorting clinics and avoids sharing an exact position
+    params.set('near', `${referencePoint.point.lat.toFixed(3)},${referencePoint.point.lng.toFixed(3)}`);
+    if (referencePoint.label !== CURRENT_LOCATION_LABEL) params.set('nl', referencePoint.label);
+  }
+  if (filters.sortOptions.length > 0) params.set('sort', filters.sortOptions.map(formatSortOption).join(','));
+  compareIds.forEach(id => params.append('cmp', id));
+
+  // The version alone says nothing; leave the URL clean
+  if (params.size === 1) params.delete('v');
+  return params;
+}
+
+/**
+ * The part of the state that makes a different search (everything but the comparison
+ * picks), used to decide when a change deserves its own browser history entry.
+ * @param state - The state.
+ */
+export function getUrlStateHistoryKey(state: UrlState): string {
+  return serializeUrlState({ ...state, compareIds: [] }).toString();
+}
+
+/**
+ * Link that opens the results with the given filters, for sharing with someone else.
+ * It is as short as the compact encoding allows: comparison picks are left out, and so is
+ * a reference point from the user's own position (only a typed place is shared).
+ * @param state - The filters and reference point to share.
+ * @param baseUrl - Absolute URL of the results page (e.g. `window.location.origin + '/'`).
+ */
+export function buildShareUrl({ filters, referencePoint }: Omit<UrlState, 'compareIds'>, baseUrl: string): string {
+  const sharedPoint = referencePoint?.source === 'place' ? referencePoint : null;
+  const url = new URL(baseUrl);
+  url.search = serializeUrlState({ filters, referencePoint: sharedPoint, compareIds: [] }).toString();
+  url.hash = '';
+  return url.toString();
+}
@@ -1,11 +1,44 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react-swc'
-import tailwindcss from '@tailwindcss/vite' 
+import tailwindcss from '@tailwindcss/vite'
+
+// Identifies this build; the service worker is registered with it so every deploy installs afresh
+const BUILD_ID = Date.now().toString(36)
+
+// Files from public/ that the app shell needs offline (everything bundled is added automatically)
+const PUBLIC_SHELL_FILES = ['/', '/index.html', '/favicon.svg', '/icon-192.png', '/icon-512.png', '/manifest.webmanifest']
+
+/**
+ * Writes `precache-manifest.json` listing every file of the build (entry, lazily loaded
+ * chunks, CSS, the bundled fixture…) for public/sw.js to precache on install.
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const bundledFiles = Object.keys(bundle)
+        .filter(fileName => !fileName.endsWith('.map'))
+        .map(fileName => `/${fileName}`)
+      const files = Array.from(new Set([...PUBLIC_SHELL_FILES, ...bundledFiles]))
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify({ version: BUILD_ID, files }, null, 2),
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
-    tailwindcss(), 
+    tailwindcss(),
+    precacheManifest(),
   ],
-})
\ No newline at end of file
+  define: {
+    'import.meta.env.VITE_BUILD_ID': JSON.stringify(BUILD_ID),
+  },
+})